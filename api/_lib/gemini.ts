@@ -0,0 +1,19 @@
+import { GoogleGenAI } from '@google/genai';
+import { AiTask, GEMINI_MODELS } from '../../shared/aiPrompts';
+import { HttpError } from './http';
+
+let client: GoogleGenAI | null = null;
+
+export const getGemini = () => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new HttpError(500, 'The server has no GEMINI_API_KEY configured.');
+  return client ??= new GoogleGenAI({ apiKey });
+};
+
+// Clients may pick a model per task, but only the defaults and those listed in GEMINI_ALLOWED_MODELS are billed.
+export const resolveModel = (task: AiTask, requested: unknown) => {
+  if (requested === undefined || requested === GEMINI_MODELS[task]) return GEMINI_MODELS[task];
+  const allowed = (process.env.GEMINI_ALLOWED_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+  if (typeof requested === 'string' && allowed.includes(requested)) return requested;
+  throw new HttpError(400, `Model "${String(requested)}" is not enabled on this server.`);
+};
@@ -0,0 +1,87 @@
+import { createHash } from 'node:crypto';
+import { takeRateLimitToken } from './rateLimit';
+
+export class HttpError extends Error {
+  status: number;
+  retryAfter?: number;
+
+  constructor(status: number, message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+interface RouteOptions {
+  route: string;
+  // Requests allowed per client per minute; each IP gets five times this to cap id rotation.
+  perMinute: number;
+  maxBodyLength: number;
+}
+
+interface RequestContext {
+  signal: AbortSignal;
+  log: (entry: Record<string, unknown>) => void;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Log lines carry hashed identifiers and timings only, never request or response bodies.
+const anonymize = (value: string) => createHash('sha256').update(value).digest('hex').slice(0, 12);
+
+const writeLog = (entry: Record<string, unknown>) =>
+  console.log(JSON.stringify({ at: new Date().toISOString(), ...entry }));
+
+// Upstream Gemini errors keep their 4xx status so the browser can tell a bad key or quota from an outage.
+const toHttpError = (err: unknown): HttpError => {
+  if (err instanceof HttpError) return err;
+  const status = (err as { status?: unknown })?.status;
+  if (status === 401 || status === 403) return new HttpError(status, 'The server\'s Gemini API key was rejected.');
+  if (status === 429) return new HttpError(429, 'The Gemini quota is exhausted. Try again later.', 30);
+  if (status === 400) return new HttpError(400, 'Gemini could not process this request.');
+  return new HttpError(502, 'The upstream AI service failed.');
+};
+
+export const createHandler = (options: RouteOptions, handle: (body: Record<string, unknown>, context: RequestContext) => Promise<Response | object>) =>
+  async (request: Request): Promise<Response> => {
+    const started = Date.now();
+    const client = anonymize(request.headers.get('x-medaid-client') || 'anonymous');
+    const ip = anonymize(request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown');
+    const log = (entry: Record<string, unknown>) => writeLog({ route: options.route, client, ip, ...entry });
+
+    try {
+      if (request.method !== 'POST') throw new HttpError(405, 'Use POST.');
+      const retryAfter = takeRateLimitToken(`${options.route}:client:${client}`, options.perMinute)
+        ?? takeRateLimitToken(`${options.route}:ip:${ip}`, options.perMinute * 5);
+      if (retryAfter !== null) throw new HttpError(429, 'Too many requests. Slow down and try again shortly.', retryAfter);
+
+      const raw = await request.text();
+      if (raw.length > options.maxBodyLength) throw new HttpError(413, 'The request is too large.');
+      let body: unknown;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        throw new HttpError(400, 'The request body must be JSON.');
+      }
+      if (!isRecord(body)) throw new HttpError(400, 'The request body must be a JSON object.');
+
+      const result = await handle(body, { signal: request.signal, log });
+      log({ status: 200, ms: Date.now() - started });
+      return result instanceof Response ? result : Response.json(result);
+    } catch (err) {
+      const failure = toHttpError(err);
+      log({ status: failure.status, ms: Date.now() - started, error: failure.message, cause: err instanceof HttpError ? undefined : String(err) });
+      return Response.json(
+        { error: failure.message },
+        { status: failure.status, headers: failure.retryAfter ? { 'Retry-After': String(failure.retryAfter) } : undefined }
+      );
+    }
+  };
+
+export const requireString = (value: unknown, field: string, maxLength = 10_000) => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${field}" is required.`);
+  if (value.length > maxLength) throw new HttpError(413, `"${field}" is too long.`);
+  return value;
+};
@@ -0,0 +1,26 @@
+// Fixed one-minute windows kept in memory. Every serverless instance has its own counters, so this
+// bounds bursts from a single user rather than enforcing an exact global quota.
+
+const WINDOW_MS = 60_000;
+const MAX_TRACKED_KEYS = 10_000;
+
+const windows = new Map<string, { start: number, count: number }>();
+
+const pruneExpired = (now: number) => {
+  for (const [key, window] of windows) {
+    if (now - window.start >= WINDOW_MS) windows.delete(key);
+  }
+};
+
+// Returns null when the request may proceed, otherwise the seconds until the window resets.
+export const takeRateLimitToken = (key: string, limit: number, now = Date.now()): number | null => {
+  if (windows.size > MAX_TRACKED_KEYS) pruneExpired(now);
+  const window = windows.get(key);
+  if (!window || now - window.start >= WINDOW_MS) {
+    windows.set(key, { start: now, count: 1 });
+    return null;
+  }
+  if (window.count >= limit) return Math.ceil((window.start + WINDOW_MS - now) / 1000);
+  window.count++;
+  return null;
+};
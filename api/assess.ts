@@ -0,0 +1,30 @@
+import { ASSESSMENT_SCHEMA, assessmentPrompt } from '../shared/aiPrompts';
+import { getGemini, resolveModel } from './_lib/gemini';
+import { createHandler, isRecord, HttpError } from './_lib/http';
+
+const CONTEXT_ERROR = '"context" must hold "interactions" and "adherence" arrays.';
+
+const optionalList = (value: unknown): unknown[] | undefined => {
+  if (value === undefined) return undefined;
+  if (Array.isArray(value)) return value;
+  throw new HttpError(400, CONTEXT_ERROR);
+};
+
+export const POST = createHandler({ route: 'assess', perMinute: 6, maxBodyLength: 1_000_000 }, async (body, { signal }) => {
+  if (typeof body.profile !== 'object' || body.profile === null) throw new HttpError(400, '"profile" is required.');
+  const context = body.context ?? {};
+  if (!isRecord(context)) throw new HttpError(400, CONTEXT_ERROR);
+  const interactions = optionalList(context.interactions);
+  const adherence = optionalList(context.adherence);
+
+  const response = await getGemini().models.generateContent({
+    model: resolveModel('assessment', body.model),
+    contents: assessmentPrompt(body.profile, { interactions, adherence }),
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: ASSESSMENT_SCHEMA,
+      abortSignal: signal
+    }
+  });
+  return { text: response.text || '' };
+});
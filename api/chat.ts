@@ -0,0 +1,38 @@
+import { CHAT_HISTORY_LIMIT, ChatTurn, chatSystemInstruction } from '../shared/aiPrompts';
+import { getGemini, resolveModel } from './_lib/gemini';
+import { createHandler, isRecord, requireString, HttpError } from './_lib/http';
+
+const isTurn = (value: unknown): value is ChatTurn =>
+  isRecord(value) && (value.role === 'user' || value.role === 'model') && typeof value.text === 'string';
+
+export const POST = createHandler({ route: 'chat', perMinute: 20, maxBodyLength: 1_000_000 }, async (body, { signal, log }) => {
+  const query = requireString(body.query, 'query');
+  const history = body.history ?? [];
+  if (!Array.isArray(history) || !history.every(isTurn)) throw new HttpError(400, '"history" must be a list of chat turns.');
+
+  const chat = getGemini().chats.create({
+    model: resolveModel('chat', body.model),
+    history: history.slice(-CHAT_HISTORY_LIMIT).map(t => ({ role: t.role, parts: [{ text: t.text }] })),
+    config: {
+      systemInstruction: chatSystemInstruction(body.profile ?? {}),
+      abortSignal: signal
+    }
+  });
+
+  // Awaiting the first response here means auth and quota failures still get a proper HTTP status.
+  const stream = await chat.sendMessageStream({ message: query });
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const chunk of stream) {
+          if (chunk.text) controller.enqueue(encoder.encode(chunk.text));
+        }
+        controller.close();
+      } catch (err) {
+        log({ status: 'stream-error', cause: String(err) });
+        controller.error(err);
+      }
+    }
+  }), { headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' } });
+});
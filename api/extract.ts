@@ -0,0 +1,28 @@
+import { EXTRACTION_PROMPT, EXTRACTION_SCHEMA, MAX_DOCUMENT_BASE64_LENGTH } from '../shared/aiPrompts';
+import { getGemini, resolveModel } from './_lib/gemini';
+import { createHandler, requireString, HttpError } from './_lib/http';
+
+const SUPPORTED_TYPES = /^(image\/[\w.+-]+|application\/pdf)$/;
+
+export const POST = createHandler({ route: 'extract', perMinute: 10, maxBodyLength: MAX_DOCUMENT_BASE64_LENGTH + 1_000 }, async (body, { signal }) => {
+  const data = requireString(body.data, 'data', MAX_DOCUMENT_BASE64_LENGTH);
+  const mimeType = requireString(body.mimeType, 'mimeType', 100);
+  if (!SUPPORTED_TYPES.test(mimeType)) throw new HttpError(415, 'Only images and PDFs can be extracted.');
+
+  const response = await getGemini().models.generateContent({
+    model: resolveModel('extraction', body.model),
+    contents: {
+      parts: [
+        { inlineData: { data, mimeType } },
+        { text: EXTRACTION_PROMPT }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: EXTRACTION_SCHEMA,
+      abortSignal: signal
+    }
+  });
+  // Validation happens in the browser, which already owns the retry policy for malformed output.
+  return { text: response.text || '' };
+});
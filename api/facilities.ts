@@ -0,0 +1,31 @@
+import type { GroundingChunk } from '@google/genai';
+import { facilitiesPrompt } from '../shared/aiPrompts';
+import { getGemini, resolveModel } from './_lib/gemini';
+import { createHandler, requireString } from './_lib/http';
+
+const coordinate = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+export const POST = createHandler({ route: 'facilities', perMinute: 10, maxBodyLength: 10_000 }, async (body, { signal }) => {
+  const query = requireString(body.query, 'query', 200);
+  const lat = coordinate(body.lat);
+  const lng = coordinate(body.lng);
+
+  const response = await getGemini().models.generateContent({
+    model: resolveModel('facilities', body.model),
+    contents: facilitiesPrompt(query, lat, lng),
+    config: {
+      tools: [{ googleMaps: {} }],
+      toolConfig: {
+        retrievalConfig: {
+          latLng: lat !== undefined && lng !== undefined ? { latitude: lat, longitude: lng } : undefined
+        }
+      },
+      abortSignal: signal
+    },
+  });
+
+  const groundingChunks: GroundingChunk[] = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  const links = groundingChunks.flatMap(({ maps }) => maps ? [{ title: maps.title, uri: maps.uri }] : []);
+
+  return { text: response.text || '', links };
+});
@@ -1,15 +1,25 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
+import { createPortal } from 'react-dom';
 import { 
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area 
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea 
 } from 'recharts';
+import {
+  AiTask, GEMINI_MODELS, MAX_DOCUMENT_BASE64_LENGTH, ChatTurn, CHAT_HISTORY_LIMIT, AssessmentContext,
+  EXTRACTION_PROMPT, EXTRACTION_SCHEMA, ASSESSMENT_SCHEMA, assessmentPrompt, chatSystemInstruction, facilitiesPrompt
+} from './shared/aiPrompts';
+import { LineCapStyle, PDFDocument, PDFPage, StandardFonts, rgb } from 'pdf-lib';
 
 // --- TYPES & INTERFACES ---
 
 type Severity = 'Critical' | 'Elevated' | 'Normal';
 
+type Sex = 'male' | 'female';
+
+// Where a vital's timestamp came from, from most to least trustworthy after a manual override.
+type ObservationDateSource = 'manual' | 'reading' | 'document' | 'upload';
+
 interface VitalsRecord {
   id: string;
   parameter: string;
@@ -17,6 +27,15 @@ interface VitalsRecord {
   unit: string;
   severity: Severity;
   timestamp: number;
+  dateSource?: ObservationDateSource;
+  code?: string;
+  rawParameter?: string;
+  value?: number;
+  canonicalUnit?: string;
+  sourceId?: string;
+  modelSeverity?: Severity;
+  severitySource?: 'reference' | 'model';
+  rangeVersion?: string;
 }
 
 interface MedicalHistoryEntry {
@@ -24,12 +43,25 @@ interface MedicalHistoryEntry {
   condition: string;
   status: string;
   date: string;
+  sourceId?: string;
+}
+
+// Times are local 'HH:MM'; dates are local 'YYYY-MM-DD'. `everyDays` is 1 for daily and 7 for weekly.
+interface DoseSchedule {
+  times: string[];
+  everyDays: number;
+  asNeeded: boolean;
+  startDate?: string;
+  stopDate?: string;
 }
 
 interface Medication {
+  id: string;
   name: string;
   dosage: string;
   frequency: string;
+  schedule?: DoseSchedule;
+  sourceId?: string;
 }
 
 interface ClinicalAssessment {
@@ -42,161 +74,5623 @@ interface ClinicalAssessment {
 interface PatientProfile {
   name: string;
   age?: number;
+  sex?: Sex;
   history: MedicalHistoryEntry[];
   vitals: VitalsRecord[];
   medications: Medication[];
-  assessment?: ClinicalAssessment;
 }
 
-// --- AI SERVICES ---
+interface ChatMessage {
+  id: string;
+  role: string;
+  text: string;
+  at?: number;
+  status?: 'streaming' | 'cancelled' | 'error';
+}
 
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-
-const parseClinicalDocument = async (base64Data: string, mimeType: string) => {
-  const ai = getAI();
-  const prompt = `Analyze this medical document. Extract:
-  1. Patient name and age.
-  2. Clinical Vitals (BP, Glucose, Cholesterol, Sodium, etc.) with readings and units.
-  3. Medical History (Past conditions or diagnoses).
-  4. Current Medications mentioned.
-  
-  Assign a severity to each vital: 'Critical', 'Elevated', or 'Normal' based on standard clinical thresholds.`;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: {
-      parts: [
-        { inlineData: { data: base64Data, mimeType } },
-        { text: prompt }
-      ]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING },
-          age: { type: Type.INTEGER },
-          vitals: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                parameter: { type: Type.STRING },
-                reading: { type: Type.STRING },
-                unit: { type: Type.STRING },
-                severity: { type: Type.STRING, enum: ['Critical', 'Elevated', 'Normal'] }
-              }
-            }
-          },
-          history: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                condition: { type: Type.STRING },
-                status: { type: Type.STRING },
-                date: { type: Type.STRING }
-              }
-            }
-          },
-          medications: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                dosage: { type: Type.STRING },
-                frequency: { type: Type.STRING }
-              }
-            }
-          }
-        }
-      }
+type EntryKind = 'vital' | 'condition' | 'medication';
+
+// before/after are human-readable snapshots so the trail stays legible after the entry itself is gone.
+interface AuditEntry {
+  id: string;
+  at: number;
+  actor: string;
+  action: 'added' | 'edited' | 'deleted' | 'restored' | 'imported' | 'granted' | 'revoked';
+  kind: EntryKind | 'document' | 'consent';
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+// `input` is the profile the assessment was generated from, before de-identification. Assessments carried over from before
+// history was kept have no snapshot and an unknown provider and model.
+interface AssessmentRecord {
+  id: string;
+  generatedAt: number;
+  provider: string;
+  model: string;
+  input?: PatientProfile;
+  assessment: ClinicalAssessment;
+}
+
+// One entry per checked-off dose. `date` and `time` name the scheduled slot, or when an as-needed dose was taken.
+interface DoseEvent {
+  id: string;
+  medicationId: string;
+  date: string;
+  time: string;
+  status: 'taken' | 'skipped';
+  at: number;
+}
+
+// The stand-ins used whenever this patient's data is de-identified. Generated once and kept, so a
+// conversation sees the same alias and date offset on every turn.
+interface PrivacyKey {
+  alias: string;
+  dateShiftDays: number;
+}
+
+// Consent covers one destination (a provider, plus its endpoint for OpenAI-compatible servers);
+// switching to another asks again.
+interface ConsentRecord {
+  destination: string;
+  grantedAt: number;
+  grantedBy: string;
+  deidentified: boolean;
+}
+
+type AlertLevel = 'critical' | 'warning';
+
+// `key` names the rule and the reading (or overdue lab) that raised the alert, so re-evaluating never raises it
+// twice. An alert is resolved once its condition stops holding, e.g. the reading was corrected or the lab arrived.
+interface ClinicalAlert {
+  id: string;
+  key: string;
+  ruleId: string;
+  level: AlertLevel;
+  title: string;
+  detail: string;
+  vitalIds: string[];
+  observedAt: number;
+  raisedAt: number;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
+  resolvedAt?: number;
+}
+
+interface PatientRecord {
+  id: string;
+  profile: PatientProfile;
+  chatLog: ChatMessage[];
+  auditLog: AuditEntry[];
+  assessments: AssessmentRecord[];
+  doseLog: DoseEvent[];
+  alerts: ClinicalAlert[];
+  privacyKey: PrivacyKey;
+  consent?: ConsentRecord;
+  archived: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface Workspace {
+  patients: PatientRecord[];
+  activeId: string;
+}
+
+// --- PARAMETER DICTIONARY ---
+
+interface CanonicalParameter {
+  code: string;
+  name: string;
+  unit: string;
+  synonyms: string[];
+  // Spellings of the canonical unit plus converters from other units into it.
+  unitAliases?: string[];
+  conversions?: Record<string, (value: number) => number>;
+  // Compound readings (e.g. "120/80") are split into these codes, in order.
+  components?: string[];
+}
+
+const MGDL_PER_MMOL_CHOLESTEROL = 38.67;
+
+// Codes follow LOINC so records stay comparable with lab feeds and EHR exports.
+const PARAMETER_DICTIONARY: CanonicalParameter[] = [
+  { code: '85354-9', name: 'Blood Pressure', unit: 'mmHg', synonyms: ['bp', 'blood pressure', 'blood pressure panel'], components: ['8480-6', '8462-4'] },
+  { code: '8480-6', name: 'Systolic Blood Pressure', unit: 'mmHg', synonyms: ['systolic', 'systolic bp', 'systolic blood pressure', 'sbp'] },
+  { code: '8462-4', name: 'Diastolic Blood Pressure', unit: 'mmHg', synonyms: ['diastolic', 'diastolic bp', 'diastolic blood pressure', 'dbp'] },
+  { code: '8867-4', name: 'Heart Rate', unit: 'bpm', unitAliases: ['/min', 'beats/min', 'min-1', 'count/min'], synonyms: ['heart rate', 'hr', 'pulse', 'pulse rate'] },
+  { code: '9279-1', name: 'Respiratory Rate', unit: '/min', unitAliases: ['breaths/min', 'count/min', 'min-1'], synonyms: ['respiratory rate', 'rr', 'respiration rate', 'breathing rate'] },
+  { code: '8310-5', name: 'Body Temperature', unit: '°C', unitAliases: ['c', 'degc', 'cel'], synonyms: ['temperature', 'temp', 'body temperature'], conversions: {
+    '°f': v => (v - 32) * 5 / 9, 'f': v => (v - 32) * 5 / 9, 'degf': v => (v - 32) * 5 / 9, '[degf]': v => (v - 32) * 5 / 9
+  } },
+  { code: '59408-5', name: 'Oxygen Saturation', unit: '%', synonyms: ['spo2', 'oxygen saturation', 'o2 sat', 'sao2'] },
+  { code: '2345-7', name: 'Glucose', unit: 'mg/dL', synonyms: ['glucose', 'blood glucose', 'fasting glucose', 'fasting blood sugar', 'fbs', 'blood sugar'], conversions: {
+    'mmol/l': v => v * 18.016
+  } },
+  { code: '4548-4', name: 'HbA1c', unit: '%', synonyms: ['hba1c', 'a1c', 'hemoglobin a1c', 'glycated hemoglobin'], conversions: {
+    'mmol/mol': v => v / 10.929 + 2.15
+  } },
+  { code: '2093-3', name: 'Total Cholesterol', unit: 'mg/dL', synonyms: ['cholesterol', 'total cholesterol'], conversions: {
+    'mmol/l': v => v * MGDL_PER_MMOL_CHOLESTEROL
+  } },
+  { code: '2089-1', name: 'LDL Cholesterol', unit: 'mg/dL', synonyms: ['ldl', 'ldl cholesterol', 'ldl-c'], conversions: {
+    'mmol/l': v => v * MGDL_PER_MMOL_CHOLESTEROL
+  } },
+  { code: '2085-9', name: 'HDL Cholesterol', unit: 'mg/dL', synonyms: ['hdl', 'hdl cholesterol', 'hdl-c'], conversions: {
+    'mmol/l': v => v * MGDL_PER_MMOL_CHOLESTEROL
+  } },
+  { code: '2571-8', name: 'Triglycerides', unit: 'mg/dL', synonyms: ['triglycerides', 'tg', 'trigs'], conversions: {
+    'mmol/l': v => v * 88.57
+  } },
+  { code: '2951-2', name: 'Sodium', unit: 'mmol/L', unitAliases: ['meq/l'], synonyms: ['sodium', 'na', 'serum sodium'] },
+  { code: '2823-3', name: 'Potassium', unit: 'mmol/L', unitAliases: ['meq/l'], synonyms: ['potassium', 'k', 'serum potassium'] },
+  { code: '2160-0', name: 'Creatinine', unit: 'mg/dL', synonyms: ['creatinine', 'serum creatinine', 'scr'], conversions: {
+    'µmol/l': v => v / 88.4, 'umol/l': v => v / 88.4
+  } },
+  { code: '62238-1', name: 'eGFR', unit: 'mL/min/1.73m2', unitAliases: ['ml/min/1.73m²', 'ml/min/1.73 m2'], synonyms: ['egfr', 'gfr', 'estimated gfr'] },
+  { code: '718-7', name: 'Hemoglobin', unit: 'g/dL', synonyms: ['hemoglobin', 'haemoglobin', 'hgb', 'hb'], conversions: {
+    'g/l': v => v / 10, 'mmol/l': v => v * 1.611
+  } },
+  { code: '3016-3', name: 'TSH', unit: 'mIU/L', unitAliases: ['uiu/ml', 'µiu/ml', 'miu/ml'], synonyms: ['tsh', 'thyroid stimulating hormone', 'thyrotropin'] },
+  { code: '39156-5', name: 'BMI', unit: 'kg/m2', unitAliases: ['kg/m²'], synonyms: ['bmi', 'body mass index'] },
+  { code: '29463-7', name: 'Body Weight', unit: 'kg', synonyms: ['weight', 'body weight', 'wt'], conversions: {
+    'lb': v => v * 0.45359237, 'lbs': v => v * 0.45359237
+  } },
+  { code: '8302-2', name: 'Body Height', unit: 'cm', synonyms: ['height', 'body height', 'ht'], conversions: {
+    'm': v => v * 100, 'in': v => v * 2.54, 'ft': v => v * 30.48
+  } }
+];
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+const normalizeUnit = (unit: string) => unit.trim().toLowerCase().replace(/\s+/g, '');
+
+const findParameterByCode = (code: string) => PARAMETER_DICTIONARY.find(p => p.code === code);
+
+const findParameterByName = (name: string) => {
+  const key = normalizeKey(name);
+  return PARAMETER_DICTIONARY.find(p => p.synonyms.includes(key) || normalizeKey(p.name) === key);
+};
+
+// Returns undefined when the unit is not one we know how to map onto the canonical unit.
+const convertToCanonical = (value: number, unit: string, param: CanonicalParameter) => {
+  const normUnit = normalizeUnit(unit);
+  if (normUnit === normalizeUnit(param.unit) || param.unitAliases?.includes(normUnit)) return value;
+  const convert = param.conversions?.[normUnit];
+  return convert ? Math.round(convert(value) * 100) / 100 : undefined;
+};
+
+const parseNumericReading = (reading: string) => {
+  const match = reading.match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+};
+
+// Maps a raw extracted vital onto the dictionary; compound readings fan out into one record per component.
+const normalizeVital = (v: VitalsRecord): VitalsRecord[] => {
+  const rawParameter = v.rawParameter ?? v.parameter;
+  const param = (v.code && findParameterByCode(v.code)) || findParameterByName(rawParameter);
+  if (!param) {
+    return [{ ...v, rawParameter, code: undefined, value: parseNumericReading(v.reading), canonicalUnit: v.unit }];
+  }
+  if (param.components) {
+    const parts = v.reading.match(/-?\d+(?:\.\d+)?/g) || [];
+    if (parts.length >= param.components.length) {
+      return param.components.flatMap((code, i) => normalizeVital({
+        ...v,
+        id: `${v.id}-${i}`,
+        code,
+        parameter: findParameterByCode(code)!.name,
+        rawParameter,
+        reading: parts[i]
+      }));
     }
+  }
+  const numeric = parseNumericReading(v.reading);
+  return [{
+    ...v,
+    parameter: param.name,
+    rawParameter,
+    code: param.code,
+    value: numeric === undefined ? undefined : convertToCanonical(numeric, v.unit, param),
+    canonicalUnit: param.unit
+  }];
+};
+
+// --- REFERENCE RANGES ---
+
+interface RangeLimits {
+  criticalLow?: number;
+  normalLow?: number;
+  normalHigh?: number;
+  criticalHigh?: number;
+}
+
+interface ReferenceRange extends RangeLimits {
+  code: string;
+  sex?: Sex;
+  minAge?: number;
+  maxAge?: number;
+}
+
+// Bump whenever a threshold changes so stored vitals are re-classified on next load.
+const REFERENCE_RANGES_VERSION = '2026.3';
+
+// Limits are expressed in each parameter's canonical dictionary unit.
+const REFERENCE_RANGES: ReferenceRange[] = [
+  { code: '8480-6', criticalLow: 70, normalLow: 90, normalHigh: 119, criticalHigh: 180 },
+  { code: '8462-4', criticalLow: 40, normalLow: 60, normalHigh: 79, criticalHigh: 120 },
+  { code: '8867-4', minAge: 18, criticalLow: 40, normalLow: 60, normalHigh: 100, criticalHigh: 130 },
+  { code: '8867-4', minAge: 6, maxAge: 17, criticalLow: 50, normalLow: 70, normalHigh: 110, criticalHigh: 150 },
+  { code: '8867-4', maxAge: 5, criticalLow: 60, normalLow: 80, normalHigh: 140, criticalHigh: 180 },
+  // Adult limits when the age is unknown; every known age falls in one of the bands above.
+  { code: '8867-4', criticalLow: 40, normalLow: 60, normalHigh: 100, criticalHigh: 130 },
+  { code: '8310-5', criticalLow: 35, normalLow: 36.1, normalHigh: 37.2, criticalHigh: 40 },
+  { code: '59408-5', criticalLow: 88, normalLow: 95 },
+  { code: '2345-7', criticalLow: 54, normalLow: 70, normalHigh: 99, criticalHigh: 250 },
+  { code: '4548-4', normalHigh: 5.6, criticalHigh: 10 },
+  { code: '2093-3', normalHigh: 199, criticalHigh: 300 },
+  { code: '2089-1', normalHigh: 129, criticalHigh: 190 },
+  { code: '2085-9', sex: 'male', criticalLow: 25, normalLow: 40 },
+  { code: '2085-9', sex: 'female', criticalLow: 25, normalLow: 50 },
+  { code: '2085-9', criticalLow: 25, normalLow: 40 },
+  { code: '2571-8', normalHigh: 149, criticalHigh: 500 },
+  { code: '2951-2', criticalLow: 120, normalLow: 135, normalHigh: 145, criticalHigh: 160 },
+  { code: '2823-3', criticalLow: 2.5, normalLow: 3.5, normalHigh: 5.1, criticalHigh: 6.5 },
+  { code: '2160-0', sex: 'male', normalLow: 0.74, normalHigh: 1.35, criticalHigh: 4 },
+  { code: '2160-0', sex: 'female', normalLow: 0.59, normalHigh: 1.04, criticalHigh: 4 },
+  { code: '2160-0', normalLow: 0.59, normalHigh: 1.35, criticalHigh: 4 },
+  { code: '62238-1', criticalLow: 15, normalLow: 60 },
+  { code: '718-7', sex: 'male', criticalLow: 7, normalLow: 13.5, normalHigh: 17.5, criticalHigh: 20 },
+  { code: '718-7', sex: 'female', criticalLow: 7, normalLow: 12, normalHigh: 15.5, criticalHigh: 20 },
+  { code: '718-7', criticalLow: 7, normalLow: 12, normalHigh: 17.5, criticalHigh: 20 },
+  { code: '3016-3', criticalLow: 0.1, normalLow: 0.4, normalHigh: 4.0, criticalHigh: 10 },
+  { code: '39156-5', minAge: 18, criticalLow: 15, normalLow: 18.5, normalHigh: 24.9, criticalHigh: 40 }
+];
+
+// Picks the most specific range (sex and age bands win over generic ones) for this patient.
+const findReferenceRange = (code: string, patient: { age?: number, sex?: Sex }) => {
+  const candidates = REFERENCE_RANGES.filter(r =>
+    r.code === code &&
+    (!r.sex || r.sex === patient.sex) &&
+    (r.minAge === undefined || (patient.age !== undefined && patient.age >= r.minAge)) &&
+    (r.maxAge === undefined || (patient.age !== undefined && patient.age <= r.maxAge))
+  );
+  const specificity = (r: ReferenceRange) => (r.sex ? 2 : 0) + (r.minAge !== undefined || r.maxAge !== undefined ? 1 : 0);
+  return candidates.sort((a, b) => specificity(b) - specificity(a))[0];
+};
+
+const SEVERITY_RANK: Record<Severity, number> = { Normal: 0, Elevated: 1, Critical: 2 };
+
+const classifyValue = (value: number, limits: RangeLimits): Severity => {
+  if ((limits.criticalLow !== undefined && value < limits.criticalLow) || (limits.criticalHigh !== undefined && value > limits.criticalHigh)) return 'Critical';
+  if ((limits.normalLow !== undefined && value < limits.normalLow) || (limits.normalHigh !== undefined && value > limits.normalHigh)) return 'Elevated';
+  return 'Normal';
+};
+
+// Returns null when no range covers the reading, leaving the model's label in place.
+const classifyReading = (v: VitalsRecord, patient: { age?: number, sex?: Sex }): Severity | null => {
+  if (!v.code || v.value === undefined) return null;
+  const range = findReferenceRange(v.code, patient);
+  return range ? classifyValue(v.value, range) : null;
+};
+
+const applyReferenceRanges = (vitals: VitalsRecord[], patient: { age?: number, sex?: Sex }): VitalsRecord[] =>
+  vitals.map(v => {
+    const modelSeverity = v.modelSeverity ?? v.severity;
+    const severity = classifyReading(v, patient);
+    return severity
+      ? { ...v, severity, modelSeverity, severitySource: 'reference', rangeVersion: REFERENCE_RANGES_VERSION }
+      : { ...v, severity: modelSeverity, modelSeverity, severitySource: 'model', rangeVersion: REFERENCE_RANGES_VERSION };
   });
 
+// Canonicalizes raw extractions, then grades them against the reference table.
+const ingestVitals = (vitals: VitalsRecord[], patient: { age?: number, sex?: Sex }) =>
+  applyReferenceRanges(vitals.flatMap(normalizeVital), patient);
+
+const hasSeverityDisagreement = (v: VitalsRecord) =>
+  v.severitySource === 'reference' && v.modelSeverity !== undefined && v.modelSeverity !== v.severity;
+
+// --- ENCRYPTED STORAGE ---
+
+// Everything written to disk is sealed with a random AES-GCM data key. That key is stored wrapped by a
+// key derived from the user's passphrase, so changing the passphrase only re-wraps it.
+
+interface VaultHeader {
+  version: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  wrappedKey: string;
+}
+
+interface SealedJson {
+  sealed: 1;
+  iv: string;
+  data: string;
+}
+
+const VAULT_KEY = 'medaid_vault';
+const PBKDF2_ITERATIONS = 600_000;
+const AUTO_LOCK_MS = 10 * 60_000;
+
+let sessionKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const loadVaultHeader = (): VaultHeader | null => {
+  const saved = localStorage.getItem(VAULT_KEY);
+  return saved ? JSON.parse(saved) : null;
+};
+
+const hasVault = () => loadVaultHeader() !== null;
+const isVaultUnlocked = () => sessionKey !== null;
+
+const deriveWrappingKey = async (passphrase: string, salt: BufferSource, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const wrapDataKey = async (dataKey: CryptoKey, passphrase: string): Promise<VaultHeader> => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return { version: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), wrappedKey: toBase64(wrapped) };
+};
+
+const unwrapDataKey = async (header: VaultHeader, passphrase: string, extractable: boolean) => {
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(header.salt), header.iterations);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw', fromBase64(header.wrappedKey), wrappingKey, { name: 'AES-GCM', iv: fromBase64(header.iv) },
+      { name: 'AES-GCM', length: 256 }, extractable, ['encrypt', 'decrypt']
+    );
+  } catch {
+    // AES-GCM authentication failure is the only signal of a wrong passphrase.
+    throw new Error('Incorrect passphrase.');
+  }
+};
+
+const createVault = async (passphrase: string) => {
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const header = await wrapDataKey(dataKey, passphrase);
+  localStorage.setItem(VAULT_KEY, JSON.stringify(header));
+  sessionKey = await unwrapDataKey(header, passphrase, false);
+};
+
+const unlockVault = async (passphrase: string) => {
+  const header = loadVaultHeader();
+  if (!header) throw new Error('No encrypted vault exists on this device.');
+  sessionKey = await unwrapDataKey(header, passphrase, false);
+};
+
+const lockVault = () => {
+  sessionKey = null;
+};
+
+const changePassphrase = async (current: string, next: string) => {
+  const header = loadVaultHeader();
+  if (!header) throw new Error('No encrypted vault exists on this device.');
+  const dataKey = await unwrapDataKey(header, current, true);
+  localStorage.setItem(VAULT_KEY, JSON.stringify(await wrapDataKey(dataKey, next)));
+};
+
+const requireSessionKey = () => {
+  if (!sessionKey) throw new Error('The vault is locked.');
+  return sessionKey;
+};
+
+const encryptBytes = async (plain: BufferSource) => {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, requireSessionKey(), plain);
+  return { iv, data };
+};
+
+const decryptBytes = (iv: BufferSource, data: BufferSource) =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv }, requireSessionKey(), data);
+
+const sealJson = async (value: unknown): Promise<SealedJson> => {
+  const { iv, data } = await encryptBytes(new TextEncoder().encode(JSON.stringify(value)));
+  return { sealed: 1, iv: toBase64(iv), data: toBase64(data) };
+};
+
+const isSealed = (value: any): value is SealedJson => value?.sealed === 1 && typeof value.iv === 'string';
+
+// Plaintext written before the vault existed is still readable; it is sealed on the next save.
+const openJson = async (value: unknown) => isSealed(value)
+  ? JSON.parse(new TextDecoder().decode(await decryptBytes(fromBase64(value.iv), fromBase64(value.data))))
+  : value;
+
+// --- WORKSPACE ---
+
+const WORKSPACE_KEY = 'medaid_workspace';
+const LEGACY_PROFILE_KEY = 'medaid_v2_profile';
+
+const newId = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+const ALIAS_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Dates always move backwards, by between one month and a little over a year.
+const createPrivacyKey = (): PrivacyKey => {
+  const bytes = crypto.getRandomValues(new Uint8Array(6));
+  return {
+    alias: `Patient ${Array.from(bytes.slice(0, 4), b => ALIAS_ALPHABET[b % ALIAS_ALPHABET.length]).join('')}`,
+    dateShiftDays: -(30 + ((bytes[4] << 8) | bytes[5]) % 366)
+  };
+};
+
+const createPatientRecord = (profile?: Partial<PatientProfile>): PatientRecord => ({
+  id: newId(),
+  profile: { name: 'Unregistered Patient', history: [], vitals: [], medications: [], ...profile },
+  chatLog: [],
+  auditLog: [],
+  assessments: [],
+  doseLog: [],
+  alerts: [],
+  privacyKey: createPrivacyKey(),
+  archived: false,
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+const createWorkspace = (patients: PatientRecord[] = [createPatientRecord()]): Workspace => ({
+  patients,
+  activeId: patients[0].id
+});
+
+// Re-runs the dictionary and reference table over vitals stored by an older table (or by the model alone).
+const reclassifyWorkspace = (ws: Workspace): Workspace => ({
+  ...ws,
+  patients: ws.patients.map(p => p.profile.vitals.every(v => v.rangeVersion === REFERENCE_RANGES_VERSION) ? p : {
+    ...p,
+    profile: { ...p.profile, vitals: ingestVitals(p.profile.vitals, p.profile) }
+  })
+});
+
+// A reply that was still streaming when the page closed can never finish; mark it stopped.
+const settleChatLogs = (ws: Workspace): Workspace => ({
+  ...ws,
+  patients: ws.patients.map(p => p.chatLog.some(m => m.status === 'streaming')
+    ? { ...p, chatLog: p.chatLog.map(m => m.status === 'streaming' ? { ...m, status: 'cancelled' } : m) }
+    : p)
+});
+
+// Keeps at least one selectable patient so every tab always has a profile to render.
+const ensureActivePatient = (ws: Workspace): Workspace => {
+  const active = ws.patients.find(p => p.id === ws.activeId && !p.archived);
+  if (active) return ws;
+  const fallback = ws.patients.find(p => !p.archived);
+  if (fallback) return { ...ws, activeId: fallback.id };
+  const fresh = createPatientRecord();
+  return { patients: [...ws.patients, fresh], activeId: fresh.id };
+};
+
+// --- STORAGE SCHEMA ---
+
+// Bump STORAGE_SCHEMA_VERSION and add a STORAGE_MIGRATIONS step whenever the persisted shape changes.
+//   v2  a single bare PatientProfile under medaid_v2_profile
+//   v3  the patient roster (Workspace) under medaid_workspace, unversioned
+//   v4  { schemaVersion, workspace } under medaid_workspace; every chat message has an id
+//   v5  medications have ids and every patient record carries an audit log
+//   v6  profile.assessment moves into the record's assessment history
+//   v7  every patient record carries a dose log
+//   v8  every patient record carries a privacy key for de-identification, and optionally AI consent
+//   v9  every patient record carries its clinical alert history
+const STORAGE_SCHEMA_VERSION = 9;
+const BACKUP_KEY_PREFIX = 'medaid_backup_';
+
+interface StoredWorkspace {
+  schemaVersion: number;
+  workspace: Workspace;
+}
+
+interface LoadedWorkspace {
+  workspace: Workspace;
+  // Human-readable notes about anything migrated, repaired or set aside while loading.
+  issues: string[];
+}
+
+// Each step lifts data saved at version n to version n + 1. Steps must tolerate malformed input;
+// validation only runs once the chain has finished.
+const STORAGE_MIGRATIONS: Record<number, (data: any) => any> = {
+  2: profile => createWorkspace([createPatientRecord(isRecord(profile) ? profile : undefined)]),
+  3: ws => ({
+    ...ws,
+    patients: Array.isArray(ws?.patients) ? ws.patients.map((p: any) => ({
+      ...p,
+      chatLog: Array.isArray(p?.chatLog) ? p.chatLog.map((m: any) => isRecord(m) && !m.id ? { ...m, id: newId() } : m) : p?.chatLog
+    })) : ws?.patients
+  }),
+  4: ws => ({
+    ...ws,
+    patients: Array.isArray(ws?.patients) ? ws.patients.map((p: any) => ({
+      ...p,
+      auditLog: p?.auditLog ?? [],
+      profile: isRecord(p?.profile) && Array.isArray(p.profile.medications)
+        ? { ...p.profile, medications: p.profile.medications.map((m: any) => isRecord(m) && !m.id ? { ...m, id: newId() } : m) }
+        : p?.profile
+    })) : ws?.patients
+  }),
+  // The old single assessment was overwritten on every run, so its time is only known to be no later than updatedAt.
+  5: ws => ({
+    ...ws,
+    patients: Array.isArray(ws?.patients) ? ws.patients.map((p: any) => {
+      if (!isRecord(p) || !isRecord(p.profile)) return p;
+      const { assessment, ...profile } = p.profile;
+      return {
+        ...p,
+        profile,
+        assessments: p.assessments ?? (assessment === undefined ? [] : [
+          { id: newId(), generatedAt: finiteOr(p.updatedAt, Date.now()), provider: 'unknown', model: 'unknown', assessment }
+        ])
+      };
+    }) : ws?.patients
+  }),
+  6: ws => ({
+    ...ws,
+    patients: Array.isArray(ws?.patients) ? ws.patients.map((p: any) => isRecord(p) ? { ...p, doseLog: p.doseLog ?? [] } : p) : ws?.patients
+  }),
+  7: ws => ({
+    ...ws,
+    patients: Array.isArray(ws?.patients) ? ws.patients.map((p: any) => isRecord(p) ? { ...p, privacyKey: p.privacyKey ?? createPrivacyKey() } : p) : ws?.patients
+  }),
+  8: ws => ({
+    ...ws,
+    patients: Array.isArray(ws?.patients) ? ws.patients.map((p: any) => isRecord(p) ? { ...p, alerts: p.alerts ?? [] } : p) : ws?.patients
+  })
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const finiteOr = (value: unknown, fallback: number) => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// Keeps a sealed copy of data that is about to be migrated or repaired, one slot per reason.
+const backupStoredData = async (reason: string, data: unknown) => {
   try {
-    return JSON.parse(response.text || '{}');
+    localStorage.setItem(`${BACKUP_KEY_PREFIX}${reason}`, JSON.stringify(await sealJson({ savedAt: Date.now(), data })));
   } catch (e) {
-    console.error("Parse Error", e);
-    return null;
-  }
-};
-
-const generateHealthAssessment = async (profile: PatientProfile): Promise<ClinicalAssessment | null> => {
-  const ai = getAI();
-  const prompt = `Review the following patient data and provide a professional clinical summary, risk assessment, and personalized recommendations.
-  Patient Profile: ${JSON.stringify(profile)}
-  
-  Return the assessment in a structured format.`;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          summary: { type: Type.STRING },
-          risks: { type: Type.ARRAY, items: { type: Type.STRING } },
-          recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
-          nextSteps: { type: Type.ARRAY, items: { type: Type.STRING } }
-        },
-        required: ["summary", "risks", "recommendations", "nextSteps"]
+    console.error("Backup error", e);
+  }
+};
+
+const readStoredWorkspace = async (): Promise<{ version: number, data: unknown } | null> => {
+  const saved = localStorage.getItem(WORKSPACE_KEY);
+  if (saved) {
+    const opened = await openJson(JSON.parse(saved));
+    return isRecord(opened) && typeof opened.schemaVersion === 'number'
+      ? { version: opened.schemaVersion, data: opened.workspace }
+      : { version: 3, data: opened };
+  }
+  const legacy = localStorage.getItem(LEGACY_PROFILE_KEY);
+  return legacy ? { version: 2, data: JSON.parse(legacy) } : null;
+};
+
+// Drops entries that are missing required fields and fills optional ones, counting what was set aside.
+const validateList = <T,>(value: unknown, repair: (item: Record<string, any>) => T | null, label: string, owner: string, issues: string[]): T[] => {
+  if (!Array.isArray(value)) {
+    if (value !== undefined) issues.push(`${owner}: the ${label} list was unreadable and has been set aside.`);
+    return [];
+  }
+  const repaired = value.map(item => isRecord(item) ? repair(item) : null);
+  const dropped = repaired.filter(item => item === null).length;
+  if (dropped > 0) issues.push(`${owner}: ${dropped} unreadable ${label} set aside.`);
+  return repaired.filter((item): item is T => item !== null);
+};
+
+const validatePatientRecord = (raw: unknown, issues: string[]): PatientRecord | null => {
+  if (!isRecord(raw) || !isRecord(raw.profile)) return null;
+  const p = raw.profile;
+  const name = typeof p.name === 'string' && p.name.trim() ? p.name : 'Unregistered Patient';
+  const createdAt = finiteOr(raw.createdAt, Date.now());
+
+  return {
+    id: typeof raw.id === 'string' ? raw.id : newId(),
+    archived: raw.archived === true,
+    createdAt,
+    updatedAt: finiteOr(raw.updatedAt, createdAt),
+    profile: {
+      ...p,
+      name,
+      age: typeof p.age === 'number' && p.age > 0 ? p.age : undefined,
+      sex: p.sex === 'male' || p.sex === 'female' ? p.sex : undefined,
+      vitals: validateList<VitalsRecord>(p.vitals, v => typeof v.parameter === 'string' && (typeof v.reading === 'string' || typeof v.reading === 'number') ? {
+        ...v,
+        id: typeof v.id === 'string' ? v.id : newId(),
+        parameter: v.parameter,
+        reading: String(v.reading),
+        unit: typeof v.unit === 'string' ? v.unit : '',
+        severity: v.severity in SEVERITY_RANK ? v.severity : 'Normal',
+        timestamp: finiteOr(v.timestamp, createdAt)
+      } : null, 'vitals', name, issues),
+      history: validateList<MedicalHistoryEntry>(p.history, h => typeof h.condition === 'string' ? {
+        ...h,
+        id: typeof h.id === 'string' ? h.id : newId(),
+        condition: h.condition,
+        status: typeof h.status === 'string' ? h.status : '',
+        date: typeof h.date === 'string' ? h.date : ''
+      } : null, 'conditions', name, issues),
+      medications: validateList<Medication>(p.medications, m => typeof m.name === 'string' ? {
+        ...m,
+        id: typeof m.id === 'string' ? m.id : newId(),
+        name: m.name,
+        dosage: typeof m.dosage === 'string' ? m.dosage : '',
+        frequency: typeof m.frequency === 'string' ? m.frequency : '',
+        schedule: validateSchedule(m.schedule)
+      } : null, 'medications', name, issues)
+    },
+    chatLog: validateList<ChatMessage>(raw.chatLog, m => (m.role === 'user' || m.role === 'ai') && typeof m.text === 'string' ? {
+      ...m,
+      id: typeof m.id === 'string' ? m.id : newId(),
+      role: m.role,
+      text: m.text
+    } : null, 'chat messages', name, issues),
+    auditLog: validateList<AuditEntry>(raw.auditLog, a => typeof a.action === 'string' && typeof a.label === 'string' ? {
+      ...a,
+      id: typeof a.id === 'string' ? a.id : newId(),
+      at: finiteOr(a.at, createdAt),
+      actor: typeof a.actor === 'string' ? a.actor : 'Unknown'
+    } as AuditEntry : null, 'audit entries', name, issues),
+    assessments: validateList<AssessmentRecord>(raw.assessments, a => {
+      try {
+        return {
+          id: typeof a.id === 'string' ? a.id : newId(),
+          generatedAt: finiteOr(a.generatedAt, createdAt),
+          provider: typeof a.provider === 'string' ? a.provider : 'unknown',
+          model: typeof a.model === 'string' ? a.model : 'unknown',
+          input: isRecord(a.input) && ['vitals', 'history', 'medications'].every(f => Array.isArray(a.input[f])) ? a.input as PatientProfile : undefined,
+          assessment: validateAssessment(a.assessment)
+        };
+      } catch {
+        return null;
       }
-    }
+    }, 'assessments', name, issues),
+    doseLog: validateList<DoseEvent>(raw.doseLog, e => typeof e.medicationId === 'string' && typeof e.date === 'string' && DATE_PATTERN.test(e.date)
+      && typeof e.time === 'string' && DOSE_TIME_PATTERN.test(e.time) && (e.status === 'taken' || e.status === 'skipped') ? {
+      id: typeof e.id === 'string' ? e.id : newId(),
+      medicationId: e.medicationId,
+      date: e.date,
+      time: e.time,
+      status: e.status,
+      at: finiteOr(e.at, createdAt)
+    } : null, 'dose log entries', name, issues),
+    alerts: validateList<ClinicalAlert>(raw.alerts, a => typeof a.key === 'string' && typeof a.ruleId === 'string' && typeof a.title === 'string' ? {
+      id: typeof a.id === 'string' ? a.id : newId(),
+      key: a.key,
+      ruleId: a.ruleId,
+      level: a.level === 'critical' ? 'critical' : 'warning',
+      title: a.title,
+      detail: typeof a.detail === 'string' ? a.detail : '',
+      vitalIds: Array.isArray(a.vitalIds) ? a.vitalIds.filter((id: unknown) => typeof id === 'string') : [],
+      observedAt: finiteOr(a.observedAt, createdAt),
+      raisedAt: finiteOr(a.raisedAt, createdAt),
+      acknowledgedAt: typeof a.acknowledgedAt === 'number' ? a.acknowledgedAt : undefined,
+      acknowledgedBy: typeof a.acknowledgedBy === 'string' ? a.acknowledgedBy : undefined,
+      resolvedAt: typeof a.resolvedAt === 'number' ? a.resolvedAt : undefined
+    } : null, 'alerts', name, issues),
+    privacyKey: isRecord(raw.privacyKey) && typeof raw.privacyKey.alias === 'string' && Number.isInteger(raw.privacyKey.dateShiftDays)
+      ? { alias: raw.privacyKey.alias, dateShiftDays: raw.privacyKey.dateShiftDays }
+      : createPrivacyKey(),
+    consent: isRecord(raw.consent) && typeof raw.consent.destination === 'string' ? {
+      destination: raw.consent.destination,
+      grantedAt: finiteOr(raw.consent.grantedAt, createdAt),
+      grantedBy: typeof raw.consent.grantedBy === 'string' ? raw.consent.grantedBy : 'Unknown',
+      deidentified: raw.consent.deidentified === true
+    } : undefined
+  };
+};
+
+const validateWorkspace = (raw: unknown, issues: string[]): Workspace => {
+  if (!isRecord(raw) || !Array.isArray(raw.patients)) {
+    issues.push('The saved patient roster was unreadable and has been set aside.');
+    return createWorkspace();
+  }
+  const patients = raw.patients.flatMap((p: unknown, i: number) => {
+    const record = validatePatientRecord(p, issues);
+    if (!record) issues.push(`Patient #${i + 1} was unreadable and has been set aside.`);
+    return record ? [record] : [];
   });
+  if (patients.length === 0) return createWorkspace();
+  return { patients, activeId: patients.some(p => p.id === raw.activeId) ? raw.activeId : patients[0].id };
+};
 
+// Restores the saved roster through the migration chain. Anything migrated or repaired is backed up first.
+const loadWorkspace = async (): Promise<LoadedWorkspace> => {
+  const issues: string[] = [];
+  let stored: { version: number, data: unknown } | null;
   try {
-    return JSON.parse(response.text || '{}');
+    stored = await readStoredWorkspace();
   } catch (e) {
-    console.error("Assessment error", e);
-    return null;
+    console.error("Workspace read error", e);
+    await backupStoredData('unreadable', localStorage.getItem(WORKSPACE_KEY));
+    return { workspace: createWorkspace(), issues: ['Saved records could not be read and were backed up. Starting with an empty roster.'] };
+  }
+  if (!stored) return { workspace: createWorkspace(), issues };
+
+  let { version, data } = stored;
+  if (version > STORAGE_SCHEMA_VERSION) {
+    throw new Error('These records were saved by a newer version of MedAId. Update the app to open them.');
   }
+  if (version < STORAGE_SCHEMA_VERSION) {
+    await backupStoredData(`v${version}`, data);
+    while (version < STORAGE_SCHEMA_VERSION) data = STORAGE_MIGRATIONS[version++](data);
+  }
+
+  const workspace = validateWorkspace(data, issues);
+  if (issues.length > 0) await backupStoredData('recovered', data);
+  return { workspace: settleChatLogs(reclassifyWorkspace(workspace)), issues };
 };
 
-const getClinicalChatResponse = async (query: string, profile: PatientProfile, history: { role: string, text: string }[]) => {
-  const ai = getAI();
-  const chat = ai.chats.create({
-    model: 'gemini-3-pro-preview',
-    config: {
-      systemInstruction: `You are MedAId, a highly accurate clinical assistant. You have access to the patient's full records: ${JSON.stringify(profile)}. Answer questions concisely and professionally. If a patient asks about symptoms that sound like an emergency, advise them to call emergency services immediately. Always remind the user that you are an AI assistant and they should consult a real medical professional for diagnosis.`
-    }
+// Writes are chained so a slow encryption can never land after a newer one.
+let workspaceWrite = Promise.resolve();
+
+const saveWorkspace = (ws: Workspace) => {
+  const stored: StoredWorkspace = { schemaVersion: STORAGE_SCHEMA_VERSION, workspace: ws };
+  workspaceWrite = workspaceWrite
+    .then(async () => {
+      localStorage.setItem(WORKSPACE_KEY, JSON.stringify(await sealJson(stored)));
+      localStorage.removeItem(LEGACY_PROFILE_KEY);
+    })
+    .catch(e => console.error("Workspace save error", e));
+  return workspaceWrite;
+};
+
+// --- FHIR INTEROP ---
+
+interface FhirIssue {
+  index: number;
+  resourceType: string;
+  id?: string;
+  message: string;
+}
+
+interface FhirImportResult {
+  profile: PatientProfile;
+  imported: number;
+  issues: FhirIssue[];
+}
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const CONDITION_CLINICAL_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+
+// UCUM codes for the dictionary's display units. A unit not listed here is exported as free text only.
+const UCUM_CODES: Record<string, string> = {
+  'mmHg': 'mm[Hg]', 'bpm': '/min', '/min': '/min', '°C': 'Cel', '%': '%', 'mg/dL': 'mg/dL', 'mmol/L': 'mmol/L',
+  'mL/min/1.73m2': 'mL/min/{1.73_m2}', 'g/dL': 'g/dL', 'mIU/L': 'm[IU]/L', 'kg/m2': 'kg/m2', 'kg': 'kg', 'cm': 'cm'
+};
+
+const SEVERITY_TO_INTERPRETATION: Record<Severity, { code: string, display: string }> = {
+  Normal: { code: 'N', display: 'Normal' },
+  Elevated: { code: 'A', display: 'Abnormal' },
+  Critical: { code: 'AA', display: 'Critical abnormal' }
+};
+
+const CLINICAL_STATUSES = ['active', 'recurrence', 'relapse', 'inactive', 'remission', 'resolved'];
+
+const toFhirStatus = (status: string) => {
+  const key = normalizeKey(status);
+  if (CLINICAL_STATUSES.includes(key)) return key;
+  if (/chronic|ongoing|current|managed|controlled/.test(key)) return 'active';
+  if (/past|history|cured|healed/.test(key)) return 'resolved';
+  return undefined;
+};
+
+const exportFhirBundle = (record: PatientRecord) => {
+  const { profile } = record;
+  const patientRef = `urn:uuid:${record.id}`;
+  const entry = (id: string, resource: object) => ({ fullUrl: `urn:uuid:${id}`, resource });
+
+  const patient = {
+    resourceType: 'Patient',
+    id: record.id,
+    name: [{ text: profile.name }],
+    ...(profile.sex ? { gender: profile.sex } : {}),
+    // FHIR has no age element; a year-precision birthDate round-trips it without inventing a day.
+    ...(profile.age !== undefined ? { birthDate: String(new Date().getFullYear() - profile.age) } : {})
+  };
+
+  const observations = profile.vitals.map(v => {
+    const numeric = parseNumericReading(v.reading);
+    const isNumeric = numeric !== undefined && String(numeric) === v.reading.trim();
+    return entry(v.id, {
+      resourceType: 'Observation',
+      id: v.id,
+      status: 'final',
+      code: {
+        ...(v.code ? { coding: [{ system: LOINC_SYSTEM, code: v.code, display: v.parameter }] } : {}),
+        text: v.parameter
+      },
+      subject: { reference: patientRef },
+      effectiveDateTime: new Date(v.timestamp).toISOString(),
+      ...(isNumeric
+        ? { valueQuantity: { value: numeric, unit: v.unit, ...(UCUM_CODES[v.unit] ? { system: UCUM_SYSTEM, code: UCUM_CODES[v.unit] } : {}) } }
+        : { valueString: `${v.reading} ${v.unit}`.trim() }),
+      interpretation: [{ coding: [{ system: INTERPRETATION_SYSTEM, ...SEVERITY_TO_INTERPRETATION[v.severity] }] }]
+    });
+  });
+
+  const conditions = profile.history.map(h => {
+    const clinical = toFhirStatus(h.status);
+    return entry(h.id, {
+      resourceType: 'Condition',
+      id: h.id,
+      code: { text: h.condition },
+      subject: { reference: patientRef },
+      ...(clinical ? { clinicalStatus: { coding: [{ system: CONDITION_CLINICAL_SYSTEM, code: clinical }], text: h.status } } : {}),
+      ...(h.date ? { onsetString: h.date } : {}),
+      ...(h.status && !clinical ? { note: [{ text: h.status }] } : {})
+    });
+  });
+
+  const medications = profile.medications.map((m, i) => {
+    const id = `${record.id}-med-${i}`;
+    return entry(id, {
+      resourceType: 'MedicationStatement',
+      id,
+      status: 'active',
+      medicationCodeableConcept: { text: m.name },
+      subject: { reference: patientRef },
+      dosage: [{ text: m.dosage, timing: { code: { text: m.frequency } } }]
+    });
   });
-  
-  // Send previous history for context if needed, or just the latest query with full profile context
-  const response = await chat.sendMessage({ message: query });
-  return response.text;
-};
-
-const searchMedicalFacilities = async (query: string, lat?: number, lng?: number) => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: `Find high-quality ${query} near ${lat && lng ? `${lat}, ${lng}` : 'my location'}. Provide a brief description and then specific locations.`,
-    config: {
-      tools: [{ googleMaps: {} }],
-      toolConfig: {
-        retrievalConfig: {
-          latLng: lat && lng ? { latitude: lat, longitude: lng } : undefined
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [entry(record.id, patient), ...observations, ...conditions, ...medications]
+  };
+};
+
+const fromInterpretation = (resource: any): Severity => {
+  const code = resource.interpretation?.[0]?.coding?.[0]?.code;
+  if (code === 'AA' || code === 'HH' || code === 'LL') return 'Critical';
+  if (code && code !== 'N') return 'Elevated';
+  return 'Normal';
+};
+
+// Parses a Bundle without any model call; invalid resources are skipped and reported individually.
+const importFhirBundle = (bundle: any): FhirImportResult => {
+  if (bundle?.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+    throw new Error('File is not a FHIR R4 Bundle with an entry array.');
+  }
+  const issues: FhirIssue[] = [];
+  const profile: PatientProfile = { name: 'Imported Patient', history: [], vitals: [], medications: [] };
+  let imported = 0;
+
+  bundle.entry.forEach((e: any, index: number) => {
+    const r = e?.resource;
+    const resourceType = r?.resourceType || 'Unknown';
+    const fail = (message: string) => issues.push({ index, resourceType, id: r?.id, message });
+
+    switch (resourceType) {
+      case 'Patient': {
+        const name = r.name?.[0]?.text || [...(r.name?.[0]?.given || []), r.name?.[0]?.family].filter(Boolean).join(' ');
+        if (name) profile.name = name;
+        if (r.gender === 'male' || r.gender === 'female') profile.sex = r.gender;
+        const birthYear = parseInt(r.birthDate, 10);
+        if (r.birthDate !== undefined && isNaN(birthYear)) return fail('birthDate is not a valid date.');
+        if (!isNaN(birthYear)) profile.age = new Date().getFullYear() - birthYear;
+        imported++;
+        return;
+      }
+      case 'Observation': {
+        const coding = r.code?.coding?.find((c: any) => c.system === LOINC_SYSTEM);
+        const parameter = r.code?.text || coding?.display;
+        if (!parameter && !coding) return fail('Observation.code has neither text nor a LOINC coding.');
+        const when = Date.parse(r.effectiveDateTime || r.effectiveInstant || r.effectivePeriod?.start || r.issued);
+        if (isNaN(when)) return fail('Observation has no parseable effectiveDateTime or effectivePeriod.');
+        // Panels such as blood pressure carry their values in components; they are read back into the
+        // dictionary's compound form (e.g. "120/80") in component order.
+        const componentValue = (code: string) => Array.isArray(r.component)
+          ? r.component.find((c: any) => c.code?.coding?.some((cc: any) => cc.system === LOINC_SYSTEM && cc.code === code))?.valueQuantity
+          : undefined;
+        const coded = coding && findParameterByCode(coding.code);
+        const panel = (coded?.components ? coded : PARAMETER_DICTIONARY.find(p => p.components?.every(componentValue)));
+        const known = coded || panel;
+        let reading: string, unit = '';
+        if (typeof r.valueQuantity?.value === 'number') {
+          reading = String(r.valueQuantity.value);
+          unit = r.valueQuantity.unit || r.valueQuantity.code || '';
+        } else if (typeof r.valueString === 'string') {
+          reading = r.valueString;
+        } else if (panel?.components?.every(code => typeof componentValue(code)?.value === 'number')) {
+          const values = panel.components.map(code => componentValue(code));
+          reading = values.map(q => q.value).join('/');
+          unit = values[0].unit || values[0].code || '';
+        } else {
+          return fail('Observation has no valueQuantity, valueString or readable components.');
         }
+        profile.vitals.push({
+          id: r.id || newId(),
+          parameter: known ? known.name : parameter,
+          code: known ? known.code : undefined,
+          reading,
+          unit,
+          severity: fromInterpretation(r),
+          timestamp: when,
+          dateSource: 'reading'
+        });
+        imported++;
+        return;
       }
-    },
+      case 'Condition': {
+        const condition = r.code?.text || r.code?.coding?.[0]?.display;
+        if (!condition) return fail('Condition.code has no text or display.');
+        profile.history.push({
+          id: r.id || newId(),
+          condition,
+          status: r.clinicalStatus?.text || r.clinicalStatus?.coding?.[0]?.code || r.note?.[0]?.text || '',
+          date: r.onsetString || r.onsetDateTime || r.recordedDate || ''
+        });
+        imported++;
+        return;
+      }
+      case 'MedicationStatement': {
+        const name = r.medicationCodeableConcept?.text || r.medicationCodeableConcept?.coding?.[0]?.display;
+        if (!name) return fail('MedicationStatement has no medicationCodeableConcept text or display.');
+        profile.medications.push({
+          id: newId(),
+          name,
+          dosage: r.dosage?.[0]?.text || '',
+          frequency: r.dosage?.[0]?.timing?.code?.text || ''
+        });
+        imported++;
+        return;
+      }
+      default:
+        return fail(`Unsupported resource type "${resourceType}".`);
+    }
+  });
+
+  // Graded only once every resource is read, so a Patient listed after its Observations still picks the ranges.
+  profile.vitals = ingestVitals(profile.vitals, profile);
+  return { profile, imported, issues };
+};
+
+const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- STRUCTURED IMPORT ---
+
+// Lab CSVs and health-app exports already carry numbers, units and times, so they are mapped onto the parameter
+// dictionary directly instead of being read by a model.
+
+interface ImportIssue {
+  // The row of a CSV file, or how many <Record> tags of an Apple Health export had been read.
+  position: number;
+  message: string;
+}
+
+interface StructuredImport {
+  vitals: VitalsRecord[];
+  // At most MAX_IMPORT_ISSUES are kept; issueCount counts every problem found.
+  issues: ImportIssue[];
+  issueCount: number;
+  // Raw samples read, when they were averaged into fewer readings.
+  samples?: number;
+}
+
+type CsvDateFormat = 'ymd' | 'mdy' | 'dmy';
+
+// 'long' files have one reading per row (test, result, unit); 'wide' files have one column per parameter.
+interface CsvMapping {
+  layout: 'long' | 'wide';
+  dateColumn?: number;
+  timeColumn?: number;
+  dateFormat: CsvDateFormat;
+  parameterColumn?: number;
+  valueColumn?: number;
+  unitColumn?: number;
+  valueColumns: { column: number, parameter: string, unit: string }[];
+}
+
+const MAX_IMPORT_ISSUES = 50;
+
+const createIssueLog = () => {
+  const issues: ImportIssue[] = [];
+  let count = 0;
+  return {
+    issues,
+    get count() { return count; },
+    add: (position: number, message: string) => {
+      if (count++ < MAX_IMPORT_ISSUES) issues.push({ position, message });
+    }
+  };
+};
+
+// A file picked for structured import, waiting in the mapping and confirmation dialog.
+type PendingStructuredImport = { id: string, patientId: string, fileName: string, error?: string } & (
+  | { kind: 'csv', table: string[][] }
+  | { kind: 'apple-health', progress: number, result?: StructuredImport }
+);
+
+// RFC 4180: quoted fields may hold delimiters, doubled quotes and line breaks. The delimiter is whichever of
+// comma, semicolon or tab appears most in the first line.
+const parseCsv = (source: string): string[][] => {
+  const text = source.replace(/^\uFEFF/, '');
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === delimiter) { row.push(field); field = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += c;
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim())).map(r => r.map(cell => cell.trim()));
+};
+
+// "Weight (kg)" and "Glucose [mg/dL]" name the unit in the header.
+const splitHeaderUnit = (header: string) => {
+  const match = header.match(/^(.*?)\s*[([]([^)\]]+)[)\]]\s*$/);
+  return match ? { name: match[1], unit: match[2] } : { name: header, unit: '' };
+};
+
+const guessCsvMapping = (header: string[]): CsvMapping => {
+  const find = (pattern: RegExp, taken: (number | undefined)[] = []) => {
+    const index = header.findIndex((h, i) => pattern.test(h) && !taken.includes(i));
+    return index < 0 ? undefined : index;
+  };
+  const timeColumn = find(/^time$/i);
+  const dateColumn = find(/date|time|collected|observed|taken|when/i, [timeColumn]);
+  const parameterColumn = find(/test|parameter|analyte|component|measure/i, [dateColumn, timeColumn]) ?? find(/name|type/i, [dateColumn, timeColumn]);
+  const valueColumn = find(/result|value|reading|measurement/i, [dateColumn, timeColumn, parameterColumn]);
+  const unitColumn = find(/^units?$|unit/i, [dateColumn, timeColumn, parameterColumn, valueColumn]);
+  const valueColumns = header.flatMap((h, column) => {
+    if (column === dateColumn || column === timeColumn) return [];
+    const { name, unit } = splitHeaderUnit(h);
+    const param = findParameterByName(name);
+    return param ? [{ column, parameter: param.name, unit: unit || param.unit }] : [];
+  });
+  return {
+    layout: parameterColumn !== undefined && valueColumn !== undefined ? 'long' : 'wide',
+    dateColumn,
+    timeColumn,
+    dateFormat: 'ymd',
+    parameterColumn,
+    valueColumn,
+    unitColumn,
+    valueColumns
+  };
+};
+
+// Dates without a time are placed at local noon, like document dates. A two-digit year later than this
+// year's belongs to the last century, so a birth year of 58 reads as 1958.
+const parseCsvDate = (date: string, time: string | undefined, format: CsvDateFormat) => {
+  const slashed = date.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})(?:[ T](.*))?$/);
+  if (format !== 'ymd' && slashed) {
+    const [, a, b, y, rest] = slashed;
+    const year = y.length === 2 ? (Number(y) > new Date().getFullYear() % 100 ? 1900 : 2000) + Number(y) : Number(y);
+    const [month, day] = format === 'mdy' ? [a, b] : [b, a];
+    date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}${rest ? ` ${rest}` : ''}`;
+  }
+  const clock = (time ?? '').match(/^(\d{1,2}):(\d{2})/);
+  const ymd = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const ts = ymd
+    ? new Date(+ymd[1], +ymd[2] - 1, +ymd[3], clock ? +clock[1] : 12, clock ? +clock[2] : 0).getTime()
+    : Date.parse(date.replace(' ', 'T'));
+  return isNaN(ts) || ts > Date.now() + 86_400_000 ? undefined : ts;
+};
+
+// Blank cells are skipped without comment; anything else that cannot be read is reported by line.
+const readCsvVitals = (table: string[][], mapping: CsvMapping): StructuredImport => {
+  const vitals: VitalsRecord[] = [];
+  const issues = createIssueLog();
+  const cell = (row: string[], column?: number) => column === undefined ? undefined : row[column]?.trim();
+  table.slice(1).forEach((row, i) => {
+    const line = i + 2;
+    const date = cell(row, mapping.dateColumn);
+    const timestamp = date ? parseCsvDate(date, cell(row, mapping.timeColumn), mapping.dateFormat) : undefined;
+    if (timestamp === undefined) return issues.add(line, date ? `Unreadable date "${date}".` : 'No date.');
+    const readings = mapping.layout === 'long'
+      ? [{ parameter: cell(row, mapping.parameterColumn), reading: cell(row, mapping.valueColumn), unit: cell(row, mapping.unitColumn) ?? '' }]
+      : mapping.valueColumns.map(c => ({ parameter: c.parameter, reading: cell(row, c.column), unit: c.unit }));
+    readings.forEach(({ parameter, reading, unit }) => {
+      if (!reading) return;
+      if (!parameter) return issues.add(line, 'No parameter name.');
+      if (parseNumericReading(reading) === undefined) return issues.add(line, `${parameter}: "${reading}" is not a number.`);
+      vitals.push({ id: newId(), parameter, reading, unit, severity: 'Normal', timestamp, dateSource: 'reading' });
+    });
+  });
+  return { vitals, issues: issues.issues, issueCount: issues.count };
+};
+
+interface HealthKitType {
+  parameter: string;
+  // Dense samples (a heart rate every few minutes) are averaged into one reading per day.
+  daily?: boolean;
+  // Apple stores oxygen saturation as a fraction with a "%" unit.
+  scale?: number;
+  unit?: string;
+}
+
+const HEALTHKIT_TYPES: Record<string, HealthKitType> = {
+  HKQuantityTypeIdentifierHeartRate: { parameter: 'Heart Rate', daily: true },
+  HKQuantityTypeIdentifierRespiratoryRate: { parameter: 'Respiratory Rate', daily: true },
+  HKQuantityTypeIdentifierOxygenSaturation: { parameter: 'Oxygen Saturation', daily: true, scale: 100 },
+  HKQuantityTypeIdentifierBloodPressureSystolic: { parameter: 'Systolic Blood Pressure' },
+  HKQuantityTypeIdentifierBloodPressureDiastolic: { parameter: 'Diastolic Blood Pressure' },
+  HKQuantityTypeIdentifierBloodGlucose: { parameter: 'Glucose' },
+  HKQuantityTypeIdentifierBodyTemperature: { parameter: 'Body Temperature' },
+  HKQuantityTypeIdentifierBodyMass: { parameter: 'Body Weight' },
+  HKQuantityTypeIdentifierHeight: { parameter: 'Body Height' },
+  HKQuantityTypeIdentifierBodyMassIndex: { parameter: 'BMI', unit: 'kg/m2' }
+};
+
+// "2024-03-14 08:15:00 -0700"
+const parseHealthKitDate = (value: string) => {
+  const m = value.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/);
+  if (!m) return undefined;
+  const offset = (m[7] === '-' ? -1 : 1) * (Number(m[8]) * 60 + Number(m[9]));
+  return Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) - offset * 60_000;
+};
+
+// export.xml from the Health app can run to hundreds of megabytes, so it is scanned as a stream for
+// <Record> tags rather than parsed into a DOM. Record types we have no parameter for are ignored.
+const readAppleHealthExport = async (file: File, onProgress: (fraction: number) => void): Promise<StructuredImport> => {
+  const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  const vitals: VitalsRecord[] = [];
+  const issues = createIssueLog();
+  const daily = new Map<string, { type: HealthKitType, unit: string, day: string, sum: number, count: number }>();
+  const seen = new Set<string>();
+  let samples = 0;
+  let records = 0;
+  let read = 0;
+  let buffer = '';
+  let healthData = false;
+
+  const handleRecord = (tag: string) => {
+    records++;
+    const attrs = Object.fromEntries([...tag.matchAll(/(\w+)="([^"]*)"/g)].map(m => [m[1], m[2]]));
+    const type = HEALTHKIT_TYPES[attrs.type];
+    if (!type) return;
+    const timestamp = parseHealthKitDate(attrs.startDate ?? '');
+    const value = Number(attrs.value);
+    if (timestamp === undefined || !Number.isFinite(value) || attrs.value === '') {
+      issues.add(records, `${type.parameter}: unreadable sample dated "${attrs.startDate ?? ''}".`);
+      return;
+    }
+    samples++;
+    const scaled = value * (type.scale ?? 1);
+    const unit = type.unit ?? (attrs.unit ?? '').replace(/<[^>]*>/g, '');
+    if (type.daily) {
+      const day = observationDay(timestamp);
+      const key = `${attrs.type}|${day}`;
+      const bucket = daily.get(key) ?? { type, unit, day, sum: 0, count: 0 };
+      bucket.sum += scaled;
+      bucket.count++;
+      daily.set(key, bucket);
+      return;
+    }
+    // Blood pressure samples appear both on their own and inside their correlation.
+    const key = `${attrs.type}|${timestamp}|${value}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    vitals.push({ id: newId(), parameter: type.parameter, reading: String(Math.round(scaled * 100) / 100), unit, severity: 'Normal', timestamp, dateSource: 'reading' });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (value) {
+      buffer += value;
+      read += value.length;
+      healthData ||= buffer.includes('<HealthData');
+      // Tags can straddle chunks, so everything from the last "<" waits for the next one.
+      const cut = done ? buffer.length : buffer.lastIndexOf('<');
+      for (const match of buffer.slice(0, cut).matchAll(/<Record\s([^>]*)>/g)) handleRecord(match[1]);
+      buffer = buffer.slice(cut);
+      onProgress(Math.min(1, read / file.size));
+    }
+    if (done) break;
+  }
+  if (buffer) for (const match of buffer.matchAll(/<Record\s([^>]*)>/g)) handleRecord(match[1]);
+  if (!healthData) throw new Error(`${file.name} is not an Apple Health export (export.xml).`);
+
+  daily.forEach(({ type, unit, day, sum, count }) => {
+    const [y, m, d] = day.split('-').map(Number);
+    vitals.push({ id: newId(), parameter: type.parameter, reading: String(Math.round(sum / count * 10) / 10), unit, severity: 'Normal', timestamp: new Date(y, m - 1, d, 12).getTime(), dateSource: 'reading' });
   });
+  return { vitals: vitals.sort((a, b) => a.timestamp - b.timestamp), issues: issues.issues, issueCount: issues.count, samples };
+};
 
-  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-  const links = groundingChunks
-    .filter((c: any) => c.maps)
-    .map((c: any) => ({ title: c.maps.title, uri: c.maps.uri }));
+interface ImportedParameter {
+  parameter: string;
+  unit: string;
+  count: number;
+  first: number;
+  last: number;
+  recognised: boolean;
+}
 
-  return { text: response.text, links };
+// Canonicalizes and grades the readings, then drops exact repeats of what is already recorded, so the
+// same file can be imported twice without doubling up.
+const prepareStructuredVitals = (profile: PatientProfile, readings: VitalsRecord[]) => {
+  const key = (v: VitalsRecord) => `${vitalIdentity(v)}|${v.timestamp}|${v.value ?? normalizeKey(v.reading)}`;
+  const existing = new Set(profile.vitals.map(key));
+  const vitals = ingestVitals(readings, profile).filter(v => {
+    if (existing.has(key(v))) return false;
+    existing.add(key(v));
+    return true;
+  });
+  const parameters = new Map<string, ImportedParameter>();
+  vitals.forEach(v => {
+    const entry = parameters.get(v.parameter) ?? { parameter: v.parameter, unit: v.canonicalUnit ?? v.unit, count: 0, first: v.timestamp, last: v.timestamp, recognised: !!v.code };
+    entry.count++;
+    entry.first = Math.min(entry.first, v.timestamp);
+    entry.last = Math.max(entry.last, v.timestamp);
+    parameters.set(v.parameter, entry);
+  });
+  return { vitals, duplicates: readings.flatMap(normalizeVital).length - vitals.length, parameters: [...parameters.values()] };
+};
+
+// --- DOCUMENT LIBRARY ---
+
+interface SourceDocumentMeta {
+  id: string;
+  patientId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  hash: string;
+  uploadedAt: number;
+  // Null until the extraction succeeds.
+  extraction: ClinicalExtraction | null;
+}
+
+interface SourceDocument extends SourceDocumentMeta {
+  data: Blob;
+}
+
+// The IndexedDB record: file name, extraction and bytes are encrypted; the remaining fields are needed to query.
+interface StoredDocument extends Omit<SourceDocumentMeta, 'fileName' | 'extraction'> {
+  details: SealedJson;
+  iv: string;
+  data: ArrayBuffer;
+}
+
+const DOCUMENT_DB = 'medaid_documents';
+const DOCUMENT_STORE = 'documents';
+
+const openDocumentDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DOCUMENT_DB, 1);
+  req.onupgradeneeded = () => {
+    const store = req.result.createObjectStore(DOCUMENT_STORE, { keyPath: 'id' });
+    store.createIndex('patientId', 'patientId');
+  };
+  req.onsuccess = () => {
+    // Steps aside if another tab erases or upgrades the database mid-transaction.
+    req.result.onversionchange = () => req.result.close();
+    resolve(req.result);
+  };
+  req.onerror = () => reject(req.error);
+});
+
+// Settles once the transaction has finished, so writes are durable, and closes the connection either way:
+// a connection left open would block eraseLocalData's deleteDatabase.
+const runDocumentRequest = async <T,>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDocumentDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(DOCUMENT_STORE, mode);
+    const req = makeRequest(tx.objectStore(DOCUMENT_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(req.result);
+    };
+    tx.onerror = tx.onabort = () => {
+      db.close();
+      reject(req.error ?? tx.error);
+    };
+  });
+};
+
+const hashFile = async (file: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const readFileAsBase64 = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const sealDocument = async ({ fileName, extraction, data, ...meta }: SourceDocument): Promise<StoredDocument> => {
+  const sealed = await encryptBytes(await data.arrayBuffer());
+  return { ...meta, details: await sealJson({ fileName, extraction }), iv: toBase64(sealed.iv), data: sealed.data };
+};
+
+// Records written before the vault existed are plain SourceDocuments until sealStoredDocuments runs.
+const openDocumentMeta = async (stored: StoredDocument | SourceDocument): Promise<SourceDocumentMeta> => {
+  if (!('details' in stored)) {
+    const { data, ...meta } = stored;
+    return meta;
+  }
+  const { details, iv, data, ...meta } = stored;
+  return { ...meta, ...await openJson(details) };
+};
+
+const openDocument = async (stored: StoredDocument | SourceDocument): Promise<SourceDocument> => {
+  if (!('details' in stored)) return stored;
+  const plain = await decryptBytes(fromBase64(stored.iv), stored.data);
+  return { ...await openDocumentMeta(stored), data: new Blob([plain], { type: stored.mimeType }) };
+};
+
+const storeSourceDocument = async (patientId: string, file: File, hash: string, extraction: ClinicalExtraction | null): Promise<SourceDocumentMeta> => {
+  const doc: SourceDocument = {
+    id: newId(),
+    patientId,
+    fileName: file.name,
+    mimeType: file.type,
+    size: file.size,
+    hash,
+    uploadedAt: Date.now(),
+    extraction,
+    data: file
+  };
+  const sealed = await sealDocument(doc);
+  await runDocumentRequest('readwrite', s => s.put(sealed));
+  const { data, ...meta } = doc;
+  return meta;
+};
+
+const getSourceDocument = async (id: string) => {
+  const stored = await runDocumentRequest<StoredDocument | SourceDocument | undefined>('readonly', s => s.get(id));
+  return stored && openDocument(stored);
+};
+
+const updateSourceExtraction = async (id: string, extraction: ClinicalExtraction) => {
+  const doc = await getSourceDocument(id);
+  if (doc) {
+    const sealed = await sealDocument({ ...doc, extraction });
+    await runDocumentRequest('readwrite', s => s.put(sealed));
+  }
+};
+
+const listSourceDocuments = async (patientId: string): Promise<SourceDocumentMeta[]> => {
+  const docs = await runDocumentRequest<(StoredDocument | SourceDocument)[]>('readonly', s => s.index('patientId').getAll(patientId));
+  const metas = await Promise.all(docs.map(openDocumentMeta));
+  return metas.sort((a, b) => b.uploadedAt - a.uploadedAt);
+};
+
+const deleteSourceDocuments = async (patientId: string) => {
+  const keys = await runDocumentRequest('readonly', s => s.index('patientId').getAllKeys(patientId));
+  await Promise.all(keys.map(key => runDocumentRequest('readwrite', s => s.delete(key))));
+};
+
+// Encrypts any documents uploaded before the vault was created.
+const sealStoredDocuments = async () => {
+  const docs = await runDocumentRequest<(StoredDocument | SourceDocument)[]>('readonly', s => s.getAll());
+  for (const doc of docs) {
+    if ('details' in doc) continue;
+    const sealed = await sealDocument(doc);
+    await runDocumentRequest('readwrite', s => s.put(sealed));
+  }
+};
+
+// The only way back from a forgotten passphrase: everything on this device is unrecoverable without it.
+const eraseLocalData = async () => {
+  // Documents go first: if another tab blocks the delete, nothing has been erased and the user can retry.
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DOCUMENT_DB);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error('Stored documents are still open in another tab. Close MedAId in your other tabs, then erase again.'));
+  });
+  Object.keys(localStorage)
+    .filter(key => [WORKSPACE_KEY, LEGACY_PROFILE_KEY, VAULT_KEY].includes(key) || key.startsWith(BACKUP_KEY_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+// --- MERGE ENGINE ---
+
+interface RecordMatch {
+  kind: 'duplicate' | 'conflict';
+  existingIds: string[];
+  summary: string;
+}
+
+const observationDay = (ts: number) => new Date(ts).toLocaleDateString('en-CA');
+
+const EARLIEST_CLINICAL_YEAR = 1900;
+
+// Calendar dates are pinned to local noon so they never drift a day across time zones.
+// Unparseable, pre-1900 or future dates yield undefined so the caller falls back to the next source.
+const parseClinicalDate = (value?: string) => {
+  if (!value) return undefined;
+  const ymd = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const ts = ymd ? new Date(+ymd[1], +ymd[2] - 1, +ymd[3], 12).getTime() : Date.parse(value);
+  // new Date() reads years below 100 as 19xx, so the year is checked as written.
+  const year = ymd ? +ymd[1] : new Date(ts).getFullYear();
+  if (isNaN(ts) || year < EARLIEST_CLINICAL_YEAR || ts > Date.now() + 86400000) return undefined;
+  return ts;
+};
+
+const resolveObservationDate = (observedDate: string | undefined, documentDate: string | undefined, uploadedAt: number) => {
+  const reading = parseClinicalDate(observedDate);
+  if (reading !== undefined) return { timestamp: reading, dateSource: 'reading' as const };
+  const document = parseClinicalDate(documentDate);
+  if (document !== undefined) return { timestamp: document, dateSource: 'document' as const };
+  return { timestamp: uploadedAt, dateSource: 'upload' as const };
+};
+
+const vitalIdentity = (v: VitalsRecord) => v.code || normalizeKey(v.parameter);
+
+const sameVitalValue = (a: VitalsRecord, b: VitalsRecord) =>
+  a.value !== undefined && b.value !== undefined
+    ? Math.abs(a.value - b.value) < 0.01
+    : normalizeKey(a.reading) === normalizeKey(b.reading) && normalizeUnit(a.unit) === normalizeUnit(b.unit);
+
+// A reading collides with another when it measures the same canonical parameter on the same day.
+// Identical values are duplicates; anything else is a conflict the user has to settle.
+const matchVital = (raw: VitalsRecord, existing: VitalsRecord[]): RecordMatch | undefined => {
+  const components = normalizeVital(raw).map(c => {
+    const sameSlot = existing.filter(e => vitalIdentity(e) === vitalIdentity(c) && observationDay(e.timestamp) === observationDay(c.timestamp));
+    return { sameSlot, duplicate: sameSlot.find(e => sameVitalValue(e, c)) };
+  });
+  const sameSlot = components.flatMap(c => c.sameSlot);
+  if (sameSlot.length === 0) return undefined;
+  const day = new Date(sameSlot[0].timestamp).toLocaleDateString();
+  if (components.every(c => c.duplicate)) {
+    return { kind: 'duplicate', existingIds: components.map(c => c.duplicate!.id), summary: `Already recorded on ${day}` };
+  }
+  return {
+    kind: 'conflict',
+    existingIds: sameSlot.map(e => e.id),
+    summary: `${sameSlot.map(e => `${e.parameter} ${e.reading} ${e.unit}`.trim()).join(', ')} on ${day}`
+  };
+};
+
+const matchCondition = (entry: MedicalHistoryEntry, existing: MedicalHistoryEntry[]): RecordMatch | undefined => {
+  const same = existing.filter(h => normalizeKey(h.condition) === normalizeKey(entry.condition));
+  if (same.length === 0) return undefined;
+  if (!entry.status || same.some(h => normalizeKey(h.status) === normalizeKey(entry.status))) {
+    return { kind: 'duplicate', existingIds: same.map(h => h.id), summary: 'Already in history' };
+  }
+  return { kind: 'conflict', existingIds: same.map(h => h.id), summary: `Recorded as ${same.map(h => h.status || 'no status').join(', ')}` };
+};
+
+// --- EXTRACTION REVIEW ---
+
+type DemographicKey = 'name' | 'age' | 'sex';
+
+type ReviewItem =
+  | { id: string, kind: 'demographic', key: DemographicKey, before?: string, after: string, accepted: boolean }
+  | { id: string, kind: 'vital', vital: VitalsRecord, accepted: boolean, replaceExisting: boolean }
+  | { id: string, kind: 'condition', entry: MedicalHistoryEntry, accepted: boolean, replaceExisting: boolean }
+  | { id: string, kind: 'medication', change: 'added' | 'changed' | 'removed', before?: Medication, after?: Medication, accepted: boolean };
+
+interface PendingReview {
+  id: string;
+  patientId: string;
+  sourceId: string;
+  fileName: string;
+  documentDate?: string;
+  items: ReviewItem[];
+}
+
+const medicationKey = (m: Medication) => normalizeKey(m.name);
+
+// Diffs an extraction against the current profile. Anything that would overwrite or remove
+// existing data, or that duplicates it, starts unaccepted; purely additive items start accepted.
+const buildReviewItems = (profile: PatientProfile, result: ClinicalExtraction, sourceId: string): ReviewItem[] => {
+  const items: ReviewItem[] = [];
+
+  const demographics: { key: DemographicKey, before?: string, after?: string }[] = [
+    { key: 'name', before: profile.name === 'Unregistered Patient' ? undefined : profile.name, after: result.name },
+    { key: 'age', before: profile.age?.toString(), after: result.age?.toString() },
+    { key: 'sex', before: profile.sex, after: result.sex }
+  ];
+  demographics
+    .filter(d => d.after && d.after !== d.before)
+    .forEach(d => items.push({ id: newId(), kind: 'demographic', key: d.key, before: d.before, after: d.after!, accepted: !d.before }));
+
+  // Earlier items from the same document count as existing so a repeated line is caught too.
+  const seenVitals = [...profile.vitals];
+  result.vitals.forEach(v => {
+    const vital: VitalsRecord = {
+      parameter: v.parameter,
+      reading: v.reading,
+      unit: v.unit,
+      severity: v.severity,
+      id: newId(),
+      sourceId,
+      ...resolveObservationDate(v.observedDate, result.documentDate, Date.now())
+    };
+    const match = matchVital(vital, seenVitals);
+    seenVitals.push(...normalizeVital(vital));
+    items.push({ id: newId(), kind: 'vital', vital, accepted: !match, replaceExisting: false });
+  });
+
+  const seenHistory = [...profile.history];
+  result.history.forEach(h => {
+    const entry: MedicalHistoryEntry = { condition: h.condition, status: h.status, date: h.date, id: newId(), sourceId };
+    const match = matchCondition(entry, seenHistory);
+    seenHistory.push(entry);
+    items.push({ id: newId(), kind: 'condition', entry, accepted: !match, replaceExisting: false });
+  });
+
+  const extractedMeds: Medication[] = result.medications.map(m => ({ id: newId(), name: m.name, dosage: m.dosage, frequency: m.frequency, sourceId }));
+  extractedMeds.forEach(after => {
+    const before = profile.medications.find(m => medicationKey(m) === medicationKey(after));
+    if (!before) {
+      items.push({ id: newId(), kind: 'medication', change: 'added', after, accepted: true });
+    } else if (normalizeKey(before.dosage) !== normalizeKey(after.dosage) || normalizeKey(before.frequency) !== normalizeKey(after.frequency)) {
+      items.push({ id: newId(), kind: 'medication', change: 'changed', before, after, accepted: false });
+    }
+  });
+  // A document that lists no medications says nothing about discontinuation.
+  if (extractedMeds.length > 0) {
+    profile.medications
+      .filter(m => !extractedMeds.some(e => medicationKey(e) === medicationKey(m)))
+      .forEach(before => items.push({ id: newId(), kind: 'medication', change: 'removed', before, accepted: false }));
+  }
+
+  return items;
+};
+
+const applyReviewItems = (profile: PatientProfile, items: ReviewItem[]): PatientProfile => {
+  const accepted = items.filter(i => i.accepted);
+  const next: PatientProfile = { ...profile, medications: [...profile.medications] };
+
+  accepted.forEach(item => {
+    if (item.kind === 'demographic') {
+      if (item.key === 'name') next.name = item.after;
+      if (item.key === 'age') next.age = parseInt(item.after, 10) || next.age;
+      if (item.key === 'sex' && (item.after === 'male' || item.after === 'female')) next.sex = item.after;
+    }
+    if (item.kind === 'medication') {
+      const key = medicationKey(item.before || item.after!);
+      const idx = next.medications.findIndex(m => medicationKey(m) === key);
+      if (item.change === 'added' && idx === -1) next.medications.push(item.after!);
+      // A hand-set schedule survives a re-import unless the frequency itself changed.
+      if (item.change === 'changed' && idx !== -1) {
+        const current = next.medications[idx];
+        const sameFrequency = normalizeKey(current.frequency) === normalizeKey(item.after!.frequency);
+        next.medications[idx] = { ...item.after!, id: current.id, schedule: sameFrequency ? current.schedule : undefined };
+      }
+      if (item.change === 'removed' && idx !== -1) next.medications.splice(idx, 1);
+    }
+  });
+
+  // Matches are re-evaluated against the profile as it is now, since it may have changed during review.
+  const replaced = new Set(accepted.flatMap(i => {
+    if (i.kind === 'vital' && i.replaceExisting) return matchVital(i.vital, profile.vitals)?.existingIds || [];
+    if (i.kind === 'condition' && i.replaceExisting) return matchCondition(i.entry, profile.history)?.existingIds || [];
+    return [];
+  }));
+  const vitals = accepted.flatMap(i => i.kind === 'vital' ? [i.vital] : []);
+  const history = accepted.flatMap(i => i.kind === 'condition' ? [i.entry] : []);
+  // A new age or sex can move earlier readings onto a different range, so they are graded again as well.
+  const kept = profile.vitals.filter(v => !replaced.has(v.id));
+  const regraded = next.age !== profile.age || next.sex !== profile.sex ? applyReferenceRanges(kept, next) : kept;
+  return {
+    ...next,
+    vitals: [...regraded, ...ingestVitals(vitals, next)],
+    history: [...profile.history.filter(h => !replaced.has(h.id)), ...history]
+  };
+};
+
+// --- MANUAL ENTRY ---
+
+interface VitalInput {
+  parameter: string;
+  reading: string;
+  unit: string;
+  date: string;
+}
+
+type EntryValue =
+  | { kind: 'vital', value: VitalsRecord }
+  | { kind: 'condition', value: MedicalHistoryEntry }
+  | { kind: 'medication', value: Medication };
+
+interface EntryDraft {
+  kind: EntryKind;
+  existing?: EntryValue;
+}
+
+const ENTRY_FIELDS = { vital: 'vitals', condition: 'history', medication: 'medications' } as const;
+
+const OPERATOR_KEY = 'medaid_operator';
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?$/;
+
+// Every spelling convertToCanonical accepts for this parameter, canonical unit first.
+const knownUnits = (param: CanonicalParameter) =>
+  [param.unit, ...(param.unitAliases || []), ...Object.keys(param.conversions || {})];
+
+// Manual vitals must map onto the dictionary so they are always graded against the reference table.
+const validateVitalInput = (input: VitalInput): string[] => {
+  const errors: string[] = [];
+  const param = findParameterByName(input.parameter);
+  if (!param) {
+    errors.push(`"${input.parameter}" is not a known parameter. Pick one from the list.`);
+  } else if (param.components) {
+    const parts = input.reading.split('/').map(p => p.trim());
+    if (parts.length !== param.components.length || !parts.every(p => NUMBER_PATTERN.test(p))) {
+      errors.push(`${param.name} needs ${param.components.length} numbers separated by "/", e.g. 120/80.`);
+    }
+  } else if (!NUMBER_PATTERN.test(input.reading.trim())) {
+    errors.push('The reading must be a number.');
+  }
+  if (param && convertToCanonical(1, input.unit, param) === undefined) {
+    errors.push(`The unit for ${param.name} must be one of: ${knownUnits(param).join(', ')}.`);
+  }
+  if (parseClinicalDate(input.date) === undefined) errors.push('Enter an observation date that is not in the future.');
+  return errors;
+};
+
+const validateConditionInput = (entry: MedicalHistoryEntry): string[] =>
+  entry.condition.trim() ? [] : ['Enter the condition or diagnosis.'];
+
+const validateMedicationInput = (med: Medication): string[] => [
+  ...(med.name.trim() ? [] : ['Enter the medication name.']),
+  ...(/\d/.test(med.dosage) ? [] : ['Enter a dosage with an amount, e.g. 500 mg.']),
+  ...(med.frequency.trim() ? [] : ['Enter how often it is taken.'])
+];
+
+const describeVital = (v: VitalsRecord) => `${v.parameter} ${v.reading} ${v.unit} (${observationDay(v.timestamp)})`.replace(/\s+/g, ' ');
+const describeCondition = (h: MedicalHistoryEntry) => [h.condition, h.status, h.date].filter(Boolean).join(' • ');
+const describeMedication = (m: Medication) => [m.name, m.dosage, m.frequency, m.schedule && describeSchedule(m.schedule)].filter(Boolean).join(' • ');
+
+const entryLabel = (e: EntryValue) =>
+  e.kind === 'vital' ? e.value.parameter : e.kind === 'condition' ? e.value.condition : e.value.name;
+
+const describeEntry = (e: EntryValue) =>
+  e.kind === 'vital' ? describeVital(e.value) : e.kind === 'condition' ? describeCondition(e.value) : describeMedication(e.value);
+
+const removeEntry = (profile: PatientProfile, e: EntryValue): PatientProfile => {
+  const field = ENTRY_FIELDS[e.kind];
+  return { ...profile, [field]: (profile[field] as { id: string }[]).filter(x => x.id !== e.value.id) };
+};
+
+const insertEntry = (profile: PatientProfile, e: EntryValue, index: number): PatientProfile => {
+  const field = ENTRY_FIELDS[e.kind];
+  const list: unknown[] = [...profile[field]];
+  list.splice(Math.min(index, list.length), 0, e.value);
+  return { ...profile, [field]: list };
+};
+
+// There are no accounts, so the audit trail records the name the person at this device gave.
+// Asks for the name, keeping the current one when the prompt is cancelled or left empty.
+const promptOperatorName = () => {
+  const current = localStorage.getItem(OPERATOR_KEY);
+  const name = window.prompt('Your name, for the audit trail of record changes', current ?? '')?.trim();
+  if (name) localStorage.setItem(OPERATOR_KEY, name);
+  return name || current;
+};
+
+// A cancelled prompt is not remembered, so the name is asked for again on the next change.
+const getOperatorName = () => localStorage.getItem(OPERATOR_KEY) || promptOperatorName() || 'Unnamed user';
+
+// --- MEDICATION SCHEDULE ---
+
+interface AdherenceStats {
+  taken: number;
+  skipped: number;
+  expected: number;
+  // First day counted; later than the window start when tracking began more recently.
+  since: string;
+  percent?: number;
+}
+
+interface ScheduledDose {
+  medication: Medication;
+  time: string;
+  event?: DoseEvent;
+}
+
+const ADHERENCE_WINDOW_DAYS = 30;
+const DOSE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAILY_DOSE_TIMES: Record<number, string[]> = {
+  1: ['08:00'],
+  2: ['08:00', '20:00'],
+  3: ['08:00', '14:00', '20:00'],
+  4: ['08:00', '12:00', '16:00', '20:00']
+};
+
+const clockTime = (ts: number) => new Date(ts).toTimeString().slice(0, 5);
+
+const addDays = (date: string, days: number) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return observationDay(new Date(y, m - 1, d + days).getTime());
+};
+
+const dayIndex = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / 86_400_000);
+};
+
+// Reads common sig abbreviations and plain-English frequencies. Anything else returns undefined and the
+// medication is not tracked until a schedule is set by hand.
+const parseFrequency = (text: string): DoseSchedule | undefined => {
+  const key = normalizeKey(text).replace(/\./g, '');
+  const daily = (count: number, everyDays = 1): DoseSchedule => ({ times: DAILY_DOSE_TIMES[count], everyDays, asNeeded: false });
+  if (!key) return undefined;
+  if (/\b(prn|as needed|when needed|as required|if needed)\b/.test(key)) return { times: [], everyDays: 1, asNeeded: true };
+
+  const hourly = key.match(/\b(?:every|q)\s*(\d{1,2})\s*(?:h|hr|hrs|hours?)\b/);
+  if (hourly) {
+    const hours = Number(hourly[1]);
+    if (hours < 1 || hours > 24 || 24 % hours !== 0) return undefined;
+    const times = Array.from({ length: 24 / hours }, (_, i) => `${String((8 + i * hours) % 24).padStart(2, '0')}:00`);
+    return { times: times.sort(), everyDays: 1, asNeeded: false };
+  }
+  if (/\b(weekly|once a week|every week|qw|qwk)\b/.test(key)) return daily(1, 7);
+  if (/\b(every other day|alternate days|qod|eod)\b/.test(key)) return daily(1, 2);
+  const everyDays = key.match(/\bevery (\d+) days\b/);
+  if (everyDays) return Number(everyDays[1]) >= 1 ? daily(1, Number(everyDays[1])) : undefined;
+
+  if (/\b(qid|qds|four times)\b/.test(key)) return daily(4);
+  if (/\b(tid|tds|three times|thrice)\b/.test(key)) return daily(3);
+  if (/\b(bid|bd|twice|two times)\b/.test(key)) return daily(2);
+  const count = key.match(/\b([1-4])\s*(?:x|times)\s*(?:a |per |\/)?(?:day|daily)\b/);
+  if (count) return daily(Number(count[1]));
+  if (/\b(qhs|hs|nightly|at night|at bedtime|bedtime|every night|every evening|qpm|in the evening)\b/.test(key)) return { times: ['21:00'], everyDays: 1, asNeeded: false };
+  if (/\b(qd|od|daily|once a day|once daily|every day|each day|qam|every morning|in the morning|per day|a day)\b/.test(key)) return daily(1);
+  return undefined;
+};
+
+interface ScheduleInput {
+  times: string;
+  everyDays: string;
+  asNeeded: boolean;
+  startDate: string;
+  stopDate: string;
+}
+
+const toScheduleInput = (s?: DoseSchedule): ScheduleInput => ({
+  times: s?.times.join(', ') ?? '',
+  everyDays: String(s?.everyDays ?? 1),
+  asNeeded: s?.asNeeded ?? false,
+  startDate: s?.startDate ?? '',
+  stopDate: s?.stopDate ?? ''
+});
+
+const splitDoseTimes = (times: string) => times.split(/[,;\s]+/).filter(Boolean).map(t => t.padStart(5, '0'));
+
+const validateScheduleInput = (input: ScheduleInput): string[] => {
+  const times = splitDoseTimes(input.times);
+  const everyDays = Number(input.everyDays);
+  return [
+    ...(input.asNeeded || times.length > 0 ? [] : ['Enter at least one dose time, or mark the medication as taken when needed.']),
+    ...(times.every(t => DOSE_TIME_PATTERN.test(t)) ? [] : ['Dose times must be 24-hour HH:MM, e.g. 08:00, 20:00.']),
+    ...(Number.isInteger(everyDays) && everyDays >= 1 && everyDays <= 90 ? [] : ['Repeat every 1 to 90 days.']),
+    ...(!input.startDate || !input.stopDate || input.stopDate >= input.startDate ? [] : ['The stop date must not be before the start date.'])
+  ];
+};
+
+const fromScheduleInput = (input: ScheduleInput): DoseSchedule => ({
+  times: input.asNeeded ? [] : [...new Set(splitDoseTimes(input.times))].sort(),
+  everyDays: input.asNeeded ? 1 : Number(input.everyDays),
+  asNeeded: input.asNeeded,
+  startDate: input.startDate || undefined,
+  stopDate: input.stopDate || undefined
+});
+
+// A stored schedule is only written when someone sets one by hand; otherwise the free-text frequency is read.
+const scheduleFor = (m: Medication) => m.schedule ?? parseFrequency(m.frequency);
+
+const describeSchedule = (s?: DoseSchedule) => {
+  if (!s) return 'No schedule';
+  if (s.asNeeded) return 'As needed';
+  const repeat = s.everyDays === 1 ? 'daily' : s.everyDays === 7 ? 'weekly' : `every ${s.everyDays} days`;
+  return `${s.times.join(', ')} ${repeat}${s.stopDate ? ` until ${s.stopDate}` : ''}`;
+};
+
+const validateSchedule = (raw: unknown): DoseSchedule | undefined => {
+  if (!isRecord(raw) || !Array.isArray(raw.times) || !raw.times.every(t => typeof t === 'string' && DOSE_TIME_PATTERN.test(t))) return undefined;
+  return {
+    times: raw.times,
+    everyDays: Number.isInteger(raw.everyDays) && raw.everyDays >= 1 ? raw.everyDays : 1,
+    asNeeded: raw.asNeeded === true,
+    startDate: typeof raw.startDate === 'string' && DATE_PATTERN.test(raw.startDate) ? raw.startDate : undefined,
+    stopDate: typeof raw.stopDate === 'string' && DATE_PATTERN.test(raw.stopDate) ? raw.stopDate : undefined
+  };
+};
+
+// Multi-day schedules count from the start date, or from the first logged dose when no start date is known;
+// until then every day is treated as a dosing day.
+const dosingAnchor = (m: Medication, schedule: DoseSchedule, log: DoseEvent[]) =>
+  schedule.startDate ?? log.filter(e => e.medicationId === m.id).reduce<string | undefined>((first, e) => !first || e.date < first ? e.date : first, undefined);
+
+const isDosingDay = (schedule: DoseSchedule, anchor: string | undefined, date: string) => {
+  if (schedule.asNeeded) return false;
+  if (schedule.startDate && date < schedule.startDate) return false;
+  if (schedule.stopDate && date > schedule.stopDate) return false;
+  if (schedule.everyDays === 1 || !anchor) return true;
+  return ((dayIndex(date) - dayIndex(anchor)) % schedule.everyDays + schedule.everyDays) % schedule.everyDays === 0;
+};
+
+const dosesForDay = (medications: Medication[], log: DoseEvent[], date: string): ScheduledDose[] =>
+  medications.flatMap(medication => {
+    const schedule = scheduleFor(medication);
+    if (!schedule || !isDosingDay(schedule, dosingAnchor(medication, schedule, log), date)) return [];
+    return schedule.times.map(time => ({
+      medication,
+      time,
+      event: log.find(e => e.medicationId === medication.id && e.date === date && e.time === time)
+    }));
+  }).sort((a, b) => a.time.localeCompare(b.time));
+
+// Past days compare logged doses against the scheduled count, so changing dose times later doesn't turn
+// earlier doses into misses. Today only counts doses that are already due or have been logged.
+// Tracking starts with the first logged dose, so medications nobody has checked off yet have no figure.
+const computeAdherence = (m: Medication, log: DoseEvent[], now: number): AdherenceStats | undefined => {
+  const schedule = scheduleFor(m);
+  const events = log.filter(e => e.medicationId === m.id);
+  if (!schedule || schedule.asNeeded || events.length === 0) return undefined;
+
+  const today = observationDay(now);
+  const firstLogged = events.reduce((first, e) => e.date < first ? e.date : first, today);
+  const since = [addDays(today, -(ADHERENCE_WINDOW_DAYS - 1)), firstLogged, schedule.startDate ?? ''].reduce((a, b) => a > b ? a : b);
+  const anchor = dosingAnchor(m, schedule, log);
+  const stats: AdherenceStats = { taken: 0, skipped: 0, expected: 0, since };
+
+  for (let date = since; date <= today; date = addDays(date, 1)) {
+    if (!isDosingDay(schedule, anchor, date)) continue;
+    const logged = events.filter(e => e.date === date);
+    const expected = date === today
+      ? schedule.times.filter(t => t <= clockTime(now) || logged.some(e => e.time === t)).length
+      : schedule.times.length;
+    stats.expected += expected;
+    stats.taken += Math.min(expected, logged.filter(e => e.status === 'taken').length);
+    stats.skipped += logged.filter(e => e.status === 'skipped').length;
+  }
+  return { ...stats, percent: stats.expected > 0 ? Math.round(stats.taken / stats.expected * 100) : undefined };
+};
+
+const adherenceContext = (medications: Medication[], log: DoseEvent[], now: number): AdherenceContext[] =>
+  medications.flatMap(m => {
+    const stats = computeAdherence(m, log, now);
+    return stats?.percent === undefined ? [] : [{ medication: m.name, percent: stats.percent, taken: stats.taken, expected: stats.expected, since: stats.since }];
+  });
+
+// --- DRUG INTERACTIONS ---
+
+type InteractionSeverity = 'Contraindicated' | 'Major' | 'Moderate' | 'Minor';
+
+const INTERACTION_SEVERITY_RANK: Record<InteractionSeverity, number> = { Contraindicated: 3, Major: 2, Moderate: 1, Minor: 0 };
+
+interface DrugDefinition {
+  id: string;
+  name: string;
+  // Generic and common brand names, matched as whole words inside the recorded medication name.
+  synonyms: string[];
+  classes: string[];
+}
+
+interface TherapeuticClass {
+  id: string;
+  name: string;
+  // Two different drugs from a class with this set are reported as duplicate therapy.
+  duplicateSeverity?: InteractionSeverity;
+}
+
+// `between` holds drug or class ids; a medication matches an id if it is that drug or belongs to that class.
+interface DrugInteractionRule {
+  between: [string, string];
+  severity: InteractionSeverity;
+  effect: string;
+  advice: string;
+}
+
+interface DrugConditionRule {
+  drug: string;
+  conditions: string[];
+  severity: InteractionSeverity;
+  effect: string;
+  advice: string;
+}
+
+interface InteractionFinding {
+  id: string;
+  kind: 'drug-drug' | 'drug-condition' | 'duplicate';
+  severity: InteractionSeverity;
+  // Names exactly as recorded on the patient's medication list and history.
+  subjects: string[];
+  medicationIds: string[];
+  effect: string;
+  advice: string;
+}
+
+// Bump INTERACTION_DATASET_VERSION whenever the tables below change. This is a screening aid covering common
+// primary-care combinations, not a complete compendium; an empty result does not mean a regimen is safe.
+const INTERACTION_DATASET_VERSION = '2026.11';
+
+const THERAPEUTIC_CLASSES: TherapeuticClass[] = [
+  { id: 'anticoagulant', name: 'Anticoagulants', duplicateSeverity: 'Major' },
+  { id: 'antiplatelet', name: 'Antiplatelets' },
+  { id: 'nsaid', name: 'NSAIDs', duplicateSeverity: 'Moderate' },
+  { id: 'ace-inhibitor', name: 'ACE inhibitors', duplicateSeverity: 'Moderate' },
+  { id: 'arb', name: 'Angiotensin receptor blockers', duplicateSeverity: 'Moderate' },
+  { id: 'raas-blocker', name: 'RAAS blockers' },
+  { id: 'potassium-sparing', name: 'Potassium-sparing diuretics' },
+  { id: 'potassium-supplement', name: 'Potassium supplements' },
+  { id: 'thiazide', name: 'Thiazide diuretics', duplicateSeverity: 'Moderate' },
+  { id: 'loop-diuretic', name: 'Loop diuretics', duplicateSeverity: 'Moderate' },
+  { id: 'beta-blocker', name: 'Beta blockers', duplicateSeverity: 'Moderate' },
+  { id: 'nonselective-beta-blocker', name: 'Non-selective beta blockers' },
+  { id: 'ccb-nondhp', name: 'Non-dihydropyridine calcium channel blockers', duplicateSeverity: 'Moderate' },
+  { id: 'ccb-dhp', name: 'Dihydropyridine calcium channel blockers', duplicateSeverity: 'Moderate' },
+  { id: 'statin', name: 'Statins', duplicateSeverity: 'Moderate' },
+  { id: 'strong-cyp3a4-inhibitor', name: 'Strong CYP3A4 inhibitors' },
+  { id: 'sulfonylurea', name: 'Sulfonylureas', duplicateSeverity: 'Moderate' },
+  { id: 'ssri', name: 'SSRIs', duplicateSeverity: 'Major' },
+  { id: 'triptan', name: 'Triptans', duplicateSeverity: 'Moderate' },
+  { id: 'opioid', name: 'Opioids', duplicateSeverity: 'Moderate' },
+  { id: 'benzodiazepine', name: 'Benzodiazepines', duplicateSeverity: 'Moderate' },
+  { id: 'ppi', name: 'Proton pump inhibitors', duplicateSeverity: 'Minor' },
+  { id: 'pde5-inhibitor', name: 'PDE5 inhibitors', duplicateSeverity: 'Moderate' },
+  { id: 'nitrate', name: 'Nitrates' },
+  { id: 'corticosteroid', name: 'Systemic corticosteroids', duplicateSeverity: 'Moderate' },
+  { id: 'fluoroquinolone', name: 'Fluoroquinolones' },
+  { id: 'decongestant', name: 'Oral decongestants', duplicateSeverity: 'Moderate' },
+  { id: 'divalent-cation', name: 'Calcium and iron supplements' }
+];
+
+const DRUG_DEFINITIONS: DrugDefinition[] = [
+  { id: 'warfarin', name: 'Warfarin', synonyms: ['warfarin', 'coumadin', 'jantoven'], classes: ['anticoagulant'] },
+  { id: 'apixaban', name: 'Apixaban', synonyms: ['apixaban', 'eliquis'], classes: ['anticoagulant'] },
+  { id: 'rivaroxaban', name: 'Rivaroxaban', synonyms: ['rivaroxaban', 'xarelto'], classes: ['anticoagulant'] },
+  { id: 'dabigatran', name: 'Dabigatran', synonyms: ['dabigatran', 'pradaxa'], classes: ['anticoagulant'] },
+  { id: 'aspirin', name: 'Aspirin', synonyms: ['aspirin', 'acetylsalicylic acid', 'asa'], classes: ['antiplatelet'] },
+  { id: 'clopidogrel', name: 'Clopidogrel', synonyms: ['clopidogrel', 'plavix'], classes: ['antiplatelet'] },
+  { id: 'ibuprofen', name: 'Ibuprofen', synonyms: ['ibuprofen', 'advil', 'motrin'], classes: ['nsaid'] },
+  { id: 'naproxen', name: 'Naproxen', synonyms: ['naproxen', 'aleve', 'naprosyn'], classes: ['nsaid'] },
+  { id: 'diclofenac', name: 'Diclofenac', synonyms: ['diclofenac', 'voltaren'], classes: ['nsaid'] },
+  { id: 'celecoxib', name: 'Celecoxib', synonyms: ['celecoxib', 'celebrex'], classes: ['nsaid'] },
+  { id: 'meloxicam', name: 'Meloxicam', synonyms: ['meloxicam', 'mobic'], classes: ['nsaid'] },
+  { id: 'lisinopril', name: 'Lisinopril', synonyms: ['lisinopril', 'zestril', 'prinivil'], classes: ['ace-inhibitor', 'raas-blocker'] },
+  { id: 'enalapril', name: 'Enalapril', synonyms: ['enalapril', 'vasotec'], classes: ['ace-inhibitor', 'raas-blocker'] },
+  { id: 'ramipril', name: 'Ramipril', synonyms: ['ramipril', 'altace'], classes: ['ace-inhibitor', 'raas-blocker'] },
+  { id: 'losartan', name: 'Losartan', synonyms: ['losartan', 'cozaar'], classes: ['arb', 'raas-blocker'] },
+  { id: 'valsartan', name: 'Valsartan', synonyms: ['valsartan', 'diovan'], classes: ['arb', 'raas-blocker'] },
+  { id: 'irbesartan', name: 'Irbesartan', synonyms: ['irbesartan', 'avapro'], classes: ['arb', 'raas-blocker'] },
+  { id: 'spironolactone', name: 'Spironolactone', synonyms: ['spironolactone', 'aldactone'], classes: ['potassium-sparing'] },
+  { id: 'eplerenone', name: 'Eplerenone', synonyms: ['eplerenone', 'inspra'], classes: ['potassium-sparing'] },
+  { id: 'potassium-chloride', name: 'Potassium chloride', synonyms: ['potassium chloride', 'klor-con', 'k-dur'], classes: ['potassium-supplement'] },
+  { id: 'hydrochlorothiazide', name: 'Hydrochlorothiazide', synonyms: ['hydrochlorothiazide', 'hctz', 'microzide'], classes: ['thiazide'] },
+  { id: 'chlorthalidone', name: 'Chlorthalidone', synonyms: ['chlorthalidone'], classes: ['thiazide'] },
+  { id: 'furosemide', name: 'Furosemide', synonyms: ['furosemide', 'lasix'], classes: ['loop-diuretic'] },
+  { id: 'bumetanide', name: 'Bumetanide', synonyms: ['bumetanide', 'bumex'], classes: ['loop-diuretic'] },
+  { id: 'metoprolol', name: 'Metoprolol', synonyms: ['metoprolol', 'lopressor', 'toprol'], classes: ['beta-blocker'] },
+  { id: 'atenolol', name: 'Atenolol', synonyms: ['atenolol', 'tenormin'], classes: ['beta-blocker'] },
+  { id: 'carvedilol', name: 'Carvedilol', synonyms: ['carvedilol', 'coreg'], classes: ['beta-blocker', 'nonselective-beta-blocker'] },
+  { id: 'propranolol', name: 'Propranolol', synonyms: ['propranolol', 'inderal'], classes: ['beta-blocker', 'nonselective-beta-blocker'] },
+  { id: 'diltiazem', name: 'Diltiazem', synonyms: ['diltiazem', 'cardizem'], classes: ['ccb-nondhp'] },
+  { id: 'verapamil', name: 'Verapamil', synonyms: ['verapamil', 'calan'], classes: ['ccb-nondhp'] },
+  { id: 'amlodipine', name: 'Amlodipine', synonyms: ['amlodipine', 'norvasc'], classes: ['ccb-dhp'] },
+  { id: 'nifedipine', name: 'Nifedipine', synonyms: ['nifedipine', 'procardia', 'adalat'], classes: ['ccb-dhp'] },
+  { id: 'digoxin', name: 'Digoxin', synonyms: ['digoxin', 'lanoxin'], classes: [] },
+  { id: 'amiodarone', name: 'Amiodarone', synonyms: ['amiodarone', 'pacerone', 'cordarone'], classes: [] },
+  { id: 'simvastatin', name: 'Simvastatin', synonyms: ['simvastatin', 'zocor'], classes: ['statin'] },
+  { id: 'lovastatin', name: 'Lovastatin', synonyms: ['lovastatin', 'mevacor'], classes: ['statin'] },
+  { id: 'atorvastatin', name: 'Atorvastatin', synonyms: ['atorvastatin', 'lipitor'], classes: ['statin'] },
+  { id: 'rosuvastatin', name: 'Rosuvastatin', synonyms: ['rosuvastatin', 'crestor'], classes: ['statin'] },
+  { id: 'pravastatin', name: 'Pravastatin', synonyms: ['pravastatin', 'pravachol'], classes: ['statin'] },
+  { id: 'clarithromycin', name: 'Clarithromycin', synonyms: ['clarithromycin', 'biaxin'], classes: ['strong-cyp3a4-inhibitor'] },
+  { id: 'itraconazole', name: 'Itraconazole', synonyms: ['itraconazole', 'sporanox'], classes: ['strong-cyp3a4-inhibitor'] },
+  { id: 'ketoconazole', name: 'Ketoconazole', synonyms: ['ketoconazole'], classes: ['strong-cyp3a4-inhibitor'] },
+  { id: 'fluconazole', name: 'Fluconazole', synonyms: ['fluconazole', 'diflucan'], classes: [] },
+  { id: 'ciprofloxacin', name: 'Ciprofloxacin', synonyms: ['ciprofloxacin', 'cipro'], classes: ['fluoroquinolone'] },
+  { id: 'levofloxacin', name: 'Levofloxacin', synonyms: ['levofloxacin', 'levaquin'], classes: ['fluoroquinolone'] },
+  { id: 'sulfamethoxazole-trimethoprim', name: 'Sulfamethoxazole/trimethoprim', synonyms: ['sulfamethoxazole', 'trimethoprim', 'bactrim', 'septra', 'co-trimoxazole'], classes: [] },
+  { id: 'metformin', name: 'Metformin', synonyms: ['metformin', 'glucophage'], classes: [] },
+  { id: 'glipizide', name: 'Glipizide', synonyms: ['glipizide', 'glucotrol'], classes: ['sulfonylurea'] },
+  { id: 'glyburide', name: 'Glyburide', synonyms: ['glyburide', 'glibenclamide', 'diabeta'], classes: ['sulfonylurea'] },
+  { id: 'glimepiride', name: 'Glimepiride', synonyms: ['glimepiride', 'amaryl'], classes: ['sulfonylurea'] },
+  { id: 'insulin', name: 'Insulin', synonyms: ['insulin', 'lantus', 'levemir', 'humalog', 'novolog', 'tresiba'], classes: [] },
+  { id: 'sertraline', name: 'Sertraline', synonyms: ['sertraline', 'zoloft'], classes: ['ssri'] },
+  { id: 'fluoxetine', name: 'Fluoxetine', synonyms: ['fluoxetine', 'prozac'], classes: ['ssri'] },
+  { id: 'citalopram', name: 'Citalopram', synonyms: ['citalopram', 'celexa'], classes: ['ssri'] },
+  { id: 'escitalopram', name: 'Escitalopram', synonyms: ['escitalopram', 'lexapro'], classes: ['ssri'] },
+  { id: 'paroxetine', name: 'Paroxetine', synonyms: ['paroxetine', 'paxil'], classes: ['ssri'] },
+  { id: 'sumatriptan', name: 'Sumatriptan', synonyms: ['sumatriptan', 'imitrex'], classes: ['triptan'] },
+  { id: 'rizatriptan', name: 'Rizatriptan', synonyms: ['rizatriptan', 'maxalt'], classes: ['triptan'] },
+  { id: 'tramadol', name: 'Tramadol', synonyms: ['tramadol', 'ultram'], classes: ['opioid'] },
+  { id: 'oxycodone', name: 'Oxycodone', synonyms: ['oxycodone', 'oxycontin', 'percocet'], classes: ['opioid'] },
+  { id: 'hydrocodone', name: 'Hydrocodone', synonyms: ['hydrocodone', 'norco', 'vicodin'], classes: ['opioid'] },
+  { id: 'morphine', name: 'Morphine', synonyms: ['morphine', 'ms contin'], classes: ['opioid'] },
+  { id: 'alprazolam', name: 'Alprazolam', synonyms: ['alprazolam', 'xanax'], classes: ['benzodiazepine'] },
+  { id: 'lorazepam', name: 'Lorazepam', synonyms: ['lorazepam', 'ativan'], classes: ['benzodiazepine'] },
+  { id: 'diazepam', name: 'Diazepam', synonyms: ['diazepam', 'valium'], classes: ['benzodiazepine'] },
+  { id: 'clonazepam', name: 'Clonazepam', synonyms: ['clonazepam', 'klonopin'], classes: ['benzodiazepine'] },
+  { id: 'omeprazole', name: 'Omeprazole', synonyms: ['omeprazole', 'prilosec'], classes: ['ppi'] },
+  { id: 'esomeprazole', name: 'Esomeprazole', synonyms: ['esomeprazole', 'nexium'], classes: ['ppi'] },
+  { id: 'pantoprazole', name: 'Pantoprazole', synonyms: ['pantoprazole', 'protonix'], classes: ['ppi'] },
+  { id: 'levothyroxine', name: 'Levothyroxine', synonyms: ['levothyroxine', 'synthroid', 'levoxyl', 'euthyrox'], classes: [] },
+  { id: 'calcium-carbonate', name: 'Calcium carbonate', synonyms: ['calcium carbonate', 'calcium', 'tums'], classes: ['divalent-cation'] },
+  { id: 'ferrous-sulfate', name: 'Ferrous sulfate', synonyms: ['ferrous sulfate', 'ferrous gluconate', 'iron'], classes: ['divalent-cation'] },
+  { id: 'sildenafil', name: 'Sildenafil', synonyms: ['sildenafil', 'viagra', 'revatio'], classes: ['pde5-inhibitor'] },
+  { id: 'tadalafil', name: 'Tadalafil', synonyms: ['tadalafil', 'cialis'], classes: ['pde5-inhibitor'] },
+  { id: 'nitroglycerin', name: 'Nitroglycerin', synonyms: ['nitroglycerin', 'nitroglycerine', 'nitrostat'], classes: ['nitrate'] },
+  { id: 'isosorbide', name: 'Isosorbide', synonyms: ['isosorbide', 'imdur'], classes: ['nitrate'] },
+  { id: 'lithium', name: 'Lithium', synonyms: ['lithium'], classes: [] },
+  { id: 'methotrexate', name: 'Methotrexate', synonyms: ['methotrexate', 'trexall'], classes: [] },
+  { id: 'prednisone', name: 'Prednisone', synonyms: ['prednisone'], classes: ['corticosteroid'] },
+  { id: 'prednisolone', name: 'Prednisolone', synonyms: ['prednisolone', 'orapred'], classes: ['corticosteroid'] },
+  { id: 'methylprednisolone', name: 'Methylprednisolone', synonyms: ['methylprednisolone', 'medrol'], classes: ['corticosteroid'] },
+  { id: 'dexamethasone', name: 'Dexamethasone', synonyms: ['dexamethasone', 'decadron'], classes: ['corticosteroid'] },
+  { id: 'acetaminophen', name: 'Acetaminophen', synonyms: ['acetaminophen', 'paracetamol', 'tylenol'], classes: [] },
+  { id: 'pseudoephedrine', name: 'Pseudoephedrine', synonyms: ['pseudoephedrine', 'sudafed'], classes: ['decongestant'] },
+  { id: 'phenylephrine', name: 'Phenylephrine', synonyms: ['phenylephrine', 'sudafed pe'], classes: ['decongestant'] }
+];
+
+const DRUG_INTERACTION_RULES: DrugInteractionRule[] = [
+  { between: ['anticoagulant', 'nsaid'], severity: 'Major', effect: 'Markedly increased risk of serious bleeding, particularly gastrointestinal.', advice: 'Avoid the NSAID where possible; prefer acetaminophen for pain and watch for signs of bleeding.' },
+  { between: ['anticoagulant', 'antiplatelet'], severity: 'Major', effect: 'Additive bleeding risk.', advice: 'Confirm the combination is intended (e.g. recent stent) and review its duration with the prescriber.' },
+  { between: ['anticoagulant', 'ssri'], severity: 'Major', effect: 'SSRIs impair platelet function and raise bleeding risk on anticoagulation.', advice: 'Monitor for bleeding; consider gastroprotection.' },
+  { between: ['warfarin', 'amiodarone'], severity: 'Major', effect: 'Amiodarone inhibits warfarin metabolism and can sharply raise the INR.', advice: 'Warfarin dose usually needs reducing; check INR closely for several weeks.' },
+  { between: ['warfarin', 'fluconazole'], severity: 'Major', effect: 'Fluconazole inhibits warfarin metabolism and raises the INR.', advice: 'Check INR within a few days of starting or stopping fluconazole.' },
+  { between: ['warfarin', 'sulfamethoxazole-trimethoprim'], severity: 'Major', effect: 'Sulfamethoxazole/trimethoprim raises the INR and bleeding risk.', advice: 'Prefer another antibiotic or monitor INR closely.' },
+  { between: ['warfarin', 'fluoroquinolone'], severity: 'Moderate', effect: 'Fluoroquinolones can raise the INR.', advice: 'Check INR during and after the course.' },
+  { between: ['antiplatelet', 'nsaid'], severity: 'Moderate', effect: 'Increased gastrointestinal bleeding risk; ibuprofen can also blunt the cardioprotective effect of low-dose aspirin.', advice: 'Limit NSAID use and consider gastroprotection.' },
+  { between: ['clopidogrel', 'omeprazole'], severity: 'Moderate', effect: 'Omeprazole reduces activation of clopidogrel and may lessen its antiplatelet effect.', advice: 'Consider pantoprazole instead if a PPI is needed.' },
+  { between: ['clopidogrel', 'esomeprazole'], severity: 'Moderate', effect: 'Esomeprazole reduces activation of clopidogrel and may lessen its antiplatelet effect.', advice: 'Consider pantoprazole instead if a PPI is needed.' },
+  { between: ['ace-inhibitor', 'arb'], severity: 'Major', effect: 'Dual RAAS blockade raises the risk of hyperkalaemia, hypotension and acute kidney injury without added benefit.', advice: 'Avoid the combination; use a single RAAS blocker.' },
+  { between: ['raas-blocker', 'potassium-sparing'], severity: 'Major', effect: 'Risk of hyperkalaemia.', advice: 'Monitor potassium and kidney function, especially after dose changes.' },
+  { between: ['raas-blocker', 'potassium-supplement'], severity: 'Moderate', effect: 'Risk of hyperkalaemia.', advice: 'Check that the supplement is still needed and monitor potassium.' },
+  { between: ['potassium-sparing', 'potassium-supplement'], severity: 'Major', effect: 'Risk of severe hyperkalaemia.', advice: 'Avoid unless potassium is closely monitored.' },
+  { between: ['raas-blocker', 'nsaid'], severity: 'Moderate', effect: 'NSAIDs blunt the blood-pressure effect and raise the risk of acute kidney injury.', advice: 'Avoid regular NSAID use; monitor blood pressure and kidney function.' },
+  { between: ['loop-diuretic', 'nsaid'], severity: 'Moderate', effect: 'NSAIDs reduce the diuretic effect and raise the risk of kidney injury.', advice: 'Avoid regular NSAID use; monitor fluid status and kidney function.' },
+  { between: ['thiazide', 'nsaid'], severity: 'Moderate', effect: 'NSAIDs reduce the diuretic and antihypertensive effect.', advice: 'Avoid regular NSAID use; monitor blood pressure.' },
+  { between: ['beta-blocker', 'ccb-nondhp'], severity: 'Major', effect: 'Additive slowing of heart rate and conduction; risk of bradycardia, heart block and heart failure.', advice: 'Use together only under specialist supervision with heart-rate monitoring.' },
+  { between: ['digoxin', 'amiodarone'], severity: 'Major', effect: 'Amiodarone raises digoxin levels and the risk of toxicity.', advice: 'Digoxin dose usually needs halving; check digoxin levels.' },
+  { between: ['digoxin', 'verapamil'], severity: 'Major', effect: 'Verapamil raises digoxin levels and adds to AV-node slowing.', advice: 'Reduce digoxin dose and monitor levels and heart rate.' },
+  { between: ['simvastatin', 'strong-cyp3a4-inhibitor'], severity: 'Contraindicated', effect: 'Greatly raised simvastatin levels with a high risk of myopathy and rhabdomyolysis.', advice: 'Suspend simvastatin for the course or choose a non-interacting antimicrobial.' },
+  { between: ['lovastatin', 'strong-cyp3a4-inhibitor'], severity: 'Contraindicated', effect: 'Greatly raised lovastatin levels with a high risk of myopathy and rhabdomyolysis.', advice: 'Suspend lovastatin for the course or choose a non-interacting antimicrobial.' },
+  { between: ['atorvastatin', 'strong-cyp3a4-inhibitor'], severity: 'Major', effect: 'Raised atorvastatin levels and myopathy risk.', advice: 'Use the lowest atorvastatin dose or pause it for the course.' },
+  { between: ['simvastatin', 'amiodarone'], severity: 'Major', effect: 'Raised simvastatin levels and myopathy risk.', advice: 'Do not exceed simvastatin 20 mg daily.' },
+  { between: ['simvastatin', 'ccb-nondhp'], severity: 'Moderate', effect: 'Raised simvastatin levels and myopathy risk.', advice: 'Do not exceed simvastatin 10 mg daily.' },
+  { between: ['simvastatin', 'amlodipine'], severity: 'Moderate', effect: 'Raised simvastatin levels and myopathy risk.', advice: 'Do not exceed simvastatin 20 mg daily.' },
+  { between: ['ssri', 'tramadol'], severity: 'Major', effect: 'Risk of serotonin syndrome and lowered seizure threshold.', advice: 'Prefer another analgesic; watch for agitation, tremor, fever or fast heart rate.' },
+  { between: ['ssri', 'triptan'], severity: 'Moderate', effect: 'Possible serotonin syndrome.', advice: 'Usually compatible; seek care for agitation, tremor or fever.' },
+  { between: ['ssri', 'nsaid'], severity: 'Moderate', effect: 'Increased gastrointestinal bleeding risk.', advice: 'Consider gastroprotection with regular NSAID use.' },
+  { between: ['ssri', 'lithium'], severity: 'Moderate', effect: 'Possible serotonin syndrome.', advice: 'Monitor for serotonergic symptoms.' },
+  { between: ['opioid', 'benzodiazepine'], severity: 'Major', effect: 'Profound sedation, respiratory depression, coma and death.', advice: 'Avoid the combination; if unavoidable use the lowest doses and keep naloxone available.' },
+  { between: ['pde5-inhibitor', 'nitrate'], severity: 'Contraindicated', effect: 'Severe, potentially fatal hypotension.', advice: 'Never combine; do not take a nitrate within 24–48 hours of a PDE5 inhibitor.' },
+  { between: ['lithium', 'nsaid'], severity: 'Major', effect: 'NSAIDs reduce lithium clearance and can cause toxicity.', advice: 'Avoid or check lithium levels within a week.' },
+  { between: ['lithium', 'raas-blocker'], severity: 'Major', effect: 'RAAS blockers reduce lithium clearance and can cause toxicity.', advice: 'Check lithium levels after starting or changing the dose.' },
+  { between: ['lithium', 'thiazide'], severity: 'Major', effect: 'Thiazides reduce lithium clearance and can cause toxicity.', advice: 'Avoid or reduce lithium dose with close level monitoring.' },
+  { between: ['methotrexate', 'sulfamethoxazole-trimethoprim'], severity: 'Major', effect: 'Additive folate antagonism with risk of bone-marrow suppression.', advice: 'Avoid the combination.' },
+  { between: ['methotrexate', 'nsaid'], severity: 'Moderate', effect: 'NSAIDs reduce methotrexate clearance.', advice: 'Generally acceptable with low-dose methotrexate; monitor blood counts and kidney function.' },
+  { between: ['levothyroxine', 'divalent-cation'], severity: 'Moderate', effect: 'Calcium and iron bind levothyroxine and reduce its absorption.', advice: 'Take levothyroxine at least 4 hours apart from the supplement.' },
+  { between: ['fluoroquinolone', 'corticosteroid'], severity: 'Moderate', effect: 'Increased risk of tendinitis and tendon rupture.', advice: 'Stop and seek advice at the first sign of tendon pain.' },
+  { between: ['fluoroquinolone', 'divalent-cation'], severity: 'Moderate', effect: 'Calcium and iron reduce fluoroquinolone absorption.', advice: 'Take the antibiotic 2 hours before or 6 hours after the supplement.' },
+  { between: ['sulfonylurea', 'fluconazole'], severity: 'Moderate', effect: 'Fluconazole raises sulfonylurea levels and the risk of hypoglycaemia.', advice: 'Monitor blood glucose more often during the course.' },
+  { between: ['insulin', 'beta-blocker'], severity: 'Minor', effect: 'Beta blockers can mask the warning signs of hypoglycaemia.', advice: 'Rely on glucose readings rather than symptoms.' },
+  { between: ['sulfonylurea', 'beta-blocker'], severity: 'Minor', effect: 'Beta blockers can mask the warning signs of hypoglycaemia.', advice: 'Rely on glucose readings rather than symptoms.' }
+];
+
+const DRUG_CONDITION_RULES: DrugConditionRule[] = [
+  { drug: 'nsaid', conditions: ['chronic kidney disease', 'ckd', 'kidney disease', 'renal disease', 'renal failure', 'renal insufficiency', 'renal impairment'], severity: 'Major', effect: 'NSAIDs can worsen kidney function.', advice: 'Avoid NSAIDs; prefer acetaminophen.' },
+  { drug: 'nsaid', conditions: ['heart failure', 'chf', 'cardiac failure'], severity: 'Major', effect: 'NSAIDs cause fluid retention and can precipitate heart-failure decompensation.', advice: 'Avoid NSAIDs.' },
+  { drug: 'nsaid', conditions: ['peptic ulcer', 'gastric ulcer', 'duodenal ulcer', 'gi bleed', 'gastrointestinal bleed', 'gastrointestinal bleeding'], severity: 'Major', effect: 'High risk of recurrent ulceration and bleeding.', advice: 'Avoid NSAIDs, or use with a PPI only if essential.' },
+  { drug: 'anticoagulant', conditions: ['gi bleed', 'gastrointestinal bleed', 'gastrointestinal bleeding', 'peptic ulcer', 'bleeding disorder', 'hemophilia', 'haemophilia'], severity: 'Major', effect: 'Increased risk of serious bleeding.', advice: 'Review the indication and bleeding risk with the prescriber.' },
+  { drug: 'metformin', conditions: ['chronic kidney disease', 'ckd', 'kidney disease', 'renal failure', 'renal insufficiency', 'renal impairment'], severity: 'Moderate', effect: 'Reduced clearance raises the risk of lactic acidosis; contraindicated below an eGFR of 30.', advice: 'Check the latest eGFR and adjust the dose.' },
+  { drug: 'nonselective-beta-blocker', conditions: ['asthma'], severity: 'Major', effect: 'Non-selective beta blockade can trigger bronchospasm.', advice: 'Prefer a cardioselective beta blocker.' },
+  { drug: 'ccb-nondhp', conditions: ['heart failure', 'chf', 'cardiac failure'], severity: 'Major', effect: 'Negative inotropy can worsen heart failure with reduced ejection fraction.', advice: 'Avoid in reduced ejection fraction.' },
+  { drug: 'raas-blocker', conditions: ['pregnancy', 'pregnant'], severity: 'Contraindicated', effect: 'ACE inhibitors and ARBs cause fetal kidney damage.', advice: 'Switch to a pregnancy-compatible antihypertensive.' },
+  { drug: 'warfarin', conditions: ['pregnancy', 'pregnant'], severity: 'Major', effect: 'Warfarin is teratogenic.', advice: 'Specialist review; heparins are usually preferred in pregnancy.' },
+  { drug: 'decongestant', conditions: ['hypertension', 'high blood pressure'], severity: 'Moderate', effect: 'Oral decongestants raise blood pressure.', advice: 'Prefer a saline or steroid nasal spray.' },
+  { drug: 'corticosteroid', conditions: ['diabetes', 'diabetes mellitus', 't2dm', 't1dm'], severity: 'Moderate', effect: 'Systemic corticosteroids raise blood glucose.', advice: 'Monitor glucose more often during the course.' },
+  { drug: 'opioid', conditions: ['sleep apnea', 'sleep apnoea', 'copd', 'chronic obstructive pulmonary disease'], severity: 'Moderate', effect: 'Increased risk of respiratory depression.', advice: 'Use the lowest effective dose.' },
+  { drug: 'benzodiazepine', conditions: ['sleep apnea', 'sleep apnoea', 'copd', 'chronic obstructive pulmonary disease'], severity: 'Moderate', effect: 'Increased risk of respiratory depression.', advice: 'Avoid where possible.' },
+  { drug: 'tramadol', conditions: ['epilepsy', 'seizure disorder', 'seizures'], severity: 'Major', effect: 'Tramadol lowers the seizure threshold.', advice: 'Prefer another analgesic.' },
+  { drug: 'thiazide', conditions: ['gout'], severity: 'Moderate', effect: 'Thiazides raise uric acid and can provoke gout flares.', advice: 'Consider an alternative antihypertensive.' },
+  { drug: 'acetaminophen', conditions: ['liver disease', 'cirrhosis', 'hepatitis', 'hepatic impairment'], severity: 'Moderate', effect: 'Reduced capacity to clear acetaminophen safely.', advice: 'Keep to a reduced daily maximum, commonly 2 g.' }
+];
+
+const DRUG_LOOKUP = DRUG_DEFINITIONS.map(drug => ({
+  drug,
+  patterns: drug.synonyms.map(s => new RegExp(`(^|[^a-z0-9])${s.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&')}($|[^a-z0-9])`))
+}));
+
+const THERAPEUTIC_CLASS_INDEX = new Map(THERAPEUTIC_CLASSES.map(c => [c.id, c]));
+
+// Longest synonym wins, so "esomeprazole" is never read as "omeprazole" inside a longer name.
+const identifyDrug = (name: string): DrugDefinition | undefined => {
+  const key = normalizeKey(name);
+  let best: { drug: DrugDefinition, length: number } | undefined;
+  for (const { drug, patterns } of DRUG_LOOKUP) {
+    patterns.forEach((pattern, i) => {
+      const length = drug.synonyms[i].length;
+      if (pattern.test(key) && (!best || length > best.length)) best = { drug, length };
+    });
+  }
+  return best?.drug;
+};
+
+const drugMatches = (drug: DrugDefinition, ref: string) => drug.id === ref || drug.classes.includes(ref);
+
+// Resolved and inactive conditions no longer restrict prescribing.
+const isActiveCondition = (entry: MedicalHistoryEntry) => {
+  const status = toFhirStatus(entry.status);
+  return status !== 'resolved' && status !== 'inactive' && status !== 'remission';
+};
+
+const conditionMatches = (entry: MedicalHistoryEntry, terms: string[]) => {
+  const key = ` ${normalizeKey(entry.condition).replace(/[^a-z0-9]+/g, ' ')} `;
+  return terms.some(term => key.includes(` ${term} `));
+};
+
+// The subset of a finding that is sent to the model; ids and advice are display-only.
+type InteractionContext = Pick<InteractionFinding, 'kind' | 'severity' | 'subjects' | 'effect'>;
+
+const toInteractionContext = ({ kind, severity, subjects, effect }: InteractionFinding): InteractionContext => ({ kind, severity, subjects, effect });
+
+// Checks the whole medication list against itself and the active history. Medications the dataset does not
+// recognise are skipped silently; callers show `unrecognisedMedications` so the gap is visible.
+const checkInteractions = (profile: Pick<PatientProfile, 'medications' | 'history'>) => {
+  const identified = profile.medications
+    .map(medication => ({ medication, drug: identifyDrug(medication.name) }))
+    .filter((m): m is { medication: Medication, drug: DrugDefinition } => m.drug !== undefined);
+  const findings: InteractionFinding[] = [];
+
+  identified.forEach((a, i) => identified.slice(i + 1).forEach(b => {
+    const pair = [a.medication, b.medication];
+    const base = { subjects: pair.map(m => m.name), medicationIds: pair.map(m => m.id) };
+
+    if (a.drug.id === b.drug.id) {
+      findings.push({ ...base, id: `dup:${a.medication.id}:${b.medication.id}`, kind: 'duplicate', severity: 'Major', effect: `Both entries are ${a.drug.name}; the patient may be taking a double dose.`, advice: 'Confirm which entry is current and remove the other.' });
+      return;
+    }
+    a.drug.classes.forEach(classId => {
+      const cls = THERAPEUTIC_CLASS_INDEX.get(classId);
+      if (!cls?.duplicateSeverity || !b.drug.classes.includes(classId)) return;
+      findings.push({ ...base, id: `dup:${classId}:${a.medication.id}:${b.medication.id}`, kind: 'duplicate', severity: cls.duplicateSeverity, effect: `Two ${cls.name.toLowerCase()} are prescribed together.`, advice: 'Confirm both are intended; one is usually replaced rather than added to.' });
+    });
+    DRUG_INTERACTION_RULES.forEach((rule, r) => {
+      const [x, y] = rule.between;
+      if ((drugMatches(a.drug, x) && drugMatches(b.drug, y)) || (drugMatches(a.drug, y) && drugMatches(b.drug, x))) {
+        findings.push({ ...base, id: `ddi:${r}:${a.medication.id}:${b.medication.id}`, kind: 'drug-drug', severity: rule.severity, effect: rule.effect, advice: rule.advice });
+      }
+    });
+  }));
+
+  const activeHistory = profile.history.filter(isActiveCondition);
+  identified.forEach(({ medication, drug }) => DRUG_CONDITION_RULES.forEach((rule, r) => {
+    if (!drugMatches(drug, rule.drug)) return;
+    const condition = activeHistory.find(h => conditionMatches(h, rule.conditions));
+    if (!condition) return;
+    findings.push({ id: `dci:${r}:${medication.id}`, kind: 'drug-condition', severity: rule.severity, subjects: [medication.name, condition.condition], medicationIds: [medication.id], effect: rule.effect, advice: rule.advice });
+  }));
+
+  return {
+    findings: findings.sort((a, b) => INTERACTION_SEVERITY_RANK[b.severity] - INTERACTION_SEVERITY_RANK[a.severity]),
+    unrecognisedMedications: profile.medications.filter(m => !identified.some(i => i.medication === m))
+  };
+};
+
+// --- CLINICAL ALERTS ---
+
+// `critical-range` fires on any reading the reference table grades Critical; the other kinds name a dictionary
+// code and are expressed in that parameter's canonical unit.
+type AlertRule = { id: string, enabled: boolean, level: AlertLevel } & (
+  | { kind: 'critical-range' }
+  | { kind: 'threshold', code: string, above?: number, below?: number }
+  | { kind: 'change', code: string, direction: 'rise' | 'fall', percent: number, withinDays: number }
+  // Due while the patient has an active condition matching `conditions` or takes a medication matching `drugs`
+  // (drug or class ids from the interaction dataset).
+  | { kind: 'follow-up', code: string, everyDays: number, conditions: string[], drugs: string[] }
+);
+
+type AlertRuleKind = AlertRule['kind'];
+
+type AlertFinding = Omit<ClinicalAlert, 'id' | 'raisedAt' | 'acknowledgedAt' | 'acknowledgedBy' | 'resolvedAt'>;
+
+const ALERT_RULES_KEY = 'medaid_alert_rules';
+const ALERT_RULE_KINDS: AlertRuleKind[] = ['critical-range', 'threshold', 'change', 'follow-up'];
+const DAY_MS = 86_400_000;
+// Readings already this old when first evaluated are history rather than news, so they never raise an alert.
+const ALERT_LOOKBACK_DAYS = 90;
+
+const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'critical-range', kind: 'critical-range', enabled: true, level: 'critical' },
+  { id: 'potassium-high', kind: 'threshold', code: '2823-3', above: 6, enabled: true, level: 'critical' },
+  { id: 'spo2-low', kind: 'threshold', code: '59408-5', below: 92, enabled: true, level: 'warning' },
+  { id: 'creatinine-rise', kind: 'change', code: '2160-0', direction: 'rise', percent: 30, withinDays: 90, enabled: true, level: 'critical' },
+  { id: 'egfr-fall', kind: 'change', code: '62238-1', direction: 'fall', percent: 25, withinDays: 365, enabled: true, level: 'warning' },
+  { id: 'hemoglobin-fall', kind: 'change', code: '718-7', direction: 'fall', percent: 20, withinDays: 90, enabled: true, level: 'warning' },
+  { id: 'weight-fall', kind: 'change', code: '29463-7', direction: 'fall', percent: 5, withinDays: 180, enabled: true, level: 'warning' },
+  { id: 'hba1c-follow-up', kind: 'follow-up', code: '4548-4', everyDays: 183, conditions: ['diabetes', 't1dm', 't2dm'], drugs: [], enabled: true, level: 'warning' },
+  { id: 'creatinine-follow-up', kind: 'follow-up', code: '2160-0', everyDays: 365, conditions: ['chronic kidney disease', 'ckd', 'renal impairment'], drugs: ['raas-blocker', 'potassium-sparing', 'metformin'], enabled: true, level: 'warning' },
+  { id: 'potassium-follow-up', kind: 'follow-up', code: '2823-3', everyDays: 365, conditions: [], drugs: ['raas-blocker', 'potassium-sparing'], enabled: true, level: 'warning' },
+  { id: 'ldl-follow-up', kind: 'follow-up', code: '2089-1', everyDays: 365, conditions: [], drugs: ['statin'], enabled: true, level: 'warning' }
+];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPositiveNumber = (value: unknown) => isFiniteNumber(value) && value > 0;
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// A saved rule is only evaluated when every field its kind needs is present and well-formed.
+const isAlertRule = (value: unknown): value is AlertRule => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.enabled !== 'boolean') return false;
+  if (value.level !== 'critical' && value.level !== 'warning') return false;
+  switch (value.kind) {
+    case 'critical-range':
+      return true;
+    case 'threshold':
+      return typeof value.code === 'string' && (value.above === undefined || isFiniteNumber(value.above)) && (value.below === undefined || isFiniteNumber(value.below));
+    case 'change':
+      return typeof value.code === 'string' && (value.direction === 'rise' || value.direction === 'fall') && isPositiveNumber(value.percent) && isPositiveNumber(value.withinDays);
+    case 'follow-up':
+      return typeof value.code === 'string' && isPositiveNumber(value.everyDays) && isStringList(value.conditions) && isStringList(value.drugs);
+    default:
+      return false;
+  }
+};
+
+// Runs at module load, so rules that cannot be read fall back to the defaults instead of stopping the app.
+const loadAlertRules = (): AlertRule[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(ALERT_RULES_KEY) || 'null');
+    return Array.isArray(parsed) ? parsed.filter(isAlertRule) : DEFAULT_ALERT_RULES;
+  } catch (e) {
+    console.error("Alert rules read error", e);
+    return DEFAULT_ALERT_RULES;
+  }
+};
+
+let alertRules = loadAlertRules();
+
+const getAlertRules = () => alertRules;
+
+const saveAlertRules = (rules: AlertRule[]) => {
+  alertRules = rules;
+  localStorage.setItem(ALERT_RULES_KEY, JSON.stringify(rules));
+};
+
+const formatAlertValue = (value: number) => String(Math.round(value * 100) / 100);
+const formatAlertDate = (ts: number) => new Date(ts).toLocaleDateString();
+
+const describeLimits = (below: number | undefined, above: number | undefined, unit: string) =>
+  [below !== undefined && `below ${below}`, above !== undefined && `above ${above}`].filter(Boolean).join(' or ') + ` ${unit}`;
+
+// Readings of one dictionary code that carry a canonical value, oldest first.
+const numericSeries = (vitals: VitalsRecord[], code: string) =>
+  vitals.filter(v => v.code === code && v.value !== undefined).sort((a, b) => a.timestamp - b.timestamp);
+
+const evaluateAlertRule = (rule: AlertRule, profile: PatientProfile, now: number): AlertFinding[] => {
+  const base = { ruleId: rule.id, level: rule.level };
+  const reading = (v: VitalsRecord) => `${v.parameter} ${formatAlertValue(v.value!)} ${v.canonicalUnit ?? v.unit}`;
+  switch (rule.kind) {
+    case 'critical-range':
+      return profile.vitals.filter(v => v.severity === 'Critical' && v.severitySource === 'reference' && v.value !== undefined).map(v => {
+        const range = findReferenceRange(v.code!, profile);
+        return {
+          ...base, key: `value:${v.id}`, title: `Critical ${reading(v)}`, vitalIds: [v.id], observedAt: v.timestamp,
+          detail: `Recorded ${formatAlertDate(v.timestamp)}. Critical for this patient when ${describeLimits(range?.criticalLow, range?.criticalHigh, v.canonicalUnit ?? '')}.`
+        };
+      });
+    case 'threshold':
+      return numericSeries(profile.vitals, rule.code)
+        .filter(v => (rule.above !== undefined && v.value! > rule.above) || (rule.below !== undefined && v.value! < rule.below))
+        .map(v => ({
+          ...base, key: `value:${v.id}`, title: reading(v), vitalIds: [v.id], observedAt: v.timestamp,
+          detail: `Recorded ${formatAlertDate(v.timestamp)}. Alert threshold: ${describeLimits(rule.below, rule.above, v.canonicalUnit ?? '')}.`
+        }));
+    case 'change': {
+      const series = numericSeries(profile.vitals, rule.code);
+      const latest = series[series.length - 1];
+      if (!latest) return [];
+      // The latest reading is compared with the lowest (or highest) earlier one in the window, so a slow drift
+      // is caught as well as a sudden jump.
+      const baseline = series
+        .filter(v => v !== latest && v.timestamp >= latest.timestamp - rule.withinDays * DAY_MS)
+        .reduce<VitalsRecord | undefined>((best, v) => !best || (rule.direction === 'rise' ? v.value! < best.value! : v.value! > best.value!) ? v : best, undefined);
+      if (!baseline || baseline.value! <= 0) return [];
+      const change = (latest.value! - baseline.value!) / baseline.value! * 100;
+      if ((rule.direction === 'rise' ? change : -change) < rule.percent) return [];
+      const days = Math.max(1, Math.round((latest.timestamp - baseline.timestamp) / DAY_MS));
+      return [{
+        ...base, key: `change:${rule.id}:${latest.id}`, vitalIds: [baseline.id, latest.id], observedAt: latest.timestamp,
+        title: `${latest.parameter} ${rule.direction === 'rise' ? 'rose' : 'fell'} ${Math.round(Math.abs(change))}% in ${days} day${days === 1 ? '' : 's'}`,
+        detail: `${formatAlertValue(baseline.value!)} on ${formatAlertDate(baseline.timestamp)} to ${formatAlertValue(latest.value!)} ${latest.canonicalUnit ?? latest.unit} on ${formatAlertDate(latest.timestamp)}. Rule: a ${rule.direction} of ${rule.percent}% within ${rule.withinDays} days.`
+      }];
+    }
+    case 'follow-up': {
+      const condition = profile.history.filter(isActiveCondition).find(h => conditionMatches(h, rule.conditions));
+      const medication = profile.medications.find(m => {
+        const drug = identifyDrug(m.name);
+        return drug !== undefined && rule.drugs.some(ref => drugMatches(drug, ref));
+      });
+      if (!condition && !medication) return [];
+      const last = profile.vitals.filter(v => v.code === rule.code).reduce<VitalsRecord | undefined>((a, v) => !a || v.timestamp > a.timestamp ? v : a, undefined);
+      if (last && now - last.timestamp <= rule.everyDays * DAY_MS) return [];
+      const reason = condition ? `for ${condition.condition}` : `while taking ${medication!.name}`;
+      return [{
+        ...base, key: `follow-up:${rule.id}:${last?.id ?? 'never'}`, vitalIds: last ? [last.id] : [], observedAt: now,
+        title: `${findParameterByCode(rule.code)?.name ?? rule.code} follow-up overdue`,
+        detail: `${last ? `Last recorded ${formatAlertDate(last.timestamp)}` : 'None on record'}; due every ${rule.everyDays} days ${reason}.`
+      }];
+    }
+  }
+};
+
+// A reading flagged by several rules raises one alert: the most severe, then the earliest rule.
+const evaluateAlertRules = (profile: PatientProfile, rules: AlertRule[], now: number) => {
+  const findings = new Map<string, AlertFinding>();
+  rules.filter(r => r.enabled).flatMap(r => evaluateAlertRule(r, profile, now)).forEach(f => {
+    const current = findings.get(f.key);
+    if (!current || (f.level === 'critical' && current.level === 'warning')) findings.set(f.key, f);
+  });
+  return findings;
+};
+
+// Raises new findings, resolves alerts whose finding has gone and reopens any that came back (an undone
+// deletion, say). Returns the same array when nothing changed so callers can skip the update.
+const reconcileAlerts = (alerts: ClinicalAlert[], findings: Map<string, AlertFinding>, now: number) => {
+  let changed = false;
+  const next = alerts.map(a => {
+    const live = findings.has(a.key);
+    if (live === (a.resolvedAt === undefined)) return a;
+    changed = true;
+    return { ...a, resolvedAt: live ? undefined : now };
+  });
+  const known = new Set(alerts.map(a => a.key));
+  findings.forEach(f => {
+    if (known.has(f.key) || now - f.observedAt > ALERT_LOOKBACK_DAYS * DAY_MS) return;
+    changed = true;
+    next.push({ ...f, id: newId(), raisedAt: now });
+  });
+  return changed ? next : alerts;
+};
+
+const refreshAlerts = (record: PatientRecord, rules: AlertRule[], now: number): PatientRecord => {
+  const alerts = reconcileAlerts(record.alerts, evaluateAlertRules(record.profile, rules, now), now);
+  return alerts === record.alerts ? record : { ...record, alerts };
+};
+
+const isOpenAlert = (a: ClinicalAlert) => a.acknowledgedAt === undefined && a.resolvedAt === undefined;
+
+// --- CLINICAL CALCULATORS ---
+
+// One line of a calculator's working. `value` is undefined when the input is missing; `at` is when the
+// underlying reading was taken, for inputs that come from vitals.
+interface CalculatorInput {
+  label: string;
+  value?: string;
+  at?: number;
+}
+
+// `value` is only set when every required input is present and the patient is within the score's population;
+// `missing` then says what to record and `notes` why a result is withheld or should be read with care.
+interface CalculatorResult {
+  id: 'bmi' | 'egfr' | 'ascvd';
+  name: string;
+  unit: string;
+  value?: number;
+  category?: string;
+  severity?: Severity;
+  inputs: CalculatorInput[];
+  missing: string[];
+  notes: string[];
+  reference: string;
+}
+
+// Inputs older than this still count but are called out, since they may no longer reflect the patient.
+const CALCULATOR_STALE_DAYS = 365;
+
+const LOINC_WEIGHT = '29463-7';
+const LOINC_HEIGHT = '8302-2';
+const LOINC_CREATININE = '2160-0';
+const LOINC_TOTAL_CHOLESTEROL = '2093-3';
+const LOINC_HDL = '2085-9';
+const LOINC_SYSTOLIC = '8480-6';
+
+const ANTIHYPERTENSIVE_CLASSES = ['raas-blocker', 'thiazide', 'loop-diuretic', 'potassium-sparing', 'beta-blocker', 'ccb-dhp', 'ccb-nondhp'];
+const DIABETES_TERMS = ['diabetes', 't1dm', 't2dm'];
+const SMOKING_TERMS = ['smoker', 'smoking', 'tobacco use', 'tobacco dependence', 'nicotine dependence'];
+const FORMER_SMOKER_TERMS = ['former', 'ex', 'quit', 'previous', 'history of'];
+const ASCVD_TERMS = ['coronary artery disease', 'cad', 'myocardial infarction', 'heart attack', 'stroke', 'peripheral artery disease', 'angina', 'atherosclerotic cardiovascular disease', 'ascvd'];
+
+// The most recent coded reading with a canonical value.
+const latestValue = (vitals: VitalsRecord[], code: string) =>
+  vitals.reduce<VitalsRecord | undefined>((a, v) => v.code === code && v.value !== undefined && (!a || v.timestamp > a.timestamp) ? v : a, undefined);
+
+const readingInput = (label: string, v: VitalsRecord | undefined): CalculatorInput =>
+  v ? { label, value: `${formatAlertValue(v.value!)} ${v.canonicalUnit ?? v.unit}`, at: v.timestamp } : { label };
+
+const staleNotes = (inputs: CalculatorInput[], now: number) => inputs
+  .filter(i => i.at !== undefined && now - i.at > CALCULATOR_STALE_DAYS * DAY_MS)
+  .map(i => `${i.label} is from ${formatAlertDate(i.at!)}, over a year ago.`);
+
+const findActiveCondition = (profile: PatientProfile, terms: string[]) =>
+  profile.history.filter(isActiveCondition).find(h => conditionMatches(h, terms));
+
+const findMedicationIn = (profile: PatientProfile, refs: string[]) => profile.medications.find(m => {
+  const drug = identifyDrug(m.name);
+  return drug !== undefined && refs.some(ref => drugMatches(drug, ref));
+});
+
+const demographicInputs = (profile: PatientProfile): CalculatorInput[] => [
+  { label: 'Age', value: profile.age === undefined ? undefined : `${profile.age} years` },
+  { label: 'Sex', value: profile.sex }
+];
+
+const demographicsMissing = (profile: PatientProfile) => [
+  profile.age === undefined && "Add the patient's age.",
+  !profile.sex && "Add the patient's sex."
+].filter((m): m is string => !!m);
+
+// WHO adult categories, in kg/m².
+const BMI_CATEGORIES: { below: number, category: string, severity: Severity }[] = [
+  { below: 16, category: 'Severely underweight', severity: 'Critical' },
+  { below: 18.5, category: 'Underweight', severity: 'Elevated' },
+  { below: 25, category: 'Healthy weight', severity: 'Normal' },
+  { below: 30, category: 'Overweight', severity: 'Elevated' },
+  { below: 40, category: 'Obese', severity: 'Elevated' },
+  { below: Infinity, category: 'Severely obese', severity: 'Critical' }
+];
+
+const calculateBmi = (profile: PatientProfile, now: number): CalculatorResult => {
+  const weight = latestValue(profile.vitals, LOINC_WEIGHT);
+  const height = latestValue(profile.vitals, LOINC_HEIGHT);
+  const inputs = [readingInput('Weight', weight), readingInput('Height', height)];
+  const result: CalculatorResult = {
+    id: 'bmi', name: 'Body Mass Index', unit: 'kg/m²', inputs,
+    missing: [!weight && 'Record a body weight.', !height && 'Record a height.'].filter((m): m is string => !!m),
+    notes: staleNotes(inputs, now),
+    reference: 'Weight (kg) ÷ height (m)². Categories: WHO adult classification.'
+  };
+  if (!weight || !height || height.value! <= 0) return result;
+  const value = Math.round(weight.value! / (height.value! / 100) ** 2 * 10) / 10;
+  if (profile.age !== undefined && profile.age < 18) {
+    return { ...result, value, notes: [...result.notes, 'Adult categories do not apply under 18; use BMI-for-age percentiles.'] };
+  }
+  const { category, severity } = BMI_CATEGORIES.find(c => value < c.below)!;
+  return { ...result, value, category, severity };
+};
+
+// KDIGO GFR categories, in mL/min/1.73m².
+const EGFR_CATEGORIES: { atLeast: number, category: string, severity: Severity }[] = [
+  { atLeast: 90, category: 'G1 Normal or high', severity: 'Normal' },
+  { atLeast: 60, category: 'G2 Mildly decreased', severity: 'Normal' },
+  { atLeast: 45, category: 'G3a Mildly to moderately decreased', severity: 'Elevated' },
+  { atLeast: 30, category: 'G3b Moderately to severely decreased', severity: 'Elevated' },
+  { atLeast: 15, category: 'G4 Severely decreased', severity: 'Critical' },
+  { atLeast: 0, category: 'G5 Kidney failure', severity: 'Critical' }
+];
+
+const calculateEgfr = (profile: PatientProfile, now: number): CalculatorResult => {
+  const creatinine = latestValue(profile.vitals, LOINC_CREATININE);
+  const inputs = [readingInput('Serum creatinine', creatinine), ...demographicInputs(profile)];
+  const result: CalculatorResult = {
+    id: 'egfr', name: 'eGFR (CKD-EPI 2021)', unit: 'mL/min/1.73m²', inputs,
+    missing: [...(creatinine ? [] : ['Record a serum creatinine.']), ...demographicsMissing(profile)],
+    notes: staleNotes(inputs, now),
+    reference: '142 × min(Scr/κ, 1)^α × max(Scr/κ, 1)^−1.200 × 0.9938^age (× 1.012 if female); κ 0.7 F / 0.9 M, α −0.241 F / −0.302 M. Inker et al., NEJM 2021. Categories: KDIGO 2012.'
+  };
+  if (!creatinine || creatinine.value! <= 0 || profile.age === undefined || !profile.sex) return result;
+  if (profile.age < 18) return { ...result, notes: [...result.notes, 'CKD-EPI is validated for adults only.'] };
+  const female = profile.sex === 'female';
+  const ratio = creatinine.value! / (female ? 0.7 : 0.9);
+  const value = Math.round(142 * Math.min(ratio, 1) ** (female ? -0.241 : -0.302) * Math.max(ratio, 1) ** -1.2 * 0.9938 ** profile.age * (female ? 1.012 : 1));
+  const { category, severity } = EGFR_CATEGORIES.find(c => value >= c.atLeast)!;
+  return { ...result, value, category, severity };
+};
+
+interface PooledCohortCoefficients {
+  lnAge: number;
+  lnAgeSquared: number;
+  lnTotalCholesterol: number;
+  lnAgeLnTotalCholesterol: number;
+  lnHdl: number;
+  lnAgeLnHdl: number;
+  lnTreatedSbp: number;
+  lnUntreatedSbp: number;
+  smoker: number;
+  lnAgeSmoker: number;
+  diabetes: number;
+  baselineSurvival: number;
+  meanSum: number;
+}
+
+// Goff et al., Circulation 2014, Table A; the white and other-race equations.
+const POOLED_COHORT_COEFFICIENTS: Record<Sex, PooledCohortCoefficients> = {
+  female: {
+    lnAge: -29.799, lnAgeSquared: 4.884, lnTotalCholesterol: 13.54, lnAgeLnTotalCholesterol: -3.114, lnHdl: -13.578, lnAgeLnHdl: 3.149,
+    lnTreatedSbp: 2.019, lnUntreatedSbp: 1.957, smoker: 7.574, lnAgeSmoker: -1.665, diabetes: 0.661, baselineSurvival: 0.9665, meanSum: -29.18
+  },
+  male: {
+    lnAge: 12.344, lnAgeSquared: 0, lnTotalCholesterol: 11.853, lnAgeLnTotalCholesterol: -2.664, lnHdl: -7.99, lnAgeLnHdl: 1.769,
+    lnTreatedSbp: 1.797, lnUntreatedSbp: 1.764, smoker: 7.837, lnAgeSmoker: -1.795, diabetes: 0.658, baselineSurvival: 0.9144, meanSum: 61.18
+  }
+};
+
+// ACC/AHA 2018 risk categories, in percent.
+const ASCVD_CATEGORIES: { below: number, category: string, severity: Severity }[] = [
+  { below: 5, category: 'Low risk', severity: 'Normal' },
+  { below: 7.5, category: 'Borderline risk', severity: 'Elevated' },
+  { below: 20, category: 'Intermediate risk', severity: 'Elevated' },
+  { below: Infinity, category: 'High risk', severity: 'Critical' }
+];
+
+const calculateAscvdRisk = (profile: PatientProfile, now: number): CalculatorResult => {
+  const totalCholesterol = latestValue(profile.vitals, LOINC_TOTAL_CHOLESTEROL);
+  const hdl = latestValue(profile.vitals, LOINC_HDL);
+  const systolic = latestValue(profile.vitals, LOINC_SYSTOLIC);
+  const treatment = findMedicationIn(profile, ANTIHYPERTENSIVE_CLASSES);
+  const diabetes = findActiveCondition(profile, DIABETES_TERMS);
+  const smoking = profile.history.filter(isActiveCondition).find(h => conditionMatches(h, SMOKING_TERMS) && !conditionMatches(h, FORMER_SMOKER_TERMS));
+  const established = findActiveCondition(profile, ASCVD_TERMS);
+  const inputs: CalculatorInput[] = [
+    ...demographicInputs(profile),
+    readingInput('Total cholesterol', totalCholesterol),
+    readingInput('HDL cholesterol', hdl),
+    readingInput('Systolic blood pressure', systolic),
+    { label: 'Treated for hypertension', value: treatment ? `Yes (${treatment.name})` : 'No' },
+    { label: 'Diabetes', value: diabetes ? `Yes (${diabetes.condition})` : 'No' },
+    { label: 'Current smoker', value: smoking ? `Yes (${smoking.condition})` : 'No' }
+  ];
+  const result: CalculatorResult = {
+    id: 'ascvd', name: '10-Year ASCVD Risk', unit: '%', inputs,
+    missing: [
+      ...demographicsMissing(profile),
+      !totalCholesterol && 'Record a total cholesterol.',
+      !hdl && 'Record an HDL cholesterol.',
+      !systolic && 'Record a blood pressure.'
+    ].filter((m): m is string => !!m),
+    notes: [
+      ...staleNotes(inputs, now),
+      'Treatment, diabetes and smoking are read from the medication list and active history.',
+      'Uses the equations for white and other patients; separate coefficients for African American patients need ethnicity, which is not recorded.'
+    ],
+    reference: '2013 ACC/AHA Pooled Cohort Equations (Goff et al., Circulation 2014): 1 − S₁₀^exp(Σβx − mean). Categories: 2018 ACC/AHA cholesterol guideline.'
+  };
+  if (!totalCholesterol || !hdl || !systolic || profile.age === undefined || !profile.sex) return result;
+  if (established) {
+    return { ...result, notes: [`${established.condition} is on record; this primary-prevention estimate does not apply to established atherosclerotic disease.`, ...result.notes] };
+  }
+  if (profile.age < 40 || profile.age > 79) {
+    return { ...result, notes: ['The Pooled Cohort Equations are validated for ages 40–79.', ...result.notes] };
+  }
+  const outOfRange = [
+    (totalCholesterol.value! < 130 || totalCholesterol.value! > 320) && 'total cholesterol (130–320 mg/dL)',
+    (hdl.value! < 20 || hdl.value! > 100) && 'HDL (20–100 mg/dL)',
+    (systolic.value! < 90 || systolic.value! > 200) && 'systolic pressure (90–200 mmHg)'
+  ].filter(Boolean);
+  const c = POOLED_COHORT_COEFFICIENTS[profile.sex];
+  const lnAge = Math.log(profile.age);
+  const lnTotalCholesterol = Math.log(totalCholesterol.value!);
+  const lnHdl = Math.log(hdl.value!);
+  const lnSbp = Math.log(systolic.value!);
+  const sum = c.lnAge * lnAge + c.lnAgeSquared * lnAge ** 2
+    + c.lnTotalCholesterol * lnTotalCholesterol + c.lnAgeLnTotalCholesterol * lnAge * lnTotalCholesterol
+    + c.lnHdl * lnHdl + c.lnAgeLnHdl * lnAge * lnHdl
+    + (treatment ? c.lnTreatedSbp : c.lnUntreatedSbp) * lnSbp
+    + (smoking ? c.smoker + c.lnAgeSmoker * lnAge : 0)
+    + (diabetes ? c.diabetes : 0);
+  const value = Math.round((1 - c.baselineSurvival ** Math.exp(sum - c.meanSum)) * 1000) / 10;
+  const { category, severity } = ASCVD_CATEGORIES.find(cat => value < cat.below)!;
+  return {
+    ...result, value, category, severity,
+    notes: outOfRange.length > 0 ? [`Outside the validated range for ${outOfRange.join(', ')}; interpret with care.`, ...result.notes] : result.notes
+  };
+};
+
+const runClinicalCalculators = (profile: PatientProfile, now: number): CalculatorResult[] => [
+  calculateBmi(profile, now),
+  calculateEgfr(profile, now),
+  calculateAscvdRisk(profile, now)
+];
+
+// --- ASSESSMENT HISTORY ---
+
+interface RiskComparison {
+  persisting: { before: string, after: string }[];
+  resolved: string[];
+  added: string[];
+}
+
+const RISK_MATCH_THRESHOLD = 0.5;
+const RISK_STOPWORDS = new Set(['and', 'the', 'with', 'for', 'from', 'due', 'risk', 'risks', 'possible', 'potential', 'increased']);
+
+const riskTokens = (risk: string) =>
+  new Set(normalizeKey(risk).split(/[^a-z0-9]+/).filter(t => t.length > 2 && !RISK_STOPWORDS.has(t)));
+
+// Jaccard overlap of the significant words in two risks; identical wording always matches.
+const riskSimilarity = (a: string, b: string) => {
+  if (normalizeKey(a) === normalizeKey(b)) return 1;
+  const left = riskTokens(a);
+  const right = riskTokens(b);
+  const shared = [...left].filter(t => right.has(t)).length;
+  return shared === 0 ? 0 : shared / (left.size + right.size - shared);
+};
+
+// The model rewords the same finding between runs, so risks are paired by word overlap rather than
+// exact text, best-scoring pairs first.
+const compareRisks = (before: string[], after: string[]): RiskComparison => {
+  const pairs = before
+    .flatMap((b, i) => after.map((a, j) => ({ i, j, score: riskSimilarity(b, a) })))
+    .filter(pair => pair.score >= RISK_MATCH_THRESHOLD)
+    .sort((x, y) => y.score - x.score);
+  const matched = new Map<number, number>();
+  const used = new Set<number>();
+  for (const { i, j } of pairs) {
+    if (used.has(i) || matched.has(j)) continue;
+    used.add(i);
+    matched.set(j, i);
+  }
+  return {
+    persisting: after.flatMap((risk, j) => matched.has(j) ? [{ before: before[matched.get(j)!], after: risk }] : []),
+    resolved: before.filter((_, i) => !used.has(i)),
+    added: after.filter((_, j) => !matched.has(j))
+  };
+};
+
+const describeAssessmentInput = (input?: PatientProfile) => input
+  ? `${input.vitals.length} vitals · ${input.history.length} conditions · ${input.medications.length} medications`
+  : 'Input not recorded';
+
+const describeAssessmentSource = (record: AssessmentRecord) =>
+  record.model === 'unknown' ? 'Model not recorded' : `${record.model} via ${record.provider}`;
+
+// --- AI SERVICES ---
+
+type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+// How patient data is de-identified before it is sent; see DE-IDENTIFICATION.
+interface PrivacySettings {
+  enabled: boolean;
+  names: 'pseudonymize' | 'remove';
+  dates: 'shift' | 'keep';
+  scrubIdentifiers: boolean;
+}
+
+interface AiConfig {
+  provider: AiProviderId;
+  models: Record<AiTask, string>;
+  // Only used by the OpenAI-compatible provider (OpenAI, Ollama, LM Studio, vLLM, ...).
+  baseUrl: string;
+  apiKey: string;
+  privacy: PrivacySettings;
+}
+
+// The profile as a model sees it: no record ids or document links, dates as YYYY-MM-DD, and
+// de-identified according to the privacy settings.
+interface ModelProfile {
+  name: string;
+  age?: number | '90+';
+  sex?: Sex;
+  history: { condition: string, status: string, date: string }[];
+  vitals: { parameter: string, reading: string, unit: string, severity: Severity, date: string }[];
+  medications: { name: string, dosage: string, frequency: string }[];
+}
+
+interface FacilitySearchResult {
+  text: string;
+  links: { title: string, uri: string }[];
+}
+
+interface ClinicalExtraction {
+  name?: string;
+  age?: number;
+  sex?: Sex;
+  documentDate?: string;
+  vitals: { parameter: string, reading: string, unit: string, severity: Severity, observedDate?: string }[];
+  history: { condition: string, status: string, date: string }[];
+  medications: { name: string, dosage: string, frequency: string }[];
+}
+
+interface AdherenceContext {
+  medication: string;
+  percent: number;
+  taken: number;
+  expected: number;
+  since: string;
+}
+
+interface AssessmentInputContext extends AssessmentContext {
+  interactions: InteractionContext[];
+  adherence: AdherenceContext[];
+}
+
+// Providers return the model's raw JSON; it is only trusted after validateExtraction/validateAssessment.
+interface AiProvider {
+  parseClinicalDocument(base64Data: string, mimeType: string, model: string, signal: AbortSignal): Promise<unknown>;
+  generateHealthAssessment(profile: ModelProfile, context: AssessmentInputContext, model: string, signal: AbortSignal): Promise<unknown>;
+  streamChat(query: string, profile: ModelProfile, history: ChatMessage[], onText: (text: string) => void, model: string, signal: AbortSignal): Promise<string>;
+  searchMedicalFacilities(query: string, model: string, signal: AbortSignal, lat?: number, lng?: number): Promise<FacilitySearchResult>;
+}
+
+const DEFAULT_MODELS: Record<AiProviderId, Record<AiTask, string>> = {
+  gemini: GEMINI_MODELS,
+  openai: { extraction: 'gpt-4o-mini', assessment: 'gpt-4o-mini', chat: 'gpt-4o-mini', facilities: 'gpt-4o-mini' },
+  mock: { extraction: 'fixture', assessment: 'fixture', chat: 'fixture', facilities: 'fixture' }
+};
+
+const AI_CONFIG_KEY = 'medaid_ai_config';
+
+const defaultAiConfig = (provider: AiProviderId = (process.env.AI_PROVIDER as AiProviderId) || 'gemini'): AiConfig => ({
+  provider,
+  models: { ...DEFAULT_MODELS[provider] },
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  privacy: { enabled: true, names: 'pseudonymize', dates: 'shift', scrubIdentifiers: true }
+});
+
+// Runs at module load, so settings that cannot be read fall back to the defaults instead of stopping the app.
+const loadAiConfig = (): AiConfig => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(AI_CONFIG_KEY) || 'null');
+    if (!isRecord(parsed)) return defaultAiConfig();
+    const base = defaultAiConfig(typeof parsed.provider === 'string' && parsed.provider in DEFAULT_MODELS ? parsed.provider as AiProviderId : undefined);
+    return {
+      ...base,
+      ...parsed,
+      provider: base.provider,
+      models: { ...base.models, ...(isRecord(parsed.models) ? parsed.models : {}) },
+      privacy: { ...base.privacy, ...(isRecord(parsed.privacy) ? parsed.privacy : {}) }
+    };
+  } catch (e) {
+    console.error("AI settings read error", e);
+    return defaultAiConfig();
+  }
+};
+
+let aiConfig = loadAiConfig();
+
+const getAiConfig = () => aiConfig;
+
+const saveAiConfig = (config: AiConfig) => {
+  aiConfig = config;
+  localStorage.setItem(AI_CONFIG_KEY, JSON.stringify(config));
+};
+
+const replayableHistory = (history: ChatMessage[]) =>
+  history.filter(m => m.text && m.status !== 'error').slice(-CHAT_HISTORY_LIMIT);
+
+// --- AI REQUEST PIPELINE ---
+
+// transient marks failures worth retrying: network drops, timeouts, rate limits, 5xx and malformed model output.
+class AiRequestError extends Error {
+  transient: boolean;
+
+  constructor(message: string, transient: boolean) {
+    super(message);
+    this.name = 'AiRequestError';
+    this.transient = transient;
+  }
+}
+
+const AI_TIMEOUTS: Record<AiTask, number> = {
+  extraction: 90_000,
+  assessment: 90_000,
+  chat: 120_000,
+  facilities: 30_000
+};
+const AI_MAX_ATTEMPTS = 3;
+const AI_RETRY_BASE_MS = 800;
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+const abortableDelay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+const classifyAiError = (err: unknown, timedOut: boolean): AiRequestError => {
+  if (err instanceof AiRequestError) return err;
+  if (timedOut) return new AiRequestError('The AI service did not respond in time.', true);
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    if (status === 401 || status === 403) return new AiRequestError('The AI service rejected the API key. Check GEMINI_API_KEY on the server, or the key in AI Settings.', false);
+    if (status === 429) return new AiRequestError('The AI service is rate limiting requests or the quota is used up.', true);
+    if (status === 408 || status >= 500) return new AiRequestError(`The AI service is unavailable (HTTP ${status}).`, true);
+    return new AiRequestError(`The AI service refused the request (HTTP ${status}): ${(err as Error).message}`, false);
+  }
+  // fetch reports connection failures as a bare TypeError.
+  if (err instanceof TypeError) return new AiRequestError('Could not reach the AI service. Check your connection.', true);
+  return new AiRequestError(err instanceof Error ? err.message : String(err), false);
+};
+
+const describeAiError = (err: unknown) => classifyAiError(err, false).message;
+
+// Every model call goes through here: a per-task timeout, exponential backoff on transient failures,
+// and the caller's signal to cancel. canRetry lets streaming calls stop retrying once output has been shown.
+// Streaming calls invoke keepAlive as output arrives, so their timeout measures silence rather than length.
+const runAiRequest = async <T,>(task: AiTask, run: (signal: AbortSignal, keepAlive: () => void) => Promise<T>, signal?: AbortSignal, canRetry?: () => boolean): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const timeout = new AbortController();
+    let timer = setTimeout(() => timeout.abort(), AI_TIMEOUTS[task]);
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => timeout.abort(), AI_TIMEOUTS[task]);
+    };
+    try {
+      return await run(signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal, keepAlive);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const failure = classifyAiError(err, timeout.signal.aborted);
+      if (!failure.transient || attempt >= AI_MAX_ATTEMPTS || canRetry?.() === false) throw failure;
+    } finally {
+      clearTimeout(timer);
+    }
+    await abortableDelay(AI_RETRY_BASE_MS * 2 ** (attempt - 1), signal);
+  }
+};
+
+const parseJsonResponse = (text: string | undefined) => {
+  try {
+    return JSON.parse(text || '');
+  } catch {
+    throw new AiRequestError('The AI service returned malformed JSON.', true);
+  }
+};
+
+const optionalString = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const listOf = (value: unknown, field: string): Record<string, any>[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new AiRequestError(`The AI response has an invalid "${field}" field.`, true);
+  return value.filter(isRecord);
+};
+
+// Entries missing their key field are dropped rather than failing the whole document.
+const validateExtraction = (raw: unknown): ClinicalExtraction => {
+  if (!isRecord(raw)) throw new AiRequestError('The AI response is not a JSON object.', true);
+  const age = Number(raw.age);
+  return {
+    name: optionalString(raw.name),
+    age: Number.isInteger(age) && age > 0 && age < 130 ? age : undefined,
+    sex: raw.sex === 'male' || raw.sex === 'female' ? raw.sex : undefined,
+    documentDate: optionalString(raw.documentDate),
+    vitals: listOf(raw.vitals, 'vitals')
+      .filter(v => optionalString(v.parameter) && (typeof v.reading === 'string' || typeof v.reading === 'number'))
+      .map(v => ({
+        parameter: v.parameter.trim(),
+        reading: String(v.reading).trim(),
+        unit: optionalString(v.unit) || '',
+        severity: ['Critical', 'Elevated', 'Normal'].includes(v.severity) ? v.severity : 'Normal',
+        observedDate: optionalString(v.observedDate)
+      })),
+    history: listOf(raw.history, 'history')
+      .filter(h => optionalString(h.condition))
+      .map(h => ({ condition: h.condition.trim(), status: optionalString(h.status) || '', date: optionalString(h.date) || '' })),
+    medications: listOf(raw.medications, 'medications')
+      .filter(m => optionalString(m.name))
+      .map(m => ({ name: m.name.trim(), dosage: optionalString(m.dosage) || '', frequency: optionalString(m.frequency) || '' }))
+  };
+};
+
+const validateAssessment = (raw: unknown): ClinicalAssessment => {
+  if (!isRecord(raw) || !optionalString(raw.summary)) throw new AiRequestError('The AI assessment is missing its summary.', true);
+  const strings = (value: unknown, field: string) => {
+    if (!Array.isArray(value)) throw new AiRequestError(`The AI assessment is missing "${field}".`, true);
+    return value.filter((s): s is string => typeof s === 'string' && s.trim() !== '');
+  };
+  return {
+    summary: raw.summary.trim(),
+    risks: strings(raw.risks, 'risks'),
+    recommendations: strings(raw.recommendations, 'recommendations'),
+    nextSteps: strings(raw.nextSteps, 'nextSteps')
+  };
+};
+
+// --- DE-IDENTIFICATION ---
+
+// Everything built from a patient record passes through here before it reaches a provider, and replies
+// are mapped back (alias to name, shifted dates to real ones) before they are shown or stored. Full dates are
+// shifted; a year alone is kept, as Safe Harbor allows. Documents sent for extraction are images and cannot
+// be de-identified, which the consent preview says.
+
+// Name fragments too common to replace on their own, including the placeholder name of a new patient.
+const NAME_STOPWORDS = new Set(['patient', 'unregistered', 'demo', 'the', 'and', 'mr', 'mrs', 'ms', 'miss', 'dr']);
+
+const ISO_DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b/g;
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+// "March 14, 2021", "14 March 2021", "March 2021" and "03/14/2021".
+const MONTH_DAY_YEAR_PATTERN = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi');
+const DAY_MONTH_YEAR_PATTERN = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME}\\s+(\\d{4})\\b`, 'gi');
+const MONTH_YEAR_PATTERN = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{4})\\b`, 'gi');
+const NUMERIC_DATE_PATTERN = /\b\d{1,2}[/.]\d{1,2}[/.](?:\d{4}|\d{2})\b/g;
+const MONTH_ABBREVIATIONS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Identifiers that turn up in free text: email addresses, web links, social security and phone numbers,
+// and record numbers (a short letter prefix then five or more digits, or any run of seven or more digits).
+const IDENTIFIER_PATTERNS = [
+  /[\w.+-]+@[\w-]+(\.[\w-]+)+/g,
+  /\bhttps?:\/\/\S*[^\s.,;:!?)]/gi,
+  /\b\d{3}-\d{2}-\d{4}\b/g,
+  /(\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
+  /\b(?:[A-Z]{1,3}[-#]?\d{5,}|\d{7,})\b/g
+];
+
+// Ages above this are sent as a single "90+" band, as HIPAA Safe Harbor requires.
+const MAX_DISCLOSED_AGE = 89;
+
+interface Deidentifier {
+  text: (value: string) => string;
+  profile: (profile: PatientProfile) => ModelProfile;
+  reidentify: (value: string) => string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toIsoDate = (year: string, month: string, day: string) => {
+  const m = MONTH_ABBREVIATIONS.indexOf(month.slice(0, 3).toLowerCase()) + 1;
+  const date = `${year}-${String(m).padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return observationDay(new Date(+year, m - 1, +day, 12).getTime()) === date ? date : '[date]';
+};
+
+// Rewrites written-out dates as YYYY-MM-DD so they can be shifted. A month and year is cut to the year, and
+// numeric dates are removed because their day and month order cannot be known.
+const normalizeDates = (value: string) => value
+  .replace(MONTH_DAY_YEAR_PATTERN, (_, month, day, year) => toIsoDate(year, month, day))
+  .replace(DAY_MONTH_YEAR_PATTERN, (_, day, month, year) => toIsoDate(year, month, day))
+  .replace(MONTH_YEAR_PATTERN, (_, _month, year) => year)
+  .replace(NUMERIC_DATE_PATTERN, '[date]');
+
+const createDeidentifier = (source: PatientProfile, key: PrivacyKey, settings: PrivacySettings): Deidentifier => {
+  const { enabled } = settings;
+  const shift = enabled && settings.dates === 'shift' ? key.dateShiftDays : 0;
+  const pseudonymize = enabled && settings.names === 'pseudonymize';
+  // The full name and each part of it, longest first so "Jane Doe" is replaced before "Jane".
+  const names = [...new Set([source.name, ...source.name.split(/\s+/)].map(n => n.trim()))]
+    .filter(n => n.length >= 3 && !NAME_STOPWORDS.has(n.toLowerCase()))
+    .sort((a, b) => b.length - a.length);
+  const namePattern = enabled && names.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+    : null;
+  const aliasPattern = new RegExp(escapeRegExp(key.alias), 'gi');
+  // Only dates this request sent are shifted back in the reply; a date the model chose itself is left alone.
+  const sentDates = new Set<string>();
+
+  const shiftDates = (value: string) => shift === 0 ? value : normalizeDates(value).replace(ISO_DATE_PATTERN, date => {
+    const shifted = addDays(date, shift);
+    sentDates.add(shifted);
+    return shifted;
+  });
+
+  const text = (value: string) => {
+    if (!enabled) return value;
+    let result = namePattern ? value.replace(namePattern, pseudonymize ? key.alias : 'the patient') : value;
+    if (settings.scrubIdentifiers) result = IDENTIFIER_PATTERNS.reduce((s, pattern) => s.replace(pattern, '[redacted]'), result);
+    return shiftDates(result);
+  };
+
+  return {
+    text,
+    profile: p => ({
+      name: !enabled ? p.name : pseudonymize ? key.alias : 'Patient',
+      age: enabled && p.age !== undefined && p.age > MAX_DISCLOSED_AGE ? '90+' : p.age,
+      sex: p.sex,
+      history: p.history.map(h => ({ condition: text(h.condition), status: text(h.status), date: text(h.date) })),
+      vitals: p.vitals.map(v => ({ parameter: v.parameter, reading: v.reading, unit: v.unit, severity: v.severity, date: shiftDates(observationDay(v.timestamp)) })),
+      medications: p.medications.map(m => ({ name: text(m.name), dosage: text(m.dosage), frequency: text(m.frequency) }))
+    }),
+    reidentify: value => (pseudonymize ? value.replace(aliasPattern, source.name) : value)
+      .replace(ISO_DATE_PATTERN, date => sentDates.has(date) ? addDays(date, -shift) : date)
+  };
+};
+
+const describePrivacy = (settings: PrivacySettings, key: PrivacyKey) => settings.enabled ? [
+  settings.names === 'pseudonymize' ? `The patient's name is replaced with "${key.alias}" and restored in replies.` : "The patient's name is removed.",
+  settings.dates === 'shift'
+    ? 'Dates are moved by an offset kept on this device and restored in replies. A year on its own is sent as written, a month and year is cut to the year, and dates written only in numbers, such as 03/14/2021, are removed.'
+    : 'Dates are sent unchanged.',
+  ...(settings.scrubIdentifiers ? ['Email addresses, phone numbers, web links and ID numbers are removed from free text.'] : []),
+  `Ages over ${MAX_DISCLOSED_AGE} are sent as "90+". Record ids and document links are never sent.`
+] : ['De-identification is off: the name, dates and free text are sent as recorded.'];
+
+// Where patient data goes with the given settings, or null when it never leaves the browser.
+const aiDestination = ({ provider, baseUrl }: AiConfig) =>
+  provider === 'mock' ? null : provider === 'openai' ? `openai ${baseUrl.replace(/\/$/, '')}` : provider;
+
+// Exactly what a request will contain, section by section, for the consent dialog and preview.
+interface PromptPreview {
+  task: AiTask;
+  sections: { label: string, content: string }[];
+}
+
+// A consent question waiting for an answer; every request that needs it awaits the same promise.
+interface ConsentPrompt {
+  patientId: string;
+  destination: string;
+  preview: PromptPreview;
+  answer: Promise<boolean>;
+  resolve: (granted: boolean) => void;
+}
+
+// Requests and their previews are built by the same functions, so a preview can never differ from what is sent.
+const prepareAssessment = (record: PatientRecord, now: number) => {
+  const deidentifier = createDeidentifier(record.profile, record.privacyKey, getAiConfig().privacy);
+  const context: AssessmentInputContext = {
+    interactions: checkInteractions(record.profile).findings.map(f => ({ ...toInteractionContext(f), subjects: f.subjects.map(deidentifier.text) })),
+    adherence: adherenceContext(record.profile.medications, record.doseLog, now).map(a => ({ ...a, medication: deidentifier.text(a.medication), since: deidentifier.text(a.since) }))
+  };
+  return { deidentifier, profile: deidentifier.profile(record.profile), context };
+};
+
+const prepareChat = (record: PatientRecord, query: string, history: ChatMessage[]) => {
+  const deidentifier = createDeidentifier(record.profile, record.privacyKey, getAiConfig().privacy);
+  return {
+    deidentifier,
+    profile: deidentifier.profile(record.profile),
+    query: deidentifier.text(query),
+    history: replayableHistory(history).map(m => ({ ...m, text: deidentifier.text(m.text) }))
+  };
+};
+
+const previewAssessment = (record: PatientRecord): PromptPreview => {
+  const { profile, context } = prepareAssessment(record, Date.now());
+  return { task: 'assessment', sections: [{ label: 'Prompt', content: assessmentPrompt(profile, context) }] };
+};
+
+const previewChat = (record: PatientRecord, query: string, history: ChatMessage[]): PromptPreview => {
+  const { profile, query: sent, history: turns } = prepareChat(record, query, history);
+  return {
+    task: 'chat',
+    sections: [
+      { label: 'Instructions and records', content: chatSystemInstruction(profile) },
+      ...(turns.length > 0 ? [{ label: `Earlier conversation (${turns.length} messages)`, content: turns.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}`).join('\n\n') }] : []),
+      { label: 'Message', content: sent || '(your next message)' }
+    ]
+  };
+};
+
+const previewExtraction = (files: File[]): PromptPreview => ({
+  task: 'extraction',
+  sections: [
+    { label: 'Prompt', content: EXTRACTION_PROMPT },
+    {
+      label: files.length === 1 ? 'Document' : `Documents (${files.length})`,
+      content: `${files.map(f => `${f.name} (${f.type || 'unknown type'}, ${(f.size / 1024).toFixed(0)} KB)`).join('\n')}\n\nDocuments are sent unaltered. Names, dates and identifiers printed on them cannot be removed before extraction.`
+    }
+  ]
+});
+
+// --- AI PROVIDERS ---
+
+// Gemini schemas use upper-case type names; plain JSON Schema wants them lower-case.
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema).map(([k, v]) =>
+    [k, k === 'type' && typeof v === 'string' ? v.toLowerCase() : toJsonSchema(v)]));
+};
+
+const CLIENT_ID_KEY = 'medaid_client_id';
+
+// An anonymous per-browser id so the server can rate limit each user separately; it carries no patient data.
+const getClientId = () => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = newId();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+const proxyRequest = async (route: string, body: object, signal: AbortSignal) => {
+  const response = await fetch(`/api/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-MedAId-Client': getClientId() },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw Object.assign(new Error(payload.error || `MedAId server returned ${response.status}`), { status: response.status });
+  }
+  return response;
+};
+
+// The Gemini key lives on the server (see /api); the browser only ever talks to our own endpoints.
+const geminiProxyProvider: AiProvider = {
+  async parseClinicalDocument(base64Data, mimeType, model, signal) {
+    if (base64Data.length > MAX_DOCUMENT_BASE64_LENGTH) throw new AiRequestError('Documents must be under 3 MB to be processed by the MedAId server.', false);
+    const response = await proxyRequest('extract', { data: base64Data, mimeType, model }, signal);
+    return parseJsonResponse((await response.json()).text);
+  },
+
+  async generateHealthAssessment(profile, context, model, signal) {
+    const response = await proxyRequest('assess', { profile, context, model }, signal);
+    return parseJsonResponse((await response.json()).text);
+  },
+
+  async streamChat(query, profile, history, onText, model, signal) {
+    const turns: ChatTurn[] = replayableHistory(history).map(m => ({ role: m.role === 'user' ? 'user' : 'model', text: m.text }));
+    const response = await proxyRequest('chat', { query, profile, history: turns, model }, signal);
+
+    // The server streams the reply as plain UTF-8 text.
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+      onText(text);
+    }
+    return text;
+  },
+
+  async searchMedicalFacilities(query, model, signal, lat, lng) {
+    const response = await proxyRequest('facilities', { query, model, lat, lng }, signal);
+    return response.json();
+  }
+};
+
+const openAiRequest = async (body: object, signal?: AbortSignal) => {
+  const { baseUrl, apiKey } = getAiConfig();
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!response.ok) throw Object.assign(new Error(`AI provider returned ${response.status}: ${await response.text()}`), { status: response.status });
+  return response;
+};
+
+const withSchema = (prompt: string, schema: object) =>
+  `${prompt}\n\nRespond only with a JSON object matching this JSON Schema:\n${JSON.stringify(toJsonSchema(schema))}`;
+
+// Speaks the Chat Completions API, so it works with OpenAI as well as local servers such as Ollama.
+const openAiCompatibleProvider: AiProvider = {
+  async parseClinicalDocument(base64Data, mimeType, model, signal) {
+    if (!mimeType.startsWith('image/')) throw new AiRequestError('The OpenAI-compatible provider can only read image documents.', false);
+    const response = await openAiRequest({
+      model,
+      response_format: { type: 'json_object' },
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: withSchema(EXTRACTION_PROMPT, EXTRACTION_SCHEMA) },
+          { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Data}` } }
+        ]
+      }]
+    }, signal);
+    const data = await response.json();
+    return parseJsonResponse(data.choices?.[0]?.message?.content);
+  },
+
+  async generateHealthAssessment(profile, context, model, signal) {
+    const response = await openAiRequest({
+      model,
+      response_format: { type: 'json_object' },
+      messages: [{ role: 'user', content: withSchema(assessmentPrompt(profile, context), ASSESSMENT_SCHEMA) }]
+    }, signal);
+    const data = await response.json();
+    return parseJsonResponse(data.choices?.[0]?.message?.content);
+  },
+
+  async streamChat(query, profile, history, onText, model, signal) {
+    const response = await openAiRequest({
+      model,
+      stream: true,
+      messages: [
+        { role: 'system', content: chatSystemInstruction(profile) },
+        ...replayableHistory(history).map(m => ({ role: m.role === 'user' ? 'user' : 'assistant', content: m.text })),
+        { role: 'user', content: query }
+      ]
+    }, signal);
+
+    // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]".
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!payload || payload === '[DONE]' || !line.startsWith('data:')) continue;
+        // Local servers sometimes interleave keep-alives or log lines; one unreadable line should not lose the reply.
+        let event: unknown;
+        try {
+          event = JSON.parse(payload);
+        } catch {
+          continue;
+        }
+        if (!isRecord(event)) continue;
+        if (event.error) throw new AiRequestError(`The AI service reported an error: ${event.error.message || String(event.error)}`, false);
+        text += event.choices?.[0]?.delta?.content || '';
+        onText(text);
+      }
+    }
+    return text;
+  },
+
+  // No map grounding is available here, so results come back as text without verified links.
+  async searchMedicalFacilities(query, model, signal, lat, lng) {
+    const response = await openAiRequest({ model, messages: [{ role: 'user', content: facilitiesPrompt(query, lat, lng) }] }, signal);
+    const data = await response.json();
+    return { text: data.choices?.[0]?.message?.content || '', links: [] };
+  }
+};
+
+const MOCK_EXTRACTION = {
+  name: 'Demo Patient',
+  age: 58,
+  sex: 'male',
+  documentDate: '2024-03-14',
+  vitals: [
+    { parameter: 'Blood Pressure', reading: '142/91', unit: 'mmHg', severity: 'Elevated' },
+    { parameter: 'Glucose', reading: '7.4', unit: 'mmol/L', severity: 'Elevated' },
+    { parameter: 'LDL Cholesterol', reading: '162', unit: 'mg/dL', severity: 'Elevated' },
+    { parameter: 'Creatinine', reading: '1.1', unit: 'mg/dL', severity: 'Normal' },
+    { parameter: 'Potassium', reading: '4.2', unit: 'mmol/L', severity: 'Normal' }
+  ],
+  history: [
+    { condition: 'Essential Hypertension', status: 'Active', date: '2019' },
+    { condition: 'Type 2 Diabetes Mellitus', status: 'Active', date: '2021' }
+  ],
+  medications: [
+    { name: 'Metformin', dosage: '500 mg', frequency: 'BID' },
+    { name: 'Lisinopril', dosage: '10 mg', frequency: 'Once daily' }
+  ]
+};
+
+// Fixture-backed and fully deterministic: same input, same output, no network.
+const mockProvider: AiProvider = {
+  async parseClinicalDocument(_base64Data, _mimeType, _model, signal) {
+    await abortableDelay(300, signal);
+    return JSON.parse(JSON.stringify(MOCK_EXTRACTION));
+  },
+
+  async generateHealthAssessment(profile, { interactions, adherence }, _model, signal) {
+    await abortableDelay(300, signal);
+    const flagged = profile.vitals.filter(v => v.severity !== 'Normal');
+    const missed = adherence.filter(a => a.percent < 80);
+    return {
+      summary: `${profile.name} has ${profile.vitals.length} recorded vitals, ${profile.history.length} documented conditions and ${profile.medications.length} current medications. ${flagged.length} readings fall outside the normal range and ${interactions.length} medication interactions were flagged.`,
+      risks: [
+        ...flagged.map(v => `${v.severity} ${v.parameter}: ${v.reading} ${v.unit}`),
+        ...interactions.map(i => `${i.severity} interaction (${i.subjects.join(' + ')}): ${i.effect}`),
+        ...missed.map(a => `Low adherence to ${a.medication}: ${a.percent}% of doses taken since ${a.since}`)
+      ],
+      recommendations: flagged.length > 0 || interactions.length > 0 ? ['Review out-of-range results and flagged interactions with the primary care physician.'] : ['Continue routine monitoring.'],
+      nextSteps: ['Repeat out-of-range labs at the next scheduled visit.']
+    };
+  },
+
+  async streamChat(query, profile, history, onText, _model, signal) {
+    const reply = `[Mock reply ${history.filter(m => m.role === 'user').length + 1}] You asked: "${query}". ${profile.name} has ${profile.vitals.length} vitals and ${profile.medications.length} medications on file. I am an AI assistant; please consult a medical professional for diagnosis.`;
+    let text = '';
+    for (const word of reply.split(' ')) {
+      await abortableDelay(20, signal);
+      text += (text ? ' ' : '') + word;
+      onText(text);
+    }
+    return text;
+  },
+
+  async searchMedicalFacilities(query, _model, signal) {
+    await abortableDelay(300, signal);
+    return {
+      text: `Mock results for ${query}. Facility search runs offline in mock mode.`,
+      links: [{ title: `${query} (map search)`, uri: `https://www.google.com/maps/search/${encodeURIComponent(query)}` }]
+    };
+  }
+};
+
+const AI_PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProxyProvider,
+  openai: openAiCompatibleProvider,
+  mock: mockProvider
+};
+
+const getProvider = () => AI_PROVIDERS[getAiConfig().provider];
+const modelFor = (task: AiTask) => getAiConfig().models[task];
+
+const parseClinicalDocument = (base64Data: string, mimeType: string, signal?: AbortSignal) =>
+  runAiRequest('extraction', async s => validateExtraction(await getProvider().parseClinicalDocument(base64Data, mimeType, modelFor('extraction'), s)), signal);
+
+// Interaction findings and adherence come from local data rather than the model, so they are passed alongside the profile.
+const generateHealthAssessment = (record: PatientRecord, signal?: AbortSignal) => {
+  const { deidentifier, profile, context } = prepareAssessment(record, Date.now());
+  const restore = deidentifier.reidentify;
+  return runAiRequest('assessment', async s => {
+    const { summary, risks, recommendations, nextSteps } = validateAssessment(await getProvider().generateHealthAssessment(profile, context, modelFor('assessment'), s));
+    return { summary: restore(summary), risks: risks.map(restore), recommendations: recommendations.map(restore), nextSteps: nextSteps.map(restore) };
+  }, signal);
+};
+
+// A reply that has already started streaming is never retried, or the user would see it restart.
+const streamClinicalChatResponse = (query: string, record: PatientRecord, history: ChatMessage[], onText: (text: string) => void, signal?: AbortSignal) => {
+  const { deidentifier, profile, query: sent, history: turns } = prepareChat(record, query, history);
+  let streamed = false;
+  return runAiRequest('chat', async (s, keepAlive) => deidentifier.reidentify(await getProvider().streamChat(sent, profile, turns, text => {
+    streamed = true;
+    keepAlive();
+    onText(deidentifier.reidentify(text));
+  }, modelFor('chat'), s)), signal, () => !streamed);
+};
+
+// With de-identification on, the location is rounded to about a kilometre.
+const searchMedicalFacilities = (query: string, lat?: number, lng?: number, signal?: AbortSignal) => {
+  const coarsen = (value?: number) => value !== undefined && getAiConfig().privacy.enabled ? Math.round(value * 100) / 100 : value;
+  return runAiRequest('facilities', s => getProvider().searchMedicalFacilities(query, modelFor('facilities'), s, coarsen(lat), coarsen(lng)), signal);
+};
+
+// --- UPLOAD QUEUE ---
+
+const UPLOAD_CONCURRENCY = 2;
+const PDF_PAGES_PER_CHUNK = 5;
+
+type UploadStatus = 'queued' | 'processing' | 'done' | 'failed' | 'skipped';
+
+// One dropped or picked file. sourceId is set once the original is stored, so a retry never stores it twice.
+interface UploadTask {
+  id: string;
+  patientId: string;
+  file: File;
+  hash: string;
+  status: UploadStatus;
+  // Set while skipped because an identical file is already in the library or earlier in the queue.
+  duplicateOf?: string;
+  chunks?: { done: number, total: number };
+  sourceId?: string;
+  reviewId?: string;
+  // What the extraction proposed, e.g. "4 vitals, 1 condition".
+  found?: string;
+  // Filled in once the extraction review is committed or discarded.
+  contributed?: string;
+  error?: string;
+}
+
+const isUploadActive = (task: UploadTask) => task.status === 'queued' || task.status === 'processing';
+
+interface DocumentChunk {
+  data: string;
+  mimeType: string;
+  pages?: [number, number];
+}
+
+// Long PDFs are extracted a few pages at a time, which keeps each request under the size limit and gives the
+// model less to read at once. A range that is still too large is halved, down to a single page.
+const splitDocument = async (file: File): Promise<DocumentChunk[]> => {
+  if (file.type !== 'application/pdf') return [{ data: await readFileAsBase64(file), mimeType: file.type }];
+  const bytes = await file.arrayBuffer();
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(bytes);
+  } catch {
+    throw new Error(`${file.name} could not be read as a PDF. It may be damaged or password protected.`);
+  }
+  const pageCount = source.getPageCount();
+  // The encoded size is known from the byte count, so a PDF that will be split is never encoded whole.
+  if (pageCount <= PDF_PAGES_PER_CHUNK && Math.ceil(bytes.byteLength / 3) * 4 <= MAX_DOCUMENT_BASE64_LENGTH) {
+    return [{ data: toBase64(bytes), mimeType: file.type, pages: [1, pageCount] }];
+  }
+
+  const extract = async (first: number, last: number): Promise<DocumentChunk[]> => {
+    const chunk = await PDFDocument.create();
+    const pages = await chunk.copyPages(source, Array.from({ length: last - first + 1 }, (_, i) => first - 1 + i));
+    pages.forEach(page => chunk.addPage(page));
+    const data = toBase64(await chunk.save());
+    if (data.length <= MAX_DOCUMENT_BASE64_LENGTH || first === last) return [{ data, mimeType: file.type, pages: [first, last] }];
+    const middle = Math.floor((first + last) / 2);
+    return [...await extract(first, middle), ...await extract(middle + 1, last)];
+  };
+  const chunks: DocumentChunk[] = [];
+  for (let first = 1; first <= pageCount; first += PDF_PAGES_PER_CHUNK) {
+    chunks.push(...await extract(first, Math.min(first + PDF_PAGES_PER_CHUNK - 1, pageCount)));
+  }
+  return chunks;
+};
+
+// Demographics and the document date come from the first chunk that has them. A vital with no date of its own
+// keeps its chunk's document date, and conditions and medications repeated on several pages are kept once.
+const mergeExtractions = (results: ClinicalExtraction[]): ClinicalExtraction => {
+  const first = <K extends 'name' | 'age' | 'sex' | 'documentDate'>(key: K) => results.find(r => r[key] !== undefined)?.[key];
+  const documentDate = first('documentDate');
+  const once = <T,>(items: T[], key: (item: T) => string) => items.filter((item, i) => items.findIndex(other => key(other) === key(item)) === i);
+  return {
+    name: first('name'),
+    age: first('age'),
+    sex: first('sex'),
+    documentDate,
+    vitals: results.flatMap(r => r.vitals.map(v => ({ ...v, observedDate: v.observedDate ?? (r.documentDate !== documentDate ? r.documentDate : undefined) }))),
+    history: once(results.flatMap(r => r.history), h => `${normalizeKey(h.condition)}|${normalizeKey(h.status)}`),
+    medications: once(results.flatMap(r => r.medications), m => normalizeKey(m.name))
+  };
+};
+
+const describeUpload = (task: UploadTask) => {
+  switch (task.status) {
+    case 'queued': return 'Waiting';
+    case 'processing': return task.chunks && task.chunks.total > 1 ? `Extracting part ${task.chunks.done + 1} of ${task.chunks.total}` : 'Extracting';
+    case 'done': return task.contributed ?? `Found ${task.found}, waiting for review`;
+    case 'failed': return task.error ?? 'Failed';
+    case 'skipped': return `Identical to ${task.duplicateOf}`;
+  }
+};
+
+const REVIEW_KIND_NOUNS: Record<ReviewItem['kind'], [string, string]> = {
+  demographic: ['demographic', 'demographics'],
+  vital: ['vital', 'vitals'],
+  condition: ['condition', 'conditions'],
+  medication: ['medication change', 'medication changes']
+};
+
+const describeReviewItems = (items: ReviewItem[]) => {
+  const parts = (Object.keys(REVIEW_KIND_NOUNS) as ReviewItem['kind'][]).flatMap(kind => {
+    const count = items.filter(i => i.kind === kind).length;
+    return count > 0 ? [`${count} ${REVIEW_KIND_NOUNS[kind][count === 1 ? 0 : 1]}`] : [];
+  });
+  return parts.length > 0 ? parts.join(', ') : 'nothing';
+};
+
+// --- CLINICAL REPORT ---
+
+interface ReportSeries {
+  param: CanonicalParameter;
+  range?: ReferenceRange;
+  // Chronological, coded readings with a numeric canonical value.
+  readings: VitalsRecord[];
+}
+
+interface ClinicalReport {
+  generatedAt: number;
+  patient: { name: string, age?: number, sex?: Sex };
+  medications: { medication: Medication, schedule: string, adherence?: number }[];
+  conditions: MedicalHistoryEntry[];
+  series: ReportSeries[];
+  // Readings that could not be charted: uncoded parameters or non-numeric results.
+  otherVitals: VitalsRecord[];
+  assessment?: AssessmentRecord;
+}
+
+// Tables keep the most recent readings per parameter; the chart still plots all of them.
+const REPORT_MAX_ROWS = 12;
+
+const buildClinicalReport = (record: PatientRecord, now: number): ClinicalReport => {
+  const { profile } = record;
+  const charted = profile.vitals.filter(v => v.code && v.value !== undefined).sort((a, b) => a.timestamp - b.timestamp);
+  const codes = [...new Set(charted.map(v => v.code!))];
+  return {
+    generatedAt: now,
+    patient: { name: profile.name, age: profile.age, sex: profile.sex },
+    medications: profile.medications.map(medication => ({
+      medication,
+      schedule: describeSchedule(scheduleFor(medication)),
+      adherence: computeAdherence(medication, record.doseLog, now)?.percent
+    })),
+    conditions: profile.history.filter(isActiveCondition),
+    series: codes.flatMap(code => {
+      const param = findParameterByCode(code);
+      return param ? [{ param, range: findReferenceRange(code, profile), readings: charted.filter(v => v.code === code) }] : [];
+    }),
+    otherVitals: profile.vitals.filter(v => !charted.includes(v)).sort((a, b) => b.timestamp - a.timestamp),
+    assessment: record.assessments[record.assessments.length - 1]
+  };
+};
+
+const describeRange = (range?: ReferenceRange) => {
+  if (!range) return 'No reference range';
+  if (range.normalLow !== undefined && range.normalHigh !== undefined) return `Normal ${range.normalLow}–${range.normalHigh}`;
+  if (range.normalLow !== undefined) return `Normal ≥ ${range.normalLow}`;
+  return range.normalHigh !== undefined ? `Normal ≤ ${range.normalHigh}` : 'No reference range';
+};
+
+const formatReportValue = (value: number) => `${Math.round(value * 100) / 100}`;
+
+// --- PDF LAYOUT ---
+
+// Top-down layout helpers over pdf-lib for the clinical report: pages, wrapped text, tables and charts using
+// the standard Helvetica fonts, so nothing is embedded and every byte is produced on the device.
+
+type PdfColor = [number, number, number];
+
+interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  indent?: number;
+}
+
+const PDF_PAGE = { width: 595.28, height: 841.89, margin: 48 };
+const PDF_CONTENT_WIDTH = PDF_PAGE.width - PDF_PAGE.margin * 2;
+const PDF_INK: PdfColor = [0.06, 0.09, 0.16];
+const PDF_MUTED: PdfColor = [0.39, 0.45, 0.55];
+const PDF_RULE: PdfColor = [0.89, 0.91, 0.94];
+
+// The standard fonts only encode WinAnsi and pdf-lib throws on anything else, so other characters become readable stand-ins.
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const PDF_STAND_INS: Record<string, string> = { '→': '->', '←': '<-', '≥': '>=', '≤': '<=', '≠': '!=' };
+
+const toWinAnsi = (text: string) => [...text].map(ch => {
+  const code = ch.charCodeAt(0);
+  if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(ch)) return ch;
+  return PDF_STAND_INS[ch] ?? (/\s/.test(ch) ? ' ' : '?');
+}).join('');
+
+const toPdfRgb = (color: PdfColor) => rgb(...color);
+
+// Coordinates passed to the drawing helpers are measured from the top-left of the page; a new page starts
+// whenever the next block would not fit.
+const createPdfLayout = (doc: PDFDocument, title: string) => {
+  const fonts = { regular: doc.embedStandardFont(StandardFonts.Helvetica), bold: doc.embedStandardFont(StandardFonts.HelveticaBold) };
+  let page: PDFPage | undefined;
+  let y = 0;
+
+  doc.setTitle(title);
+  doc.setProducer('MedAId');
+
+  const toPdfY = (top: number) => PDF_PAGE.height - top;
+
+  const textWidth = (text: string, size: number, bold = false) =>
+    (bold ? fonts.bold : fonts.regular).widthOfTextAtSize(toWinAnsi(text), size);
+
+  const wrapText = (text: string, size: number, width: number, bold = false) => {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && textWidth(candidate, size, bold) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  };
+
+  const addPage = () => {
+    page = doc.addPage([PDF_PAGE.width, PDF_PAGE.height]);
+    y = PDF_PAGE.margin;
+    return page;
+  };
+
+  const currentPage = () => page ?? addPage();
+
+  const ensureSpace = (height: number) => {
+    if (!page || y + height > PDF_PAGE.height - PDF_PAGE.margin) addPage();
+  };
+
+  const drawText = (text: string, x: number, top: number, { size = 10, bold = false, color = PDF_INK }: PdfTextOptions = {}, target = currentPage()) => {
+    target.drawText(toWinAnsi(text), { x, y: toPdfY(top + size), size, font: bold ? fonts.bold : fonts.regular, color: toPdfRgb(color) });
+  };
+
+  const drawLine = (x1: number, y1: number, x2: number, y2: number, color: PdfColor = PDF_RULE, width = 0.75) => {
+    currentPage().drawLine({ start: { x: x1, y: toPdfY(y1) }, end: { x: x2, y: toPdfY(y2) }, thickness: width, color: toPdfRgb(color) });
+  };
+
+  const fillRect = (x: number, top: number, width: number, height: number, color: PdfColor) => {
+    currentPage().drawRectangle({ x, y: toPdfY(top + height), width, height, color: toPdfRgb(color) });
+  };
+
+  const drawPolyline = (points: [number, number][], color: PdfColor, width = 1.5) => {
+    if (points.length < 2) return;
+    // drawSvgPath measures y downwards from its origin, which matches the top-down coordinates here.
+    const path = points.map(([x, py], i) => `${i === 0 ? 'M' : 'L'} ${x} ${py}`).join(' ');
+    currentPage().drawSvgPath(path, { x: 0, y: PDF_PAGE.height, borderColor: toPdfRgb(color), borderWidth: width, borderLineCap: LineCapStyle.Round });
+  };
+
+  const paragraph = (text: string, options: PdfTextOptions = {}) => {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    wrapText(text, size, PDF_CONTENT_WIDTH - indent, options.bold).forEach(line => {
+      ensureSpace(size * 1.4);
+      drawText(line, PDF_PAGE.margin + indent, y, options);
+      y += size * 1.4;
+    });
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(48);
+    y += 10;
+    drawText(text, PDF_PAGE.margin, y, { size: 13, bold: true });
+    y += 19;
+    drawLine(PDF_PAGE.margin, y, PDF_PAGE.width - PDF_PAGE.margin, y);
+    y += 8;
+  };
+
+  // Column widths are fractions of the content width; cells wrap and the header repeats on each new page.
+  const table = (columns: { label: string, width: number }[], rows: string[][]) => {
+    const size = 8.5;
+    const lineHeight = size * 1.35;
+    const widths = columns.map(c => c.width * PDF_CONTENT_WIDTH);
+    const header = () => {
+      let x = PDF_PAGE.margin;
+      columns.forEach((c, i) => {
+        drawText(c.label.toUpperCase(), x, y, { size: 7, bold: true, color: PDF_MUTED });
+        x += widths[i];
+      });
+      y += 12;
+      drawLine(PDF_PAGE.margin, y, PDF_PAGE.width - PDF_PAGE.margin, y);
+      y += 4;
+    };
+    ensureSpace(16 + lineHeight);
+    header();
+    rows.forEach(row => {
+      const cells = row.map((cell, i) => wrapText(cell, size, widths[i] - 6));
+      const height = Math.max(...cells.map(c => c.length)) * lineHeight + 4;
+      if (y + height > PDF_PAGE.height - PDF_PAGE.margin) {
+        addPage();
+        header();
+      }
+      let x = PDF_PAGE.margin;
+      cells.forEach((lines, i) => {
+        lines.forEach((line, j) => drawText(line, x, y + j * lineHeight, { size }));
+        x += widths[i];
+      });
+      y += height;
+      drawLine(PDF_PAGE.margin, y - 2, PDF_PAGE.width - PDF_PAGE.margin, y - 2, PDF_RULE, 0.4);
+    });
+  };
+
+  const space = (height: number) => { y += height; };
+
+  // Page numbers are only known once everything is laid out, so footers are stamped just before saving.
+  const save = async () => {
+    const pages = doc.getPages();
+    const footerTop = PDF_PAGE.height - PDF_PAGE.margin + 18;
+    pages.forEach((p, i) => {
+      const label = `Page ${i + 1} of ${pages.length}`;
+      drawText(title, PDF_PAGE.margin, footerTop, { size: 7, color: PDF_MUTED }, p);
+      drawText(label, PDF_PAGE.width - PDF_PAGE.margin - textWidth(label, 7), footerTop, { size: 7, color: PDF_MUTED }, p);
+    });
+    // Copied so the bytes are typed as backed by a plain ArrayBuffer, which Blob requires.
+    return new Uint8Array(await doc.save());
+  };
+
+  return {
+    get y() { return y; },
+    ensureSpace, textWidth, drawText, drawLine, fillRect, drawPolyline, paragraph, heading, table, space, save
+  };
+};
+
+type PdfLayout = ReturnType<typeof createPdfLayout>;
+
+const hexToPdfColor = (hex: string): PdfColor =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255) as PdfColor;
+
+const drawPdfTrendChart = (pdf: PdfLayout, series: ReportSeries, color: string) => {
+  const height = 110;
+  const labelWidth = 36;
+  pdf.ensureSpace(height + 30);
+  const top = pdf.y;
+  const left = PDF_PAGE.margin + labelWidth;
+  const width = PDF_CONTENT_WIDTH - labelWidth;
+
+  const values = series.readings.map(v => v.value!);
+  const limits = series.range ? [series.range.normalLow, series.range.normalHigh].filter((l): l is number => l !== undefined) : [];
+  const rawLo = Math.min(...values, ...limits);
+  const rawHi = Math.max(...values, ...limits);
+  const pad = (rawHi - rawLo || Math.abs(rawHi) || 1) * 0.15;
+  const lo = rawLo - pad;
+  const hi = rawHi + pad;
+  const start = series.readings[0].timestamp;
+  const end = series.readings[series.readings.length - 1].timestamp;
+  const xOf = (t: number) => left + (end === start ? width / 2 : (t - start) / (end - start) * width);
+  const yOf = (v: number) => top + height - (v - lo) / (hi - lo) * height;
+
+  if (series.range) {
+    severityBands(series.range, lo, hi).forEach(b => {
+      const band = hexToPdfColor(BAND_COLORS[b.severity]).map(c => 1 - (1 - c) * 0.12) as PdfColor;
+      pdf.fillRect(left, yOf(b.y2), width, yOf(b.y1) - yOf(b.y2), band);
+    });
+  }
+  pdf.drawLine(left, top + height, left + width, top + height, PDF_MUTED, 0.5);
+  [hi, (hi + lo) / 2, lo].forEach(v => pdf.drawText(formatReportValue(v), PDF_PAGE.margin, yOf(v) - 4, { size: 7, color: PDF_MUTED }));
+
+  const points = series.readings.map(v => [xOf(v.timestamp), yOf(v.value!)] as [number, number]);
+  const ink = hexToPdfColor(color);
+  pdf.drawPolyline(points, ink);
+  points.forEach(([x, py]) => pdf.fillRect(x - 1.75, py - 1.75, 3.5, 3.5, ink));
+
+  const firstLabel = observationDay(start);
+  const lastLabel = observationDay(end);
+  pdf.drawText(firstLabel, left, top + height + 5, { size: 7, color: PDF_MUTED });
+  if (end !== start) pdf.drawText(lastLabel, left + width - pdf.textWidth(lastLabel, 7), top + height + 5, { size: 7, color: PDF_MUTED });
+  pdf.space(height + 24);
+};
+
+const renderReportPdf = async (report: ClinicalReport) => {
+  const pdf = createPdfLayout(await PDFDocument.create(), `MedAId clinical report · ${report.patient.name} · ${new Date(report.generatedAt).toLocaleString()}`);
+  const { patient } = report;
+
+  pdf.paragraph('Clinical Summary Report', { size: 20, bold: true });
+  pdf.paragraph(patient.name, { size: 13, bold: true });
+  pdf.paragraph([
+    patient.age ? `${patient.age} years` : 'Age not recorded',
+    patient.sex ? patient.sex[0].toUpperCase() + patient.sex.slice(1) : 'Sex not recorded',
+    `Generated ${new Date(report.generatedAt).toLocaleString()}`
+  ].join('  •  '), { color: PDF_MUTED });
+  pdf.paragraph('Compiled from patient-held records and AI-assisted document extraction. Verify against source documents before clinical use.', { size: 8, color: PDF_MUTED });
+
+  pdf.heading('Current Medications');
+  if (report.medications.length > 0) {
+    pdf.table(
+      [{ label: 'Medication', width: 0.3 }, { label: 'Dosage', width: 0.15 }, { label: 'Frequency', width: 0.17 }, { label: 'Schedule', width: 0.24 }, { label: 'Adherence', width: 0.14 }],
+      report.medications.map(({ medication, schedule, adherence }) => [medication.name, medication.dosage, medication.frequency, schedule, adherence === undefined ? '—' : `${adherence}%`])
+    );
+  } else {
+    pdf.paragraph('No medications recorded.', { color: PDF_MUTED });
+  }
+
+  pdf.heading('Active Conditions');
+  if (report.conditions.length > 0) {
+    pdf.table(
+      [{ label: 'Condition', width: 0.55 }, { label: 'Status', width: 0.25 }, { label: 'Onset', width: 0.2 }],
+      report.conditions.map(h => [h.condition, h.status || '—', h.date || '—'])
+    );
+  } else {
+    pdf.paragraph('No active conditions recorded.', { color: PDF_MUTED });
+  }
+
+  pdf.heading('Vitals and Laboratory Results');
+  if (report.series.length === 0 && report.otherVitals.length === 0) pdf.paragraph('No vitals recorded.', { color: PDF_MUTED });
+  report.series.forEach((series, i) => {
+    pdf.ensureSpace(190);
+    pdf.paragraph(`${series.param.name} (${series.param.unit})`, { size: 11, bold: true });
+    pdf.paragraph(`${describeRange(series.range)}  •  ${series.readings.length} reading${series.readings.length === 1 ? '' : 's'}`, { size: 8, color: PDF_MUTED });
+    pdf.space(4);
+    drawPdfTrendChart(pdf, series, SERIES_COLORS[i % SERIES_COLORS.length]);
+    const recent = series.readings.slice(-REPORT_MAX_ROWS).reverse();
+    pdf.table(
+      [{ label: 'Date', width: 0.2 }, { label: `Value (${series.param.unit})`, width: 0.2 }, { label: 'As reported', width: 0.4 }, { label: 'Status', width: 0.2 }],
+      recent.map(v => [observationDay(v.timestamp), formatReportValue(v.value!), `${v.reading} ${v.unit}`.trim(), v.severity])
+    );
+    if (series.readings.length > recent.length) pdf.paragraph(`${series.readings.length - recent.length} earlier readings are charted but not listed.`, { size: 8, color: PDF_MUTED });
+    pdf.space(8);
+  });
+  if (report.otherVitals.length > 0) {
+    pdf.paragraph('Other Results', { size: 11, bold: true });
+    pdf.table(
+      [{ label: 'Date', width: 0.2 }, { label: 'Parameter', width: 0.35 }, { label: 'Result', width: 0.25 }, { label: 'Status', width: 0.2 }],
+      report.otherVitals.map(v => [observationDay(v.timestamp), v.parameter, `${v.reading} ${v.unit}`.trim(), v.severity])
+    );
+  }
+
+  pdf.heading('Clinical Assessment');
+  const latest = report.assessment;
+  if (latest) {
+    pdf.paragraph(`Generated ${new Date(latest.generatedAt).toLocaleString()}  •  ${describeAssessmentSource(latest)}`, { size: 8, color: PDF_MUTED });
+    pdf.space(4);
+    pdf.paragraph(latest.assessment.summary);
+    ([['Risk Factors', latest.assessment.risks], ['Recommendations', latest.assessment.recommendations], ['Next Steps', latest.assessment.nextSteps]] as const).forEach(([label, items]) => {
+      if (items.length === 0) return;
+      pdf.space(6);
+      pdf.paragraph(label, { size: 10, bold: true });
+      items.forEach(item => pdf.paragraph(`•  ${item}`, { indent: 8 }));
+    });
+    pdf.space(6);
+    pdf.paragraph('AI-generated assessment. It is not a diagnosis and must be reviewed by a clinician.', { size: 8, color: PDF_MUTED });
+  } else {
+    pdf.paragraph('No assessment has been generated.', { color: PDF_MUTED });
+  }
+
+  return pdf.save();
+};
+
+// --- DOSE REMINDERS ---
+
+const REMINDERS_KEY = 'medaid_dose_reminders';
+// Doses more than this overdue when the app is opened are left to the checklist rather than notified.
+const REMINDER_WINDOW_MINUTES = 60;
+
+const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register('/sw.js').catch(e => console.error("Service worker error", e));
+};
+
+const loadRemindersEnabled = () => localStorage.getItem(REMINDERS_KEY) === 'on' && 'Notification' in window && Notification.permission === 'granted';
+
+const minutesOfDay = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+// Notifications can appear on a locked phone screen, so they never name the patient or the medication.
+const showDoseReminder = async (time: string, count: number) => {
+  const registration = await navigator.serviceWorker?.getRegistration();
+  await registration?.showNotification('Medication reminder', {
+    body: count === 1 ? `A dose scheduled for ${time} is due.` : `${count} doses scheduled for ${time} are due.`,
+    tag: `medaid-dose-${time}`
+  });
+};
+
+// --- COMPONENTS ---
+
+const SERIES_COLORS = ['#4f46e5', '#e11d48', '#059669', '#d97706', '#0891b2', '#7c3aed'];
+
+const TREND_RANGES = [
+  { id: '30d', label: '30D', days: 30 },
+  { id: '90d', label: '90D', days: 90 },
+  { id: '1y', label: '1Y', days: 365 },
+  { id: 'all', label: 'All' }
+];
+
+const BAND_COLORS = { Normal: '#10b981', Elevated: '#f59e0b', Critical: '#f43f5e' };
+
+const formatShortDate = (ts: number) => new Date(ts).toLocaleDateString([], { month: 'short', day: 'numeric', year: '2-digit' });
+
+// Splits the visible y-domain into shaded severity bands from the patient's reference range.
+const severityBands = (range: ReferenceRange, lo: number, hi: number) => {
+  const bands: { severity: Severity, y1?: number, y2?: number }[] = [
+    { severity: 'Critical', y1: lo, y2: range.criticalLow },
+    { severity: 'Elevated', y1: range.criticalLow ?? lo, y2: range.normalLow },
+    { severity: 'Normal', y1: range.normalLow ?? lo, y2: range.normalHigh ?? hi },
+    { severity: 'Elevated', y1: range.normalHigh, y2: range.criticalHigh ?? hi },
+    { severity: 'Critical', y1: range.criticalHigh, y2: hi }
+  ];
+  return bands
+    .filter((b): b is { severity: Severity, y1: number, y2: number } => b.y1 !== undefined && b.y2 !== undefined)
+    .map(b => ({ ...b, y1: Math.max(lo, b.y1), y2: Math.min(hi, b.y2) }))
+    .filter(b => b.y2 > b.y1);
+};
+
+const TrendChart: React.FC<{
+  param: CanonicalParameter,
+  points: VitalsRecord[],
+  range?: ReferenceRange,
+  color: string,
+  domain: [number, number],
+  documentNames: Record<string, string>,
+  onOpenSource: (v: VitalsRecord) => void
+}> = ({ param, points, range, color, domain, documentNames, onOpenSource }) => {
+  const values = points.map(p => p.value!);
+  const limits = range ? [range.normalLow, range.normalHigh].filter((l): l is number => l !== undefined) : [];
+  const rawLo = Math.min(...values, ...limits);
+  const rawHi = Math.max(...values, ...limits);
+  const pad = (rawHi - rawLo || Math.abs(rawHi) || 1) * 0.15;
+  const lo = rawLo - pad;
+  const hi = rawHi + pad;
+  const data = points.map(p => ({ t: p.timestamp, value: p.value, vital: p }));
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-2 px-4">
+        <p className="font-bold text-slate-900 text-sm">{param.name} <span className="text-slate-400 font-medium text-xs">{param.unit}</span></p>
+        {!range && <span className="text-[10px] font-bold uppercase tracking-wider text-slate-300">No reference range</span>}
+      </div>
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} onClick={(e: any) => e?.activePayload?.[0] && onOpenSource(e.activePayload[0].payload.vital)}>
+            {range && severityBands(range, lo, hi).map((b, i) => (
+              <ReferenceArea key={i} y1={b.y1} y2={b.y2} fill={BAND_COLORS[b.severity]} fillOpacity={0.08} stroke="none" ifOverflow="hidden" />
+            ))}
+            <CartesianGrid strokeDasharray="5 5" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="t" type="number" scale="time" domain={domain} tickFormatter={formatShortDate} axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 11, fontWeight: 600}} dy={10} />
+            <YAxis domain={[lo, hi]} allowDataOverflow width={48} axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 11}} tickFormatter={(v: number) => `${Math.round(v * 10) / 10}`} />
+            <Tooltip
+              cursor={{ stroke: '#cbd5e1' }}
+              content={({ active, payload }: any) => {
+                if (!active || !payload?.[0]) return null;
+                const v: VitalsRecord = payload[0].payload.vital;
+                return (
+                  <div className="bg-white rounded-2xl shadow-2xl p-4 text-xs space-y-1 border border-slate-100">
+                    <p className="font-black text-slate-900 text-sm">{v.value} {param.unit}</p>
+                    <p className="text-slate-500">Reported as {v.reading} {v.unit} on {new Date(v.timestamp).toLocaleDateString()}</p>
+                    <p className={`font-bold ${v.severity === 'Critical' ? 'text-rose-600' : v.severity === 'Elevated' ? 'text-amber-600' : 'text-emerald-600'}`}>{v.severity}</p>
+                    <p className="text-indigo-600 font-bold">{v.sourceId ? `Source: ${documentNames[v.sourceId] || 'document'} · click to open` : 'Entered without a source document'}</p>
+                  </div>
+                );
+              }}
+            />
+            <Line type="monotone" dataKey="value" stroke={color} strokeWidth={3} dot={{ r: 4, strokeWidth: 0, fill: color, cursor: 'pointer' }} activeDot={{ r: 6, cursor: 'pointer' }} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+const TrendExplorer: React.FC<{
+  vitals: VitalsRecord[],
+  patient: { age?: number, sex?: Sex },
+  documentNames: Record<string, string>,
+  onOpenSource: (v: VitalsRecord) => void
+}> = ({ vitals, patient, documentNames, onOpenSource }) => {
+  const plotted = useMemo(() => vitals
+    .filter(v => v.code && v.value !== undefined)
+    .sort((a, b) => a.timestamp - b.timestamp), [vitals]);
+  const available = useMemo(() =>
+    [...new Set(plotted.map(v => v.code!))].map(code => findParameterByCode(code)!), [plotted]);
+
+  const [selected, setSelected] = useState<string[]>([]);
+  const [rangeId, setRangeId] = useState('all');
+
+  // Default to the two most recently observed parameters until the user picks their own.
+  const activeCodes = selected.filter(c => available.some(p => p.code === c));
+  const shownCodes = activeCodes.length > 0 ? activeCodes : [...new Set([...plotted].reverse().map(v => v.code!))].slice(0, 2);
+
+  const days = TREND_RANGES.find(r => r.id === rangeId)?.days;
+  const end = plotted.length > 0 ? Math.max(Date.now(), plotted[plotted.length - 1].timestamp) : Date.now();
+  const start = days ? end - days * 86400000 : (plotted[0]?.timestamp ?? end);
+  const domain: [number, number] = [start, start === end ? end + 86400000 : end];
+
+  const toggle = (code: string) => setSelected(() => {
+    const base = activeCodes.length > 0 ? activeCodes : shownCodes;
+    return base.includes(code) ? base.filter(c => c !== code) : [...base, code];
+  });
+
+  return (
+    <div className="lg:col-span-2 bg-white p-8 rounded-[2.5rem] shadow-sm border border-slate-200 relative overflow-hidden">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center gap-3">
+          <div className="w-2 h-6 bg-indigo-600 rounded-full"></div>
+          Longitudinal Trends
+        </h3>
+        <div className="flex gap-1 bg-slate-50 p-1 rounded-xl border border-slate-100">
+          {TREND_RANGES.map(r => (
+            <button key={r.id} onClick={() => setRangeId(r.id)} className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${rangeId === r.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {available.length > 0 ? (
+        <>
+          <div className="flex flex-wrap gap-2 mb-6">
+            {available.map(p => (
+              <button key={p.code} onClick={() => toggle(p.code)} className={`px-3 py-1.5 rounded-xl text-xs font-bold border transition-all ${shownCodes.includes(p.code) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-200'}`}>
+                {p.name}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-6 -ml-4">
+            {shownCodes.map((code, i) => {
+              const points = plotted.filter(v => v.code === code && v.timestamp >= start);
+              const param = findParameterByCode(code)!;
+              return points.length > 0 ? (
+                <TrendChart key={code} param={param} points={points} range={findReferenceRange(code, patient)} color={SERIES_COLORS[i % SERIES_COLORS.length]} domain={domain} documentNames={documentNames} onOpenSource={onOpenSource} />
+              ) : (
+                <p key={code} className="px-4 text-sm text-slate-400 font-medium">No {param.name} readings in this period</p>
+              );
+            })}
+          </div>
+        </>
+      ) : (
+        <div className="h-80 flex flex-col items-center justify-center text-slate-400">
+          <svg className="w-12 h-12 mb-3 opacity-20" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"/></svg>
+          <p className="font-medium">No vitals data to visualize yet</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ReportTrendChart: React.FC<{ series: ReportSeries, color: string }> = ({ series, color }) => {
+  const values = series.readings.map(v => v.value!);
+  const limits = series.range ? [series.range.normalLow, series.range.normalHigh].filter((l): l is number => l !== undefined) : [];
+  const rawLo = Math.min(...values, ...limits);
+  const rawHi = Math.max(...values, ...limits);
+  const pad = (rawHi - rawLo || Math.abs(rawHi) || 1) * 0.15;
+  const lo = rawLo - pad;
+  const hi = rawHi + pad;
+
+  return (
+    <LineChart width={640} height={150} data={series.readings.map(v => ({ t: v.timestamp, value: v.value }))} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+      {series.range && severityBands(series.range, lo, hi).map((b, i) => (
+        <ReferenceArea key={i} y1={b.y1} y2={b.y2} fill={BAND_COLORS[b.severity]} fillOpacity={0.1} stroke="none" ifOverflow="hidden" />
+      ))}
+      <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#e2e8f0" />
+      <XAxis dataKey="t" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatShortDate} tick={{ fill: '#64748b', fontSize: 10 }} />
+      <YAxis domain={[lo, hi]} allowDataOverflow width={44} tick={{ fill: '#64748b', fontSize: 10 }} tickFormatter={(v: number) => `${Math.round(v * 10) / 10}`} />
+      <Line type="linear" dataKey="value" stroke={color} strokeWidth={2} dot={{ r: 2.5, strokeWidth: 0, fill: color }} isAnimationActive={false} />
+    </LineChart>
+  );
+};
+
+// Rendered outside #root so printing shows only the report; index.html hides the app while it is open.
+const ClinicalReportView: React.FC<{ report: ClinicalReport, onDownloadPdf: () => void, onClose: () => void }> = ({ report, onDownloadPdf, onClose }) => {
+  useEffect(() => {
+    document.body.classList.add('printing-report');
+    return () => document.body.classList.remove('printing-report');
+  }, []);
+
+  const { patient } = report;
+  const latest = report.assessment;
+  const section = (title: string, children: React.ReactNode) => (
+    <section className="mt-8 break-inside-avoid-page">
+      <h2 className="text-base font-black text-slate-900 border-b border-slate-200 pb-2 mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+  const empty = (text: string) => <p className="text-sm text-slate-400 italic">{text}</p>;
+  const cell = 'py-1.5 pr-3 align-top';
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm overflow-y-auto p-8 print:static print:bg-white print:p-0 print:overflow-visible print:backdrop-blur-none">
+      <div className="max-w-[210mm] mx-auto mb-4 flex justify-end gap-3 print:hidden">
+        <button onClick={() => window.print()} className="bg-white text-slate-700 px-6 py-3 rounded-2xl font-bold text-sm shadow-xl hover:bg-slate-50 transition-all">Print</button>
+        <button onClick={onDownloadPdf} className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-2xl font-bold text-sm shadow-xl transition-all">Download PDF</button>
+        <button onClick={onClose} className="bg-slate-800 text-white px-6 py-3 rounded-2xl font-bold text-sm shadow-xl hover:bg-slate-700 transition-all">Close</button>
+      </div>
+      <article className="max-w-[210mm] mx-auto bg-white text-slate-900 p-[18mm] shadow-2xl print:shadow-none print:p-0 print:max-w-none">
+        <header>
+          <p className="text-2xl font-black">Clinical Summary Report</p>
+          <p className="text-lg font-bold mt-1">{patient.name}</p>
+          <p className="text-sm text-slate-500">
+            {patient.age ? `${patient.age} years` : 'Age not recorded'} • <span className="capitalize">{patient.sex ?? 'Sex not recorded'}</span> • Generated {new Date(report.generatedAt).toLocaleString()}
+          </p>
+          <p className="text-xs text-slate-400 mt-2">Compiled from patient-held records and AI-assisted document extraction. Verify against source documents before clinical use.</p>
+        </header>
+
+        {section('Current Medications', report.medications.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead className="text-[10px] uppercase tracking-wider text-slate-400 text-left"><tr><th className={cell}>Medication</th><th className={cell}>Dosage</th><th className={cell}>Frequency</th><th className={cell}>Schedule</th><th className={cell}>Adherence</th></tr></thead>
+            <tbody className="divide-y divide-slate-100">
+              {report.medications.map(({ medication, schedule, adherence }) => (
+                <tr key={medication.id}><td className={`${cell} font-bold`}>{medication.name}</td><td className={cell}>{medication.dosage}</td><td className={cell}>{medication.frequency}</td><td className={cell}>{schedule}</td><td className={cell}>{adherence === undefined ? '—' : `${adherence}%`}</td></tr>
+              ))}
+            </tbody>
+          </table>
+        ) : empty('No medications recorded.'))}
+
+        {section('Active Conditions', report.conditions.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead className="text-[10px] uppercase tracking-wider text-slate-400 text-left"><tr><th className={cell}>Condition</th><th className={cell}>Status</th><th className={cell}>Onset</th></tr></thead>
+            <tbody className="divide-y divide-slate-100">
+              {report.conditions.map(h => (
+                <tr key={h.id}><td className={`${cell} font-bold`}>{h.condition}</td><td className={cell}>{h.status || '—'}</td><td className={cell}>{h.date || '—'}</td></tr>
+              ))}
+            </tbody>
+          </table>
+        ) : empty('No active conditions recorded.'))}
+
+        <section className="mt-8">
+          <h2 className="text-base font-black text-slate-900 border-b border-slate-200 pb-2 mb-3">Vitals and Laboratory Results</h2>
+          {report.series.length === 0 && report.otherVitals.length === 0 && empty('No vitals recorded.')}
+          {report.series.map((series, i) => {
+            const recent = series.readings.slice(-REPORT_MAX_ROWS).reverse();
+            return (
+              <div key={series.param.code} className="mb-6 break-inside-avoid-page">
+                <p className="font-bold">{series.param.name} <span className="text-slate-400 font-medium text-sm">({series.param.unit})</span></p>
+                <p className="text-xs text-slate-500 mb-2">{describeRange(series.range)} • {series.readings.length} reading{series.readings.length === 1 ? '' : 's'}</p>
+                <ReportTrendChart series={series} color={SERIES_COLORS[i % SERIES_COLORS.length]} />
+                <table className="w-full text-sm mt-2">
+                  <thead className="text-[10px] uppercase tracking-wider text-slate-400 text-left"><tr><th className={cell}>Date</th><th className={cell}>Value ({series.param.unit})</th><th className={cell}>As reported</th><th className={cell}>Status</th></tr></thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {recent.map(v => (
+                      <tr key={v.id}><td className={cell}>{observationDay(v.timestamp)}</td><td className={`${cell} font-bold`}>{formatReportValue(v.value!)}</td><td className={cell}>{v.reading} {v.unit}</td><td className={cell}>{v.severity}</td></tr>
+                    ))}
+                  </tbody>
+                </table>
+                {series.readings.length > recent.length && <p className="text-xs text-slate-400 mt-1">{series.readings.length - recent.length} earlier readings are charted but not listed.</p>}
+              </div>
+            );
+          })}
+          {report.otherVitals.length > 0 && (
+            <div className="break-inside-avoid-page">
+              <p className="font-bold mb-2">Other Results</p>
+              <table className="w-full text-sm">
+                <thead className="text-[10px] uppercase tracking-wider text-slate-400 text-left"><tr><th className={cell}>Date</th><th className={cell}>Parameter</th><th className={cell}>Result</th><th className={cell}>Status</th></tr></thead>
+                <tbody className="divide-y divide-slate-100">
+                  {report.otherVitals.map(v => (
+                    <tr key={v.id}><td className={cell}>{observationDay(v.timestamp)}</td><td className={`${cell} font-bold`}>{v.parameter}</td><td className={cell}>{v.reading} {v.unit}</td><td className={cell}>{v.severity}</td></tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {section('Clinical Assessment', latest ? (
+          <div className="text-sm space-y-3">
+            <p className="text-xs text-slate-500">Generated {new Date(latest.generatedAt).toLocaleString()} • {describeAssessmentSource(latest)}</p>
+            <p className="leading-relaxed">{latest.assessment.summary}</p>
+            {([['Risk Factors', latest.assessment.risks], ['Recommendations', latest.assessment.recommendations], ['Next Steps', latest.assessment.nextSteps]] as const).map(([label, items]) => items.length > 0 && (
+              <div key={label}>
+                <p className="font-bold">{label}</p>
+                <ul className="list-disc pl-5 space-y-1">{items.map((item, i) => <li key={i}>{item}</li>)}</ul>
+              </div>
+            ))}
+            <p className="text-xs text-slate-400">AI-generated assessment. It is not a diagnosis and must be reviewed by a clinician.</p>
+          </div>
+        ) : empty('No assessment has been generated.'))}
+      </article>
+    </div>,
+    document.body
+  );
+};
+
+const SourceLink: React.FC<{ sourceId?: string, documentNames: Record<string, string>, onOpen: (id: string) => void }> = ({ sourceId, documentNames, onOpen }) => {
+  if (!sourceId) return null;
+  return (
+    <button onClick={() => onOpen(sourceId)} className="block ml-auto text-[10px] font-bold text-indigo-400 hover:text-indigo-600 truncate max-w-[12rem] transition-colors" title="Open source document">
+      {documentNames[sourceId] || 'Source document'}
+    </button>
+  );
+};
+
+const DocumentViewer: React.FC<{ documentId: string, profile: PatientProfile, onClose: () => void }> = ({ documentId, profile, onClose }) => {
+  const [doc, setDoc] = useState<SourceDocument | null | undefined>(undefined);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    getSourceDocument(documentId).then(d => {
+      setDoc(d || null);
+      if (d) {
+        objectUrl = URL.createObjectURL(d.data);
+        setUrl(objectUrl);
+      }
+    }).catch(() => setDoc(null));
+    return () => { if (objectUrl) URL.revokeObjectURL(objectUrl); };
+  }, [documentId]);
+
+  const linkedVitals = profile.vitals.filter(v => v.sourceId === documentId);
+  const linkedHistory = profile.history.filter(h => h.sourceId === documentId);
+  const linkedMeds = profile.medications.filter(m => m.sourceId === documentId);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-6xl h-full max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-8 border-b border-slate-100 flex justify-between items-start gap-4">
+          <div className="min-w-0">
+            <h3 className="text-xl font-black text-slate-900 truncate">{doc?.fileName || 'Source Document'}</h3>
+            {doc && (
+              <p className="text-xs text-slate-400 font-medium mt-1">
+                Uploaded {new Date(doc.uploadedAt).toLocaleString()} • {(doc.size / 1024).toFixed(0)} KB • SHA-256 {doc.hash.slice(0, 16)}…
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-xs font-bold uppercase tracking-wider shrink-0">Close</button>
+        </div>
+        {doc === null ? (
+          <div className="flex-1 flex items-center justify-center text-slate-400 font-medium">The original file is not available on this device.</div>
+        ) : (
+          <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 min-h-0">
+            <div className="bg-slate-50 border-r border-slate-100 min-h-0">
+              {url && doc?.mimeType.startsWith('image/') && <img src={url} alt={doc.fileName} className="w-full h-full object-contain" />}
+              {url && doc?.mimeType === 'application/pdf' && <iframe src={url} title={doc.fileName} className="w-full h-full" />}
+            </div>
+            <div className="overflow-y-auto p-8 space-y-8">
+              <div>
+                <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mb-3">Extracted Vitals</p>
+                {linkedVitals.length > 0 ? linkedVitals.map(v => (
+                  <div key={v.id} className="flex justify-between py-2 border-b border-slate-50 text-sm">
+                    <span className="font-bold text-slate-900">{v.parameter}</span>
+                    <span className="text-slate-600">{v.reading} {v.unit} <span className="text-slate-400 text-xs">({v.severity})</span></span>
+                  </div>
+                )) : <p className="text-sm text-slate-400 italic">None</p>}
+              </div>
+              <div>
+                <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mb-3">Extracted Conditions</p>
+                {linkedHistory.length > 0 ? linkedHistory.map(h => (
+                  <div key={h.id} className="flex justify-between py-2 border-b border-slate-50 text-sm">
+                    <span className="font-bold text-slate-900">{h.condition}</span>
+                    <span className="text-slate-600">{h.status} {h.date && <span className="text-slate-400 text-xs">({h.date})</span>}</span>
+                  </div>
+                )) : <p className="text-sm text-slate-400 italic">None</p>}
+              </div>
+              <div>
+                <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mb-3">Extracted Medications</p>
+                {linkedMeds.length > 0 ? linkedMeds.map((m, i) => (
+                  <div key={i} className="flex justify-between py-2 border-b border-slate-50 text-sm">
+                    <span className="font-bold text-slate-900">{m.name}</span>
+                    <span className="text-slate-600">{m.dosage} • {m.frequency}</span>
+                  </div>
+                )) : <p className="text-sm text-slate-400 italic">None</p>}
+              </div>
+              {doc?.extraction && (
+                <details>
+                  <summary className="text-slate-400 text-[10px] font-black uppercase tracking-widest cursor-pointer">Raw Extraction Result</summary>
+                  <pre className="mt-3 p-4 bg-slate-50 rounded-2xl text-xs text-slate-600 overflow-x-auto">{JSON.stringify(doc.extraction, null, 2)}</pre>
+                </details>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const REVIEW_INPUT = 'px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 text-sm font-medium text-slate-700 focus:ring-2 focus:ring-indigo-100 focus:bg-white min-w-0';
+
+const UPLOAD_STATUS_STYLES: Record<UploadStatus, string> = {
+  queued: 'bg-slate-100 text-slate-500',
+  processing: 'bg-indigo-50 text-indigo-600',
+  done: 'bg-emerald-50 text-emerald-600',
+  failed: 'bg-rose-50 text-rose-600',
+  skipped: 'bg-amber-50 text-amber-600'
+};
+
+const UploadQueue: React.FC<{
+  tasks: UploadTask[],
+  patientNames: Record<string, string>,
+  activeId: string,
+  onRetry: (id: string) => void,
+  onClear: () => void
+}> = ({ tasks, patientNames, activeId, onRetry, onClear }) => {
+  const count = (status: UploadStatus) => tasks.filter(t => t.status === status).length;
+  const pending = count('queued') + count('processing');
+  return (
+    <div className="mb-8 bg-white rounded-[2rem] border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-8 py-5 border-b border-slate-100 flex justify-between items-center gap-4">
+        <div>
+          <p className="font-black text-slate-900">
+            {pending > 0 ? `Processing uploads: ${tasks.length - pending} of ${tasks.length} finished` : `Upload batch finished: ${tasks.length} file${tasks.length === 1 ? '' : 's'}`}
+          </p>
+          <p className="text-xs text-slate-400 font-medium mt-1">{count('done')} extracted • {count('failed')} failed • {count('skipped')} skipped</p>
+        </div>
+        {pending === 0 && (
+          <button onClick={onClear} className="text-slate-400 hover:text-slate-700 text-xs font-bold uppercase tracking-wider">Clear</button>
+        )}
+      </div>
+      <ul className="divide-y divide-slate-50 max-h-80 overflow-y-auto">
+        {tasks.map(t => (
+          <li key={t.id} className="px-8 py-4 flex items-center gap-6">
+            <span className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider shrink-0 ${UPLOAD_STATUS_STYLES[t.status]} ${t.status === 'processing' ? 'animate-pulse' : ''}`}>{t.status}</span>
+            <div className="min-w-0 flex-1">
+              <p className="font-bold text-slate-900 truncate">
+                {t.file.name}
+                {t.patientId !== activeId && <span className="text-slate-400 text-xs font-medium"> → {patientNames[t.patientId]}</span>}
+              </p>
+              <p className={`text-sm font-medium ${t.status === 'failed' ? 'text-rose-600' : 'text-slate-500'}`}>{describeUpload(t)}</p>
+            </div>
+            {(t.status === 'failed' || t.status === 'skipped') && (
+              <button onClick={() => onRetry(t.id)} className="text-indigo-600 hover:text-indigo-800 text-xs font-bold uppercase tracking-wider shrink-0">
+                {t.status === 'failed' ? 'Retry' : 'Process Anyway'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const ExtractionReview: React.FC<{
+  review: PendingReview,
+  profile: PatientProfile,
+  remaining: number,
+  onCommit: (items: ReviewItem[]) => void,
+  onDiscard: () => void
+}> = ({ review, profile, remaining, onCommit, onDiscard }) => {
+  const [items, setItems] = useState(review.items);
+  const [documentDate, setDocumentDate] = useState(review.documentDate || '');
+  const [datedByHand, setDatedByHand] = useState<Set<string>>(new Set());
+
+  const update = (id: string, patch: (item: ReviewItem) => ReviewItem) =>
+    setItems(prev => prev.map(i => i.id === id ? patch(i) : i));
+
+  const setVitalDate = (id: string, value: string) => {
+    const timestamp = parseClinicalDate(value);
+    if (timestamp === undefined) return;
+    setDatedByHand(prev => new Set(prev).add(id));
+    update(id, i => i.kind === 'vital' ? { ...i, vital: { ...i.vital, timestamp, dateSource: 'manual' } } : i);
+  };
+
+  // The document date applies to every reading that neither carries its own date nor was set by hand.
+  const applyDocumentDate = (value: string) => {
+    setDocumentDate(value);
+    const timestamp = parseClinicalDate(value);
+    if (timestamp === undefined) return;
+    setItems(prev => prev.map(i => i.kind === 'vital' && i.vital.dateSource !== 'reading' && !datedByHand.has(i.id)
+      ? { ...i, vital: { ...i.vital, timestamp, dateSource: 'manual' } }
+      : i));
+  };
+  const toggle = (id: string) => update(id, i => ({ ...i, accepted: !i.accepted }));
+
+  const matchBadge = (item: ReviewItem) => {
+    const earlier = items.slice(0, items.indexOf(item));
+    const match = item.kind === 'vital' ? matchVital(item.vital, [...profile.vitals, ...earlier.flatMap(i => i.kind === 'vital' ? normalizeVital(i.vital) : [])])
+      : item.kind === 'condition' ? matchCondition(item.entry, [...profile.history, ...earlier.flatMap(i => i.kind === 'condition' ? [i.entry] : [])])
+      : undefined;
+    if (!match || (item.kind !== 'vital' && item.kind !== 'condition')) return null;
+    return (
+      <div className="flex items-center gap-2 shrink-0">
+        <span title={match.summary} className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider max-w-[10rem] truncate ${match.kind === 'duplicate' ? 'bg-violet-50 text-violet-500' : 'bg-amber-50 text-amber-600'}`}>
+          {match.kind === 'duplicate' ? 'Duplicate' : `Conflict: ${match.summary}`}
+        </span>
+        {item.accepted && (
+          <select
+            value={item.replaceExisting ? 'replace' : 'both'}
+            onChange={e => update(item.id, i => ({ ...i, replaceExisting: e.target.value === 'replace' } as ReviewItem))}
+            className="px-2 py-1 rounded-lg bg-white border border-slate-200 text-xs font-bold text-slate-600"
+          >
+            <option value="both">Keep both</option>
+            <option value="replace">Replace existing</option>
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  const section = (title: string, kind: ReviewItem['kind']) => {
+    const rows = items.filter(i => i.kind === kind);
+    if (rows.length === 0) return null;
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest">{title}</p>
+          <div className="flex gap-3 text-[10px] font-bold uppercase tracking-wider">
+            <button onClick={() => setItems(prev => prev.map(i => i.kind === kind ? { ...i, accepted: true } : i))} className="text-indigo-500 hover:text-indigo-700">Accept all</button>
+            <button onClick={() => setItems(prev => prev.map(i => i.kind === kind ? { ...i, accepted: false } : i))} className="text-slate-400 hover:text-slate-600">Reject all</button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {rows.map(item => (
+            <div key={item.id} className={`flex items-center gap-3 p-3 rounded-2xl border transition-all ${item.accepted ? 'bg-white border-indigo-100' : 'bg-slate-50 border-slate-100 opacity-60'}`}>
+              <input type="checkbox" checked={item.accepted} onChange={() => toggle(item.id)} className="w-4 h-4 accent-indigo-600 shrink-0" />
+              {item.kind === 'demographic' && (
+                <>
+                  <span className="w-16 text-xs font-bold text-slate-500 uppercase">{item.key}</span>
+                  <span className="text-sm text-slate-400 line-through truncate">{item.before || '—'}</span>
+                  <span className="text-slate-300">→</span>
+                  <input className={`${REVIEW_INPUT} flex-1`} value={item.after} onChange={e => update(item.id, i => ({ ...i, after: e.target.value } as ReviewItem))} />
+                </>
+              )}
+              {item.kind === 'vital' && (
+                <>
+                  <input className={`${REVIEW_INPUT} flex-1`} value={item.vital.parameter} onChange={e => update(item.id, i => i.kind === 'vital' ? { ...i, vital: { ...i.vital, parameter: e.target.value } } : i)} />
+                  <input className={`${REVIEW_INPUT} w-24`} value={item.vital.reading} onChange={e => update(item.id, i => i.kind === 'vital' ? { ...i, vital: { ...i.vital, reading: e.target.value } } : i)} />
+                  <input className={`${REVIEW_INPUT} w-24`} value={item.vital.unit} onChange={e => update(item.id, i => i.kind === 'vital' ? { ...i, vital: { ...i.vital, unit: e.target.value } } : i)} />
+                  <input
+                    type="date"
+                    className={`${REVIEW_INPUT} w-36 ${item.vital.dateSource === 'upload' ? 'border-amber-300 bg-amber-50' : ''}`}
+                    value={observationDay(item.vital.timestamp)}
+                    max={observationDay(Date.now())}
+                    onChange={e => setVitalDate(item.id, e.target.value)}
+                    title={item.vital.dateSource === 'upload' ? 'No date found in the document; defaulted to today' : `Date from ${item.vital.dateSource}`}
+                  />
+                  <span className="w-20 text-right text-[10px] font-black uppercase tracking-wider text-slate-400">
+                    {ingestVitals([item.vital], profile).map(v => v.severity).join(' / ')}
+                  </span>
+                  {matchBadge(item)}
+                </>
+              )}
+              {item.kind === 'condition' && (
+                <>
+                  <input className={`${REVIEW_INPUT} flex-1`} value={item.entry.condition} onChange={e => update(item.id, i => i.kind === 'condition' ? { ...i, entry: { ...i.entry, condition: e.target.value } } : i)} />
+                  <input className={`${REVIEW_INPUT} w-32`} value={item.entry.status} onChange={e => update(item.id, i => i.kind === 'condition' ? { ...i, entry: { ...i.entry, status: e.target.value } } : i)} />
+                  <input className={`${REVIEW_INPUT} w-28`} value={item.entry.date} onChange={e => update(item.id, i => i.kind === 'condition' ? { ...i, entry: { ...i.entry, date: e.target.value } } : i)} />
+                  {matchBadge(item)}
+                </>
+              )}
+              {item.kind === 'medication' && (
+                <>
+                  <span className={`w-20 text-[10px] font-black uppercase tracking-wider ${item.change === 'added' ? 'text-emerald-600' : item.change === 'removed' ? 'text-rose-600' : 'text-amber-600'}`}>{item.change}</span>
+                  {item.change === 'removed' ? (
+                    <span className="flex-1 text-sm font-medium text-slate-600">{item.before!.name} <span className="text-slate-400">{item.before!.dosage} • {item.before!.frequency}</span></span>
+                  ) : (
+                    <>
+                      <input className={`${REVIEW_INPUT} flex-1`} value={item.after!.name} onChange={e => update(item.id, i => i.kind === 'medication' ? { ...i, after: { ...i.after!, name: e.target.value } } : i)} />
+                      <input className={`${REVIEW_INPUT} w-28`} value={item.after!.dosage} onChange={e => update(item.id, i => i.kind === 'medication' ? { ...i, after: { ...i.after!, dosage: e.target.value } } : i)} title={item.before ? `Was: ${item.before.dosage}` : undefined} />
+                      <input className={`${REVIEW_INPUT} w-28`} value={item.after!.frequency} onChange={e => update(item.id, i => i.kind === 'medication' ? { ...i, after: { ...i.after!, frequency: e.target.value } } : i)} title={item.before ? `Was: ${item.before.frequency}` : undefined} />
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-900">Review Extracted Data</h3>
+          <p className="text-xs text-slate-400 font-medium mt-1">
+            {review.fileName} → {profile.name}{remaining > 0 && ` • ${remaining} more document${remaining > 1 ? 's' : ''} waiting`}
+          </p>
+          {items.some(i => i.kind === 'vital') && (
+            <label className="mt-4 flex items-center gap-3 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              Collection Date
+              <input type="date" className={REVIEW_INPUT} value={documentDate} max={observationDay(Date.now())} onChange={e => applyDocumentDate(e.target.value)} />
+              {!review.documentDate && <span className="normal-case tracking-normal font-medium text-amber-600">Not found in document — readings default to today</span>}
+            </label>
+          )}
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {items.length === 0 && <p className="text-slate-400 font-medium italic">Nothing new was found in this document.</p>}
+          {section('Demographics', 'demographic')}
+          {section('New Vitals', 'vital')}
+          {section('New Conditions', 'condition')}
+          {section('Medication Changes', 'medication')}
+        </div>
+        <div className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <button onClick={onDiscard} className="text-slate-400 hover:text-rose-500 font-bold text-sm transition-colors">Discard All</button>
+          <button onClick={() => onCommit(items)} className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-2xl font-bold shadow-xl shadow-indigo-100 transition-all active:scale-95 text-sm">
+            Commit {items.filter(i => i.accepted).length} of {items.length} Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CONDITION_STATUSES = ['Active', 'Chronic', 'Resolved', 'In Remission'];
+const MEDICATION_FREQUENCIES = ['Once daily', 'Twice daily', 'Three times daily', 'Every night', 'As needed', 'Weekly'];
+
+const StructuredImportDialog: React.FC<{
+  pending: PendingStructuredImport,
+  profile: PatientProfile,
+  onImport: (vitals: VitalsRecord[]) => void,
+  onClose: () => void
+}> = ({ pending, profile, onImport, onClose }) => {
+  const header = pending.kind === 'csv' ? pending.table[0] ?? [] : [];
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessCsvMapping(header));
+  const result = useMemo(() => pending.kind === 'csv' ? readCsvVitals(pending.table, mapping) : pending.result, [pending, mapping]);
+  const prepared = useMemo(() => result && prepareStructuredVitals(profile, result.vitals), [result, profile]);
+
+  const columnSelect = (label: string, value: number | undefined, onChange: (column: number | undefined) => void, optional = false) => (
+    <label className="block space-y-2">
+      <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">{label}</span>
+      <select className={`${REVIEW_INPUT} w-full`} value={value ?? ''} onChange={e => onChange(e.target.value === '' ? undefined : Number(e.target.value))}>
+        <option value="">{optional ? 'None' : 'Choose a column'}</option>
+        {header.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+      </select>
+    </label>
+  );
+
+  const toggleValueColumn = (column: number, included: boolean) => setMapping(m => {
+    const { name, unit } = splitHeaderUnit(header[column]);
+    const param = findParameterByName(name);
+    return {
+      ...m,
+      valueColumns: included
+        ? [...m.valueColumns, { column, parameter: param?.name ?? name, unit: unit || param?.unit || '' }].sort((a, b) => a.column - b.column)
+        : m.valueColumns.filter(c => c.column !== column)
+    };
+  });
+
+  const updateValueColumn = (column: number, patch: Partial<CsvMapping['valueColumns'][number]>) =>
+    setMapping(m => ({ ...m, valueColumns: m.valueColumns.map(c => c.column === column ? { ...c, ...patch } : c) }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-900">Import {pending.kind === 'csv' ? 'Lab CSV' : 'Apple Health Export'}</h3>
+          <p className="text-xs text-slate-400 font-medium mt-1">{pending.fileName} → {profile.name} • Read on this device, no AI involved</p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {pending.error && <p className="p-4 rounded-2xl bg-rose-50 text-rose-700 text-sm font-medium">{pending.error}</p>}
+          {pending.kind === 'apple-health' && !pending.result && !pending.error && (
+            <div className="space-y-2">
+              <p className="text-sm font-bold text-slate-700">Reading export… {Math.round(pending.progress * 100)}%</p>
+              <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${pending.progress * 100}%` }}></div>
+              </div>
+            </div>
+          )}
+          {pending.kind === 'csv' && !pending.error && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <label className="block space-y-2">
+                  <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Layout</span>
+                  <select className={`${REVIEW_INPUT} w-full`} value={mapping.layout} onChange={e => setMapping({ ...mapping, layout: e.target.value as CsvMapping['layout'] })}>
+                    <option value="long">One reading per row</option>
+                    <option value="wide">One column per parameter</option>
+                  </select>
+                </label>
+                {columnSelect('Date', mapping.dateColumn, dateColumn => setMapping({ ...mapping, dateColumn }))}
+                {columnSelect('Time', mapping.timeColumn, timeColumn => setMapping({ ...mapping, timeColumn }), true)}
+                <label className="block space-y-2">
+                  <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Date Format</span>
+                  <select className={`${REVIEW_INPUT} w-full`} value={mapping.dateFormat} onChange={e => setMapping({ ...mapping, dateFormat: e.target.value as CsvDateFormat })}>
+                    <option value="ymd">YYYY-MM-DD</option>
+                    <option value="mdy">MM/DD/YYYY</option>
+                    <option value="dmy">DD/MM/YYYY</option>
+                  </select>
+                </label>
+              </div>
+              {mapping.layout === 'long' ? (
+                <div className="grid grid-cols-3 gap-4">
+                  {columnSelect('Parameter', mapping.parameterColumn, parameterColumn => setMapping({ ...mapping, parameterColumn }))}
+                  {columnSelect('Value', mapping.valueColumn, valueColumn => setMapping({ ...mapping, valueColumn }))}
+                  {columnSelect('Unit', mapping.unitColumn, unitColumn => setMapping({ ...mapping, unitColumn }), true)}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Value Columns</span>
+                  {header.map((h, column) => {
+                    if (column === mapping.dateColumn || column === mapping.timeColumn) return null;
+                    const mapped = mapping.valueColumns.find(c => c.column === column);
+                    return (
+                      <div key={column} className="flex items-center gap-4 text-sm">
+                        <label className="flex items-center gap-3 w-56 font-bold text-slate-700 truncate">
+                          <input type="checkbox" checked={!!mapped} onChange={e => toggleValueColumn(column, e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                          {h || `Column ${column + 1}`}
+                        </label>
+                        {mapped && (
+                          <>
+                            <input className={`${REVIEW_INPUT} flex-1`} value={mapped.parameter} onChange={e => updateValueColumn(column, { parameter: e.target.value })} placeholder="Parameter" />
+                            <input className={`${REVIEW_INPUT} w-32`} value={mapped.unit} onChange={e => updateValueColumn(column, { unit: e.target.value })} placeholder="Unit" />
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+          {result && prepared && (
+            <div className="space-y-4">
+              <p className="text-sm font-bold text-slate-700">
+                {prepared.vitals.length} new readings
+                {result.samples !== undefined && ` from ${result.samples.toLocaleString()} samples`}
+                {' • '}{prepared.duplicates} already recorded • {result.issueCount} problems
+              </p>
+              {prepared.parameters.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                      <th className="pb-2">Parameter</th><th className="pb-2">Readings</th><th className="pb-2">Unit</th><th className="pb-2">From</th><th className="pb-2">To</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {prepared.parameters.map(p => (
+                      <tr key={p.parameter} className="text-slate-700 font-medium">
+                        <td className="py-2 font-bold">
+                          {p.parameter}
+                          {!p.recognised && <span className="ml-2 text-[10px] font-black uppercase tracking-wider text-amber-600">Not in dictionary</span>}
+                        </td>
+                        <td className="py-2">{p.count}</td>
+                        <td className="py-2">{p.unit}</td>
+                        <td className="py-2">{new Date(p.first).toLocaleDateString()}</td>
+                        <td className="py-2">{new Date(p.last).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {result.issues.length > 0 && (
+                <ul className="space-y-1 text-sm text-amber-800 font-medium max-h-40 overflow-y-auto">
+                  {result.issues.map((issue, i) => (
+                    <li key={i}><span className="font-bold">{pending.kind === 'csv' ? 'Line' : 'Record'} {issue.position}: </span>{issue.message}</li>
+                  ))}
+                  {result.issueCount > result.issues.length && <li>…and {result.issueCount - result.issues.length} more.</li>}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 font-bold text-sm transition-colors">Cancel</button>
+          <button
+            onClick={() => prepared && onImport(prepared.vitals)}
+            disabled={!prepared || prepared.vitals.length === 0}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-2xl font-bold shadow-xl shadow-indigo-100 transition-all active:scale-95 text-sm disabled:opacity-50"
+          >
+            Import {prepared?.vitals.length ?? 0} Readings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const EntryEditor: React.FC<{ draft: EntryDraft, onSave: (entry: EntryValue) => void, onClose: () => void }> = ({ draft, onSave, onClose }) => {
+  const existing = draft.existing;
+  const [vital, setVital] = useState<VitalInput>(() => existing?.kind === 'vital'
+    ? { parameter: existing.value.parameter, reading: existing.value.reading, unit: existing.value.unit, date: observationDay(existing.value.timestamp) }
+    : { parameter: '', reading: '', unit: '', date: observationDay(Date.now()) });
+  const [condition, setCondition] = useState<MedicalHistoryEntry>(() => existing?.kind === 'condition'
+    ? existing.value
+    : { id: newId(), condition: '', status: 'Active', date: '' });
+  const [medication, setMedication] = useState<Medication>(() => existing?.kind === 'medication'
+    ? existing.value
+    : { id: newId(), name: '', dosage: '', frequency: '' });
+  // Follows the frequency text until the person edits the schedule fields themselves.
+  const [schedule, setSchedule] = useState<ScheduleInput>(() => toScheduleInput(existing?.kind === 'medication' ? scheduleFor(existing.value) : undefined));
+  const [scheduleTouched, setScheduleTouched] = useState(() => existing?.kind === 'medication' && existing.value.schedule !== undefined);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const vitalParam = findParameterByName(vital.parameter);
+
+  const changeFrequency = (frequency: string) => {
+    setMedication({ ...medication, frequency });
+    const parsed = parseFrequency(frequency);
+    if (!scheduleTouched && parsed) setSchedule(toScheduleInput(parsed));
+  };
+
+  const changeSchedule = (patch: Partial<ScheduleInput>) => {
+    setSchedule({ ...schedule, ...patch });
+    setScheduleTouched(true);
+  };
+
+  const save = () => {
+    if (draft.kind === 'vital') {
+      const problems = validateVitalInput(vital);
+      if (problems.length > 0) return setErrors(problems);
+      const previous = existing?.kind === 'vital' ? existing.value : undefined;
+      const timestamp = parseClinicalDate(vital.date)!;
+      const dateChanged = !previous || observationDay(previous.timestamp) !== vital.date;
+      // Saved as a raw reading so it goes through the same normalization and grading as extractions.
+      onSave({ kind: 'vital', value: {
+        id: previous?.id ?? newId(),
+        parameter: vital.parameter.trim(),
+        reading: vital.reading.trim(),
+        unit: vital.unit.trim(),
+        severity: 'Normal',
+        timestamp: dateChanged ? timestamp : previous.timestamp,
+        dateSource: dateChanged ? 'manual' : previous.dateSource,
+        sourceId: previous?.sourceId
+      } });
+    } else if (draft.kind === 'condition') {
+      const problems = validateConditionInput(condition);
+      if (problems.length > 0) return setErrors(problems);
+      onSave({ kind: 'condition', value: { ...condition, condition: condition.condition.trim(), status: condition.status.trim(), date: condition.date.trim() } });
+    } else {
+      const problems = [...validateMedicationInput(medication), ...validateScheduleInput(schedule)];
+      if (problems.length > 0) return setErrors(problems);
+      onSave({ kind: 'medication', value: {
+        ...medication,
+        name: medication.name.trim(),
+        dosage: medication.dosage.trim(),
+        frequency: medication.frequency.trim(),
+        schedule: scheduleTouched ? fromScheduleInput(schedule) : medication.schedule
+      } });
+    }
+  };
+
+  const field = (label: string, input: React.ReactNode) => (
+    <label className="block space-y-2">
+      <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">{label}</span>
+      {input}
+    </label>
+  );
+
+  const title = { vital: 'Vital Reading', condition: 'Condition', medication: 'Medication' }[draft.kind];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-lg flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-900">{existing ? 'Edit' : 'Add'} {title}</h3>
+        </div>
+        <div className="p-8 space-y-4">
+          {draft.kind === 'vital' && (
+            <>
+              {field('Parameter', <input list="entry-parameters" autoFocus className={`${REVIEW_INPUT} w-full`} value={vital.parameter} onChange={e => setVital({ ...vital, parameter: e.target.value, unit: findParameterByName(e.target.value)?.unit ?? vital.unit })} />)}
+              <datalist id="entry-parameters">
+                {PARAMETER_DICTIONARY.map(p => <option key={p.code} value={p.name} />)}
+              </datalist>
+              <div className="grid grid-cols-2 gap-4">
+                {field('Reading', <input className={`${REVIEW_INPUT} w-full`} value={vital.reading} placeholder={vitalParam?.components ? '120/80' : ''} onChange={e => setVital({ ...vital, reading: e.target.value })} />)}
+                {field('Unit', <input list="entry-units" className={`${REVIEW_INPUT} w-full`} value={vital.unit} onChange={e => setVital({ ...vital, unit: e.target.value })} />)}
+              </div>
+              <datalist id="entry-units">
+                {vitalParam && knownUnits(vitalParam).map(u => <option key={u} value={u} />)}
+              </datalist>
+              {field('Observation Date', <input type="date" className={`${REVIEW_INPUT} w-full`} value={vital.date} max={observationDay(Date.now())} onChange={e => setVital({ ...vital, date: e.target.value })} />)}
+            </>
+          )}
+          {draft.kind === 'condition' && (
+            <>
+              {field('Condition', <input autoFocus className={`${REVIEW_INPUT} w-full`} value={condition.condition} onChange={e => setCondition({ ...condition, condition: e.target.value })} />)}
+              {field('Status', <input list="entry-statuses" className={`${REVIEW_INPUT} w-full`} value={condition.status} onChange={e => setCondition({ ...condition, status: e.target.value })} />)}
+              <datalist id="entry-statuses">
+                {CONDITION_STATUSES.map(s => <option key={s} value={s} />)}
+              </datalist>
+              {field('Onset', <input className={`${REVIEW_INPUT} w-full`} value={condition.date} placeholder="e.g. 2019 or 2021-04-12" onChange={e => setCondition({ ...condition, date: e.target.value })} />)}
+            </>
+          )}
+          {draft.kind === 'medication' && (
+            <>
+              {field('Medication', <input autoFocus className={`${REVIEW_INPUT} w-full`} value={medication.name} onChange={e => setMedication({ ...medication, name: e.target.value })} />)}
+              <div className="grid grid-cols-2 gap-4">
+                {field('Dosage', <input className={`${REVIEW_INPUT} w-full`} value={medication.dosage} placeholder="500 mg" onChange={e => setMedication({ ...medication, dosage: e.target.value })} />)}
+                {field('Frequency', <input list="entry-frequencies" className={`${REVIEW_INPUT} w-full`} value={medication.frequency} onChange={e => changeFrequency(e.target.value)} />)}
+              </div>
+              <datalist id="entry-frequencies">
+                {MEDICATION_FREQUENCIES.map(f => <option key={f} value={f} />)}
+              </datalist>
+              <div className="grid grid-cols-2 gap-4">
+                {field('Dose Times', <input className={`${REVIEW_INPUT} w-full`} value={schedule.times} placeholder="08:00, 20:00" disabled={schedule.asNeeded} onChange={e => changeSchedule({ times: e.target.value })} />)}
+                {field('Repeat Every (Days)', <input type="number" min={1} max={90} className={`${REVIEW_INPUT} w-full`} value={schedule.everyDays} disabled={schedule.asNeeded} onChange={e => changeSchedule({ everyDays: e.target.value })} />)}
+                {field('Start', <input type="date" className={`${REVIEW_INPUT} w-full`} value={schedule.startDate} onChange={e => changeSchedule({ startDate: e.target.value })} />)}
+                {field('Stop', <input type="date" className={`${REVIEW_INPUT} w-full`} value={schedule.stopDate} onChange={e => changeSchedule({ stopDate: e.target.value })} />)}
+              </div>
+              <label className="flex items-center gap-3 text-sm font-medium text-slate-600">
+                <input type="checkbox" checked={schedule.asNeeded} onChange={e => changeSchedule({ asNeeded: e.target.checked })} />
+                Taken only when needed
+              </label>
+            </>
+          )}
+          {errors.length > 0 && (
+            <ul className="space-y-1 text-sm text-rose-600 font-medium">
+              {errors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          )}
+        </div>
+        <div className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 font-bold text-sm transition-colors">Cancel</button>
+          <button onClick={save} className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-2xl font-bold shadow-xl shadow-indigo-100 transition-all active:scale-95 text-sm">
+            Save {title}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const EntryActions: React.FC<{ onEdit: () => void, onDelete: () => void }> = ({ onEdit, onDelete }) => (
+  <div className="flex gap-3 justify-end opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity text-[10px] font-bold uppercase tracking-wider">
+    <button onClick={onEdit} className="text-slate-400 hover:text-indigo-600 transition-colors">Edit</button>
+    <button onClick={onDelete} className="text-slate-400 hover:text-rose-500 transition-colors">Delete</button>
+  </div>
+);
+
+const AUDIT_ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  added: 'bg-emerald-50 text-emerald-600',
+  edited: 'bg-indigo-50 text-indigo-600',
+  deleted: 'bg-rose-50 text-rose-600',
+  restored: 'bg-amber-50 text-amber-600',
+  imported: 'bg-slate-100 text-slate-500',
+  granted: 'bg-sky-50 text-sky-600',
+  revoked: 'bg-rose-50 text-rose-600'
+};
+
+const AuditTrail: React.FC<{ entries: AuditEntry[] }> = ({ entries }) => (
+  <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-200 overflow-hidden">
+    <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
+      <h3 className="text-2xl font-black text-slate-900">Audit Trail</h3>
+      <span className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-full text-[10px] font-black uppercase tracking-wider">{entries.length} Changes</span>
+    </div>
+    {entries.length > 0 ? (
+      <ul className="divide-y divide-slate-50 max-h-[32rem] overflow-y-auto">
+        {[...entries].reverse().map(a => (
+          <li key={a.id} className="px-10 py-5 flex items-start gap-6">
+            <span className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider shrink-0 ${AUDIT_ACTION_STYLES[a.action]}`}>{a.action}</span>
+            <div className="min-w-0 flex-1">
+              <p className="font-bold text-slate-900">{a.label} <span className="text-slate-400 text-xs font-medium capitalize">{a.kind}</span></p>
+              {(a.before || a.after) && (
+                <p className="text-sm text-slate-500 font-medium mt-1">
+                  {a.before && <span className={a.after ? 'line-through text-slate-400' : ''}>{a.before}</span>}
+                  {a.before && a.after && ' → '}
+                  {a.after}
+                </p>
+              )}
+            </div>
+            <p className="text-xs text-slate-400 font-medium text-right shrink-0">
+              {a.actor}
+              <span className="block">{new Date(a.at).toLocaleString()}</span>
+            </p>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="p-10 text-slate-400 font-medium italic">No changes recorded yet.</p>
+    )}
+  </div>
+);
+
+const DoseChecklist: React.FC<{
+  doses: ScheduledDose[];
+  asNeeded: Medication[];
+  now: number;
+  reminders: boolean;
+  onRecord: (medicationId: string, time: string, status: DoseEvent['status'] | null) => void;
+  onLogAsNeeded: (medicationId: string) => void;
+  onToggleReminders: () => void;
+}> = ({ doses, asNeeded, now, reminders, onRecord, onLogAsNeeded, onToggleReminders }) => {
+  const current = clockTime(now);
+  const done = doses.filter(d => d.event).length;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
+        <div>
+          <h3 className="text-xl font-bold text-slate-900">Today's Doses</h3>
+          <p className="text-xs text-slate-400 font-medium mt-1">{done} of {doses.length} recorded</p>
+        </div>
+        <button
+          onClick={onToggleReminders}
+          className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-wider transition-colors ${reminders ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+        >
+          {reminders ? 'Reminders On' : 'Enable Reminders'}
+        </button>
+      </div>
+      {doses.length > 0 || asNeeded.length > 0 ? (
+        <ul className="divide-y divide-slate-50">
+          {doses.map(d => {
+            const overdue = !d.event && d.time <= current;
+            return (
+              <li key={`${d.medication.id}-${d.time}`} className="px-8 py-4 flex items-center gap-5">
+                <span className={`font-black text-sm w-14 shrink-0 ${overdue ? 'text-amber-600' : 'text-slate-900'}`}>{d.time}</span>
+                <div className="min-w-0 flex-1">
+                  <p className={`font-bold truncate ${d.event ? 'text-slate-400' : 'text-slate-900'}`}>{d.medication.name}</p>
+                  <p className="text-xs text-slate-400 font-medium">{d.medication.dosage}{overdue && ' • Due'}</p>
+                </div>
+                {d.event ? (
+                  <div className="flex items-center gap-3 shrink-0">
+                    <span className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider ${d.event.status === 'taken' ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-500'}`}>
+                      {d.event.status} {clockTime(d.event.at)}
+                    </span>
+                    <button onClick={() => onRecord(d.medication.id, d.time, null)} className="text-[10px] font-bold text-slate-400 hover:text-slate-700 uppercase tracking-wider transition-colors">Undo</button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3 shrink-0 text-[10px] font-bold uppercase tracking-wider">
+                    <button onClick={() => onRecord(d.medication.id, d.time, 'taken')} className="bg-emerald-50 text-emerald-700 hover:bg-emerald-100 px-3 py-1.5 rounded-xl transition-colors">Taken</button>
+                    <button onClick={() => onRecord(d.medication.id, d.time, 'skipped')} className="text-slate-400 hover:text-slate-700 transition-colors">Skip</button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+          {asNeeded.map(m => (
+            <li key={m.id} className="px-8 py-4 flex items-center gap-5">
+              <span className="font-black text-[10px] uppercase tracking-wider text-slate-400 w-14 shrink-0">PRN</span>
+              <div className="min-w-0 flex-1">
+                <p className="font-bold text-slate-900 truncate">{m.name}</p>
+                <p className="text-xs text-slate-400 font-medium">{m.dosage} • As needed</p>
+              </div>
+              <button onClick={() => onLogAsNeeded(m.id)} className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-wider transition-colors shrink-0">Log Dose</button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="p-8 text-slate-400 font-medium italic">No doses scheduled today.</p>
+      )}
+    </div>
+  );
+};
+
+const INTERACTION_SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  Contraindicated: 'bg-rose-600 text-white',
+  Major: 'bg-rose-100 text-rose-700',
+  Moderate: 'bg-amber-100 text-amber-700',
+  Minor: 'bg-slate-100 text-slate-500'
+};
+
+const INTERACTION_KIND_LABELS: Record<InteractionFinding['kind'], string> = {
+  'drug-drug': 'Drug–drug',
+  'drug-condition': 'Drug–condition',
+  duplicate: 'Duplicate therapy'
+};
+
+const InteractionPanel: React.FC<{ findings: InteractionFinding[], unrecognised: Medication[] }> = ({ findings, unrecognised }) => (
+  <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-200 overflow-hidden">
+    <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
+      <h3 className="text-xl font-bold text-slate-900">Interaction Check</h3>
+      <span className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-wider ${findings.length > 0 ? 'bg-rose-50 text-rose-600' : 'bg-emerald-50 text-emerald-600'}`}>
+        {findings.length > 0 ? `${findings.length} Flagged` : 'No Issues Found'}
+      </span>
+    </div>
+    {findings.length > 0 && (
+      <ul className="divide-y divide-slate-50 max-h-[28rem] overflow-y-auto">
+        {findings.map(f => (
+          <li key={f.id} className="px-8 py-5 flex items-start gap-5">
+            <span className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider shrink-0 ${INTERACTION_SEVERITY_STYLES[f.severity]}`}>{f.severity}</span>
+            <div className="min-w-0 flex-1">
+              <p className="font-bold text-slate-900">{f.subjects.join(' + ')} <span className="text-slate-400 text-xs font-medium">{INTERACTION_KIND_LABELS[f.kind]}</span></p>
+              <p className="text-sm text-slate-600 font-medium mt-1">{f.effect}</p>
+              <p className="text-xs text-slate-400 font-medium mt-1">{f.advice}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+    <p className="px-8 py-4 text-[11px] text-slate-400 font-medium border-t border-slate-50">
+      {unrecognised.length > 0 && <>Not in the interaction dataset: {unrecognised.map(m => m.name).join(', ')}. </>}
+      Screening aid only (dataset {INTERACTION_DATASET_VERSION}); confirm with a pharmacist or prescriber.
+    </p>
+  </div>
+);
+
+const CALCULATOR_SEVERITY_STYLES: Record<Severity, string> = {
+  Critical: 'bg-rose-100 text-rose-600',
+  Elevated: 'bg-amber-100 text-amber-600',
+  Normal: 'bg-emerald-100 text-emerald-600'
+};
+
+const CalculatorCard: React.FC<{ result: CalculatorResult }> = ({ result }) => {
+  const [showWorking, setShowWorking] = useState(false);
+  return (
+    <div className="bg-white p-7 rounded-[2rem] shadow-sm border border-slate-200 flex flex-col gap-4">
+      <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest">{result.name}</p>
+      {result.value !== undefined ? (
+        <div className="space-y-2">
+          <div className="flex items-end gap-2">
+            <span className="text-5xl font-black text-slate-900">{result.value}</span>
+            <span className="text-slate-300 font-bold mb-1.5">{result.unit}</span>
+          </div>
+          {result.category && result.severity && (
+            <span className={`inline-block px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider ${CALCULATOR_SEVERITY_STYLES[result.severity]}`}>{result.category}</span>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400 font-medium italic">Not calculated</p>
+      )}
+      {result.missing.length > 0 && (
+        <ul className="space-y-1 text-xs text-amber-700 font-bold">
+          {result.missing.map(m => <li key={m}>{m}</li>)}
+        </ul>
+      )}
+      {result.notes.length > 0 && (
+        <ul className="space-y-1 text-[11px] text-slate-500 font-medium">
+          {result.notes.map(n => <li key={n}>{n}</li>)}
+        </ul>
+      )}
+      <button onClick={() => setShowWorking(s => !s)} className="mt-auto self-start text-[10px] font-bold text-indigo-400 hover:text-indigo-600 uppercase tracking-wider transition-colors">
+        {showWorking ? 'Hide' : 'Show'} inputs and formula
+      </button>
+      {showWorking && (
+        <div className="space-y-3">
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+            {result.inputs.map(i => (
+              <React.Fragment key={i.label}>
+                <dt className="text-slate-400 font-bold">{i.label}</dt>
+                <dd className={i.value === undefined ? 'text-amber-600 font-bold' : 'text-slate-700 font-medium'}>
+                  {i.value ?? 'Missing'}
+                  {i.at !== undefined && <span className="text-slate-400"> • {formatShortDate(i.at)}</span>}
+                </dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          <p className="text-[11px] text-slate-400 font-medium">{result.reference}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ALERT_LEVEL_STYLES: Record<AlertLevel, string> = {
+  critical: 'bg-rose-600 text-white',
+  warning: 'bg-amber-100 text-amber-700'
+};
+
+const ALERT_RULE_KIND_LABELS: Record<AlertRuleKind, string> = {
+  'critical-range': 'Critical reading',
+  threshold: 'Threshold',
+  change: 'Trend',
+  'follow-up': 'Follow-up lab'
+};
+
+const describeAlertStatus = (a: ClinicalAlert) => [
+  a.acknowledgedAt !== undefined && `Acknowledged by ${a.acknowledgedBy ?? 'Unknown'} on ${formatAlertDate(a.acknowledgedAt)}`,
+  a.resolvedAt !== undefined && `No longer applies since ${formatAlertDate(a.resolvedAt)}`
+].filter(Boolean).join(' • ');
+
+// Open alerts wait for acknowledgement, most severe first; everything else stays in the history.
+const AlertsPanel: React.FC<{
+  alerts: ClinicalAlert[],
+  onAcknowledge: (ids: string[]) => void,
+  onOpenReading: (alert: ClinicalAlert) => void,
+  onEditRules: () => void
+}> = ({ alerts, onAcknowledge, onOpenReading, onEditRules }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const open = alerts.filter(isOpenAlert).sort((a, b) => (a.level === b.level ? 0 : a.level === 'critical' ? -1 : 1) || b.raisedAt - a.raisedAt);
+  const history = alerts.filter(a => !isOpenAlert(a)).sort((a, b) => b.raisedAt - a.raisedAt);
+
+  const row = (a: ClinicalAlert, actions: React.ReactNode) => (
+    <li key={a.id} className="px-8 py-5 flex items-start gap-5">
+      <span className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider shrink-0 ${ALERT_LEVEL_STYLES[a.level]}`}>{a.level}</span>
+      <div className="min-w-0 flex-1">
+        <p className="font-bold text-slate-900">{a.title}</p>
+        <p className="text-sm text-slate-600 font-medium mt-1">{a.detail}</p>
+        <p className="text-xs text-slate-400 font-medium mt-1">Raised {new Date(a.raisedAt).toLocaleString()}{isOpenAlert(a) ? '' : ` • ${describeAlertStatus(a)}`}</p>
+      </div>
+      {actions}
+    </li>
+  );
+
+  return (
+    <div className={`bg-white rounded-[2.5rem] shadow-sm border overflow-hidden ${open.some(a => a.level === 'critical') ? 'border-rose-300' : 'border-slate-200'}`}>
+      <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
+        <h3 className="text-xl font-bold text-slate-900">Clinical Alerts</h3>
+        <div className="flex items-center gap-4">
+          {open.length > 1 && (
+            <button onClick={() => onAcknowledge(open.map(a => a.id))} className="text-xs font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-wider transition-colors">Acknowledge All</button>
+          )}
+          <button onClick={onEditRules} className="text-xs font-bold text-slate-400 hover:text-indigo-600 uppercase tracking-wider transition-colors">Rules</button>
+          <span className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-wider ${open.length > 0 ? 'bg-rose-50 text-rose-600' : 'bg-emerald-50 text-emerald-600'}`}>
+            {open.length > 0 ? `${open.length} Open` : 'No Open Alerts'}
+          </span>
+        </div>
+      </div>
+      {open.length > 0 && (
+        <ul className="divide-y divide-slate-50 max-h-[28rem] overflow-y-auto">
+          {open.map(a => row(a, (
+            <div className="flex items-center gap-3 shrink-0">
+              {a.vitalIds.length > 0 && (
+                <button onClick={() => onOpenReading(a)} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-600 uppercase tracking-wider transition-colors">View</button>
+              )}
+              <button onClick={() => onAcknowledge([a.id])} className="px-4 py-2 rounded-xl bg-slate-900 hover:bg-slate-700 text-white text-[10px] font-black uppercase tracking-wider transition-all active:scale-95">Acknowledge</button>
+            </div>
+          )))}
+        </ul>
+      )}
+      {history.length > 0 && (
+        <div className="border-t border-slate-50">
+          <button onClick={() => setShowHistory(h => !h)} className="w-full px-8 py-4 text-left text-[11px] font-bold text-slate-400 hover:text-slate-600 transition-colors">
+            {showHistory ? 'Hide' : 'Show'} alert history ({history.length})
+          </button>
+          {showHistory && (
+            <ul className="divide-y divide-slate-50 max-h-[28rem] overflow-y-auto opacity-70">
+              {history.map(a => row(a, null))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const newAlertRule = (kind: AlertRuleKind): AlertRule => {
+  const base = { id: newId(), enabled: true, level: 'warning' as AlertLevel };
+  switch (kind) {
+    case 'critical-range': return { ...base, kind, level: 'critical' };
+    case 'threshold': return { ...base, kind, code: PARAMETER_DICTIONARY[0].code };
+    case 'change': return { ...base, kind, code: PARAMETER_DICTIONARY[0].code, direction: 'rise', percent: 20, withinDays: 90 };
+    case 'follow-up': return { ...base, kind, code: PARAMETER_DICTIONARY[0].code, everyDays: 365, conditions: [], drugs: [] };
+  }
+};
+
+const splitTerms = (value: string) => value.split(',').map(normalizeKey).filter(Boolean);
+
+// Empty number fields clear optional limits; required ones keep their previous value.
+const optionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+const AlertRulesSettings: React.FC<{ onSave: (rules: AlertRule[]) => void, onClose: () => void }> = ({ onSave, onClose }) => {
+  const [rules, setRules] = useState<AlertRule[]>(getAlertRules);
+  const [adding, setAdding] = useState<AlertRuleKind>('threshold');
+
+  const update = (id: string, patch: Partial<AlertRule>) => setRules(rs => rs.map(r => r.id === id ? { ...r, ...patch } as AlertRule : r));
+
+  const numberField = (label: string, value: number | undefined, onChange: (value: number | undefined) => void, required = false) => (
+    <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+      {label}
+      <input
+        type="number"
+        className={`${REVIEW_INPUT} w-24`}
+        value={value ?? ''}
+        onChange={e => {
+          const next = optionalNumber(e.target.value);
+          if (next === undefined ? !required : Number.isFinite(next)) onChange(next);
+        }}
+      />
+    </label>
+  );
+
+  const parameterField = (rule: AlertRule & { code: string }) => (
+    <select className={`${REVIEW_INPUT} w-56`} value={rule.code} onChange={e => update(rule.id, { code: e.target.value })}>
+      {PARAMETER_DICTIONARY.filter(p => !p.components).map(p => <option key={p.code} value={p.code}>{p.name} ({p.unit})</option>)}
+    </select>
+  );
+
+  const valid = rules.every(r => r.kind !== 'threshold' || r.above !== undefined || r.below !== undefined);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-900">Alert Rules</h3>
+          <p className="text-xs text-slate-400 font-medium mt-1">Rules apply to every patient and are stored in this browser only. Values are in each parameter's standard unit.</p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-4">
+          {rules.map(rule => (
+            <div key={rule.id} className={`p-5 rounded-2xl border border-slate-100 space-y-3 ${rule.enabled ? 'bg-slate-50/50' : 'opacity-50'}`}>
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-3 text-sm font-bold text-slate-700 flex-1">
+                  <input type="checkbox" checked={rule.enabled} onChange={e => update(rule.id, { enabled: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+                  {ALERT_RULE_KIND_LABELS[rule.kind]}
+                </label>
+                <select className={`${REVIEW_INPUT} w-32`} value={rule.level} onChange={e => update(rule.id, { level: e.target.value as AlertLevel })}>
+                  <option value="critical">Critical</option>
+                  <option value="warning">Warning</option>
+                </select>
+                <button onClick={() => setRules(rs => rs.filter(r => r.id !== rule.id))} title="Remove rule" className="text-slate-300 hover:text-rose-500 transition-colors">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                {rule.kind === 'critical-range' && <p className="text-xs text-slate-500 font-medium">Any reading outside the critical limits of the patient's reference range.</p>}
+                {rule.kind === 'threshold' && (
+                  <>
+                    {parameterField(rule)}
+                    {numberField('Below', rule.below, below => update(rule.id, { below }))}
+                    {numberField('Above', rule.above, above => update(rule.id, { above }))}
+                  </>
+                )}
+                {rule.kind === 'change' && (
+                  <>
+                    {parameterField(rule)}
+                    <select className={`${REVIEW_INPUT} w-28`} value={rule.direction} onChange={e => update(rule.id, { direction: e.target.value as 'rise' | 'fall' })}>
+                      <option value="rise">Rises</option>
+                      <option value="fall">Falls</option>
+                    </select>
+                    {numberField('By %', rule.percent, percent => update(rule.id, { percent }), true)}
+                    {numberField('Within days', rule.withinDays, withinDays => update(rule.id, { withinDays }), true)}
+                  </>
+                )}
+                {rule.kind === 'follow-up' && (
+                  <>
+                    {parameterField(rule)}
+                    {numberField('Every days', rule.everyDays, everyDays => update(rule.id, { everyDays }), true)}
+                    <input key={`conditions:${rule.conditions.join()}`} className={`${REVIEW_INPUT} flex-1 min-w-48`} defaultValue={rule.conditions.join(', ')} onBlur={e => update(rule.id, { conditions: splitTerms(e.target.value) })} placeholder="Conditions, e.g. diabetes, ckd" />
+                    <input key={`drugs:${rule.drugs.join()}`} className={`${REVIEW_INPUT} flex-1 min-w-48`} defaultValue={rule.drugs.join(', ')} onBlur={e => update(rule.id, { drugs: splitTerms(e.target.value) })} placeholder="Drugs or classes, e.g. statin" />
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center gap-3 pt-2">
+            <select className={`${REVIEW_INPUT} w-48`} value={adding} onChange={e => setAdding(e.target.value as AlertRuleKind)}>
+              {ALERT_RULE_KINDS.map(k => <option key={k} value={k}>{ALERT_RULE_KIND_LABELS[k]}</option>)}
+            </select>
+            <button onClick={() => setRules(rs => [...rs, newAlertRule(adding)])} className="text-xs font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-wider transition-colors">+ Add Rule</button>
+            <button onClick={() => setRules(DEFAULT_ALERT_RULES)} className="ml-auto text-xs font-bold text-slate-400 hover:text-slate-700 uppercase tracking-wider transition-colors">Restore Defaults</button>
+          </div>
+        </div>
+        <div className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 font-bold text-sm transition-colors">Cancel</button>
+          <button onClick={() => onSave(rules)} disabled={!valid} className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-2xl font-bold shadow-xl shadow-indigo-100 transition-all active:scale-95 text-sm disabled:opacity-50">
+            Save Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AssessmentTimeline: React.FC<{
+  records: AssessmentRecord[];
+  selectedId: string;
+  compareId: string | null;
+  onSelect: (id: string) => void;
+  onCompare: (id: string | null) => void;
+}> = ({ records, selectedId, compareId, onSelect, onCompare }) => (
+  <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-200 overflow-hidden">
+    <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
+      <h3 className="text-2xl font-black text-slate-900">Assessment Timeline</h3>
+      <span className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-full text-[10px] font-black uppercase tracking-wider">{records.length} Runs</span>
+    </div>
+    <ul className="divide-y divide-slate-50 max-h-[32rem] overflow-y-auto">
+      {[...records].reverse().map(r => {
+        const selected = r.id === selectedId;
+        const comparing = r.id === compareId;
+        return (
+          <li key={r.id} className={`px-10 py-5 flex items-center gap-6 ${selected ? 'bg-indigo-50/50' : comparing ? 'bg-amber-50/50' : ''}`}>
+            <button onClick={() => onSelect(r.id)} className="min-w-0 flex-1 text-left">
+              <p className="font-bold text-slate-900">{new Date(r.generatedAt).toLocaleString()}</p>
+              <p className="text-xs text-slate-400 font-medium mt-1">{describeAssessmentSource(r)} · {describeAssessmentInput(r.input)}</p>
+            </button>
+            <span className="px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider shrink-0 bg-rose-50 text-rose-600">{r.assessment.risks.length} Risks</span>
+            {selected ? (
+              <span className="text-xs font-bold text-indigo-600 uppercase tracking-wider shrink-0 w-20 text-right">Viewing</span>
+            ) : (
+              <button
+                onClick={() => onCompare(comparing ? null : r.id)}
+                className="text-xs font-bold text-slate-400 hover:text-amber-600 uppercase tracking-wider transition-colors shrink-0 w-20 text-right"
+              >
+                {comparing ? 'Close' : 'Compare'}
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+const RISK_CHANGE_STYLES = {
+  added: { label: 'New', className: 'bg-rose-50 border-rose-100 text-rose-800' },
+  persisting: { label: 'Persisting', className: 'bg-amber-50 border-amber-100 text-amber-800' },
+  resolved: { label: 'Resolved', className: 'bg-emerald-50 border-emerald-100 text-emerald-800' }
+};
+
+// Always reads earlier → later, whichever of the two the user picked first.
+const AssessmentComparison: React.FC<{ records: [AssessmentRecord, AssessmentRecord], onClose: () => void }> = ({ records, onClose }) => {
+  const [before, after] = [...records].sort((a, b) => a.generatedAt - b.generatedAt);
+  const risks = compareRisks(before.assessment.risks, after.assessment.risks);
+  const groups: { key: keyof typeof RISK_CHANGE_STYLES, items: string[] }[] = [
+    { key: 'added', items: risks.added },
+    { key: 'persisting', items: risks.persisting.map(p => p.after) },
+    { key: 'resolved', items: risks.resolved }
+  ];
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
+        <h3 className="text-2xl font-black text-slate-900">Assessment Comparison</h3>
+        <button onClick={onClose} className="text-xs font-bold text-slate-400 hover:text-slate-600 uppercase tracking-wider transition-colors">Close</button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-100">
+        {[before, after].map((r, i) => (
+          <div key={r.id} className="p-10 space-y-4">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{i === 0 ? 'Earlier' : 'Later'}</p>
+            <p className="font-bold text-slate-900">{new Date(r.generatedAt).toLocaleString()}</p>
+            <p className="text-xs text-slate-400 font-medium">{describeAssessmentSource(r)} · {describeAssessmentInput(r.input)}</p>
+            <p className="text-slate-600 text-sm leading-relaxed bg-slate-50 p-5 rounded-2xl border border-slate-100">{r.assessment.summary}</p>
+          </div>
+        ))}
+      </div>
+      <div className="p-10 border-t border-slate-100 grid grid-cols-1 md:grid-cols-3 gap-6">
+        {groups.map(({ key, items }) => (
+          <div key={key} className={`p-6 rounded-3xl border ${RISK_CHANGE_STYLES[key].className}`}>
+            <h4 className="font-black text-sm uppercase tracking-wider mb-4">{RISK_CHANGE_STYLES[key].label} Risks ({items.length})</h4>
+            {items.length > 0 ? (
+              <ul className="space-y-3">
+                {items.map((risk, j) => (
+                  <li key={j} className="flex gap-3 font-medium text-sm">
+                    <span className="shrink-0">•</span> {risk}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm font-medium italic opacity-60">None</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+const LockScreen: React.FC<{ onUnlocked: (loaded: LoadedWorkspace) => void }> = ({ onUnlocked }) => {
+  const [setup] = useState(() => !hasVault());
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (setup && passphrase.length < MIN_PASSPHRASE_LENGTH) return setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    if (setup && passphrase !== confirmation) return setError('The passphrases do not match.');
+    setBusy(true);
+    setError(null);
+    try {
+      if (setup) {
+        await createVault(passphrase);
+        await sealStoredDocuments();
+      } else {
+        await unlockVault(passphrase);
+      }
+      onUnlocked(await loadWorkspace());
+    } catch (err) {
+      lockVault();
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (!window.confirm('Erase every patient record and document stored on this device? This cannot be undone.')) return;
+    try {
+      await eraseLocalData();
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-8">
+      <form onSubmit={submit} className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-md p-10 space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-indigo-600 rounded-xl flex items-center justify-center font-black text-white text-xl">M</div>
+          <h1 className="text-2xl font-bold text-slate-900 tracking-tight">MedAId</h1>
+        </div>
+        <div>
+          <h3 className="text-xl font-black text-slate-900">{setup ? 'Protect Your Records' : 'Records Locked'}</h3>
+          <p className="text-sm text-slate-500 font-medium mt-2">
+            {setup
+              ? 'Choose a passphrase. Patient records, chat transcripts and documents are encrypted on this device with it. It cannot be recovered if forgotten.'
+              : 'Enter your passphrase to decrypt the records stored on this device.'}
+          </p>
+        </div>
+        <input type="password" autoFocus className={`${REVIEW_INPUT} w-full`} placeholder="Passphrase" value={passphrase} onChange={e => setPassphrase(e.target.value)} />
+        {setup && (
+          <input type="password" className={`${REVIEW_INPUT} w-full`} placeholder="Confirm passphrase" value={confirmation} onChange={e => setConfirmation(e.target.value)} />
+        )}
+        {error && <p className="text-sm text-rose-600 font-medium">{error}</p>}
+        <button disabled={busy || !passphrase} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-4 rounded-2xl font-bold shadow-xl shadow-indigo-100 transition-all active:scale-95 disabled:opacity-50">
+          {busy ? 'Deriving Key...' : setup ? 'Encrypt and Continue' : 'Unlock'}
+        </button>
+        {!setup && (
+          <button type="button" onClick={handleErase} className="w-full text-xs font-bold text-slate-400 hover:text-rose-500 uppercase tracking-wider transition-colors">
+            Forgot passphrase? Erase local data
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+const ChangePassphrase: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    if (next.length < MIN_PASSPHRASE_LENGTH) return setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    if (next !== confirmation) return setError('The new passphrases do not match.');
+    setBusy(true);
+    try {
+      await changePassphrase(current, next);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-md flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-900">Change Passphrase</h3>
+          <p className="text-xs text-slate-400 font-medium mt-1">Your records stay encrypted with the same data key; only its wrapping changes.</p>
+        </div>
+        <div className="p-8 space-y-4">
+          <input type="password" className={`${REVIEW_INPUT} w-full`} placeholder="Current passphrase" value={current} onChange={e => setCurrent(e.target.value)} />
+          <input type="password" className={`${REVIEW_INPUT} w-full`} placeholder="New passphrase" value={next} onChange={e => setNext(e.target.value)} />
+          <input type="password" className={`${REVIEW_INPUT} w-full`} placeholder="Confirm new passphrase" value={confirmation} onChange={e => setConfirmation(e.target.value)} />
+          {error && <p className="text-sm text-rose-600 font-medium">{error}</p>}
+        </div>
+        <div className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 font-bold text-sm transition-colors">Cancel</button>
+          <button onClick={save} disabled={busy || !current || !next} className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-2xl font-bold shadow-xl shadow-indigo-100 transition-all active:scale-95 text-sm disabled:opacity-50">
+            {busy ? 'Re-wrapping Key...' : 'Change Passphrase'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+type AiJob = 'assessment' | 'maps';
+
+interface AiJobState {
+  busy: boolean;
+  error?: string;
+  retry?: () => void;
+}
+
+const AiErrorNotice: React.FC<{ title: string, state?: AiJobState, onDismiss: () => void }> = ({ title, state, onDismiss }) => {
+  if (!state?.error) return null;
+  return (
+    <div className="mb-8 p-6 rounded-[2rem] border bg-rose-50 border-rose-100 flex justify-between items-start gap-4">
+      <div>
+        <p className="font-black text-rose-900">{title}</p>
+        <p className="mt-1 text-sm text-rose-700 font-medium">{state.error}</p>
+      </div>
+      <div className="flex gap-4 shrink-0">
+        {state.retry && (
+          <button onClick={state.retry} className="text-rose-600 hover:text-rose-800 text-xs font-bold uppercase tracking-wider">Try Again</button>
+        )}
+        <button onClick={onDismiss} className="text-slate-400 hover:text-slate-700 text-xs font-bold uppercase tracking-wider">Dismiss</button>
+      </div>
+    </div>
+  );
+};
+
+const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+  gemini: 'Google Gemini (via MedAId server)',
+  openai: 'OpenAI-compatible (OpenAI, Ollama, LM Studio)',
+  mock: 'Mock (offline fixtures)'
+};
+
+const AI_TASK_LABELS: Record<AiTask, string> = {
+  extraction: 'Document Extraction',
+  assessment: 'Clinical Assessment',
+  chat: 'Assistant Chat',
+  facilities: 'Care Finder'
+};
+
+const AiSettings: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [config, setConfig] = useState<AiConfig>(getAiConfig);
+
+  // Model names are provider-specific, so switching provider resets them to that provider's defaults.
+  const changeProvider = (provider: AiProviderId) =>
+    setConfig(c => ({ ...c, provider, models: { ...DEFAULT_MODELS[provider] } }));
+
+  const { privacy } = config;
+  const setPrivacy = (patch: Partial<PrivacySettings>) => setConfig(c => ({ ...c, privacy: { ...c.privacy, ...patch } }));
+
+  const save = () => {
+    saveAiConfig(config);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-900">AI Provider</h3>
+          <p className="text-xs text-slate-400 font-medium mt-1">Settings are stored in this browser only.</p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          <label className="block space-y-2">
+            <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Provider</span>
+            <select className={`${REVIEW_INPUT} w-full`} value={config.provider} onChange={e => changeProvider(e.target.value as AiProviderId)}>
+              {(Object.keys(AI_PROVIDER_LABELS) as AiProviderId[]).map(p => <option key={p} value={p}>{AI_PROVIDER_LABELS[p]}</option>)}
+            </select>
+          </label>
+          {config.provider === 'openai' && (
+            <div className="grid grid-cols-1 gap-4">
+              <label className="block space-y-2">
+                <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Base URL</span>
+                <input className={`${REVIEW_INPUT} w-full`} value={config.baseUrl} onChange={e => setConfig({ ...config, baseUrl: e.target.value })} placeholder="https://api.openai.com/v1" />
+              </label>
+              <label className="block space-y-2">
+                <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">API Key</span>
+                <input type="password" className={`${REVIEW_INPUT} w-full`} value={config.apiKey} onChange={e => setConfig({ ...config, apiKey: e.target.value })} placeholder="Not needed for local servers" />
+              </label>
+            </div>
+          )}
+          <div className="space-y-3">
+            <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Models</span>
+            {(Object.keys(AI_TASK_LABELS) as AiTask[]).map(task => (
+              <label key={task} className="flex items-center justify-between gap-4 text-sm font-bold text-slate-700">
+                {AI_TASK_LABELS[task]}
+                <input
+                  className={`${REVIEW_INPUT} w-64`}
+                  value={config.models[task]}
+                  disabled={config.provider === 'mock'}
+                  onChange={e => setConfig({ ...config, models: { ...config.models, [task]: e.target.value } })}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="space-y-3">
+            <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">De-identification</span>
+            <label className="flex items-center gap-3 text-sm font-bold text-slate-700">
+              <input type="checkbox" checked={privacy.enabled} onChange={e => setPrivacy({ enabled: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+              De-identify patient data before it is sent
+            </label>
+            <label className="flex items-center justify-between gap-4 text-sm font-bold text-slate-700">
+              Names
+              <select className={`${REVIEW_INPUT} w-64`} value={privacy.names} disabled={!privacy.enabled} onChange={e => setPrivacy({ names: e.target.value as PrivacySettings['names'] })}>
+                <option value="pseudonymize">Replace with an alias</option>
+                <option value="remove">Remove</option>
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-4 text-sm font-bold text-slate-700">
+              Dates
+              <select className={`${REVIEW_INPUT} w-64`} value={privacy.dates} disabled={!privacy.enabled} onChange={e => setPrivacy({ dates: e.target.value as PrivacySettings['dates'] })}>
+                <option value="shift">Shift by a per-patient offset</option>
+                <option value="keep">Send unchanged</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-3 text-sm font-bold text-slate-700">
+              <input type="checkbox" checked={privacy.scrubIdentifiers} disabled={!privacy.enabled} onChange={e => setPrivacy({ scrubIdentifiers: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+              Remove emails, phone numbers, links and ID numbers from free text
+            </label>
+          </div>
+        </div>
+        <div className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 font-bold text-sm transition-colors">Cancel</button>
+          <button onClick={save} className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-2xl font-bold shadow-xl shadow-indigo-100 transition-all active:scale-95 text-sm">
+            Save Settings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const describeDestination = (destination: string) => {
+  const [provider, url] = destination.split(' ');
+  return provider === 'openai' ? `OpenAI-compatible server at ${url}` : AI_PROVIDER_LABELS[provider as AiProviderId] ?? provider;
+};
+
+// Asks for consent when onGrant is given; otherwise it is a read-only preview.
+const DataSharingDialog: React.FC<{
+  patientName: string,
+  privacyKey: PrivacyKey,
+  preview: PromptPreview,
+  onGrant?: () => void,
+  onClose: () => void
+}> = ({ patientName, privacyKey, preview, onGrant, onClose }) => {
+  const config = getAiConfig();
+  const destination = aiDestination(config);
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-900">{onGrant ? `Share ${patientName}'s data with an AI service?` : 'What will be sent'}</h3>
+          <p className="text-xs text-slate-400 font-medium mt-1">
+            {AI_TASK_LABELS[preview.task]} · {destination ? `${describeDestination(destination)} · ${modelFor(preview.task)}` : 'Mock provider: nothing leaves this browser'}
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          <ul className="space-y-1 text-sm text-slate-600 font-medium">
+            {describePrivacy(config.privacy, privacyKey).map(note => <li key={note}>• {note}</li>)}
+          </ul>
+          {preview.sections.map(section => (
+            <div key={section.label} className="space-y-2">
+              <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">{section.label}</span>
+              <pre className="bg-slate-50 border border-slate-100 rounded-2xl p-4 text-xs text-slate-700 whitespace-pre-wrap break-words max-h-72 overflow-y-auto">{section.content}</pre>
+            </div>
+          ))}
+        </div>
+        <div className="p-8 border-t border-slate-100 flex justify-between items-center">
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 font-bold text-sm transition-colors">{onGrant ? 'Decline' : 'Close'}</button>
+          {onGrant && (
+            <button onClick={onGrant} className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-2xl font-bold shadow-xl shadow-indigo-100 transition-all active:scale-95 text-sm">
+              Consent and Send
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
 };
 
-// --- COMPONENTS ---
+const DataSharingStatus: React.FC<{ consent?: ConsentRecord, onPreview: () => void, onRevoke: () => void }> = ({ consent, onPreview, onRevoke }) => {
+  const destination = aiDestination(getAiConfig());
+  const current = consent && consent.destination === destination;
+  return (
+    <div className="flex items-center gap-4 text-xs font-medium text-slate-400">
+      <span>
+        {!destination ? 'Mock provider: nothing leaves this browser'
+          : current ? `Consent to share with ${describeDestination(destination)} given by ${consent.grantedBy} on ${new Date(consent.grantedAt).toLocaleDateString()}`
+          : `Consent will be asked before sharing with ${describeDestination(destination)}`}
+      </span>
+      <button onClick={onPreview} className="font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-wider text-[10px]">Preview Data</button>
+      {consent && (
+        <button onClick={onRevoke} className="font-bold text-rose-500 hover:text-rose-700 uppercase tracking-wider text-[10px]">Revoke Consent</button>
+      )}
+    </div>
+  );
+};
 
-const Sidebar: React.FC<{ activeTab: string, setActiveTab: (t: string) => void }> = ({ activeTab, setActiveTab }) => {
+const Sidebar: React.FC<{
+  activeTab: string,
+  setActiveTab: (t: string) => void,
+  onOpenSettings: () => void,
+  onChangePassphrase: () => void,
+  onLock: () => void,
+  children?: React.ReactNode
+}> = ({ activeTab, setActiveTab, onOpenSettings, onChangePassphrase, onLock, children }) => {
+  // Read on every render: the name is also set the first time an audited change is made.
+  const operator = localStorage.getItem(OPERATOR_KEY);
+  const [, setRenamed] = useState(0);
   const tabs = [
     { id: 'dashboard', label: 'Dashboard', icon: 'M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z' },
     { id: 'assessment', label: 'Clinical Insight', icon: 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01' },
@@ -211,7 +5705,7 @@ const Sidebar: React.FC<{ activeTab: string, setActiveTab: (t: string) => void }
         <div className="w-10 h-10 bg-indigo-600 rounded-xl flex items-center justify-center font-black text-white text-xl shadow-lg shadow-indigo-900/20 group-hover:scale-110 transition-transform">M</div>
         <h1 className="text-2xl font-bold text-white tracking-tight">MedAId</h1>
       </div>
-      <nav className="space-y-2 flex-1">
+      <nav className="space-y-2">
         {tabs.map(t => (
           <button
             key={t.id}
@@ -225,158 +5719,842 @@ const Sidebar: React.FC<{ activeTab: string, setActiveTab: (t: string) => void }
           </button>
         ))}
       </nav>
-      <div className="mt-auto pt-6 border-t border-slate-800 text-[10px] uppercase tracking-widest text-slate-500 font-bold">
-        Certified Clinical AI v2.0
+      {children}
+      <div className="mt-auto pt-6 border-t border-slate-800 space-y-3 text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+        <div className="flex justify-between">
+          <button onClick={onOpenSettings} className="hover:text-white transition-colors">AI Settings</button>
+          <button onClick={onChangePassphrase} className="hover:text-white transition-colors">Passphrase</button>
+          <button onClick={onLock} className="hover:text-white transition-colors">Lock</button>
+        </div>
+        <button onClick={() => { promptOperatorName(); setRenamed(n => n + 1); }} title="Name recorded in the audit trail" className="block w-full text-left truncate hover:text-white transition-colors">
+          {operator ? `Signed as ${operator}` : 'Set your name'}
+        </button>
+        <p>Certified Clinical AI v2.0</p>
+      </div>
+    </div>
+  );
+};
+
+const PatientRoster: React.FC<{
+  patients: PatientRecord[],
+  activeId: string,
+  onSelect: (id: string) => void,
+  onCreate: () => void,
+  onToggleArchive: (id: string) => void,
+  onDelete: (id: string) => void
+}> = ({ patients, activeId, onSelect, onCreate, onToggleArchive, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+
+  const visible = patients
+    .filter(p => p.archived === showArchived)
+    .filter(p => p.profile.name.toLowerCase().includes(query.trim().toLowerCase()))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-800 flex-1 flex flex-col min-h-0">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Patients</p>
+        <button onClick={onCreate} className="text-[10px] uppercase tracking-widest font-bold text-indigo-400 hover:text-white transition-colors">+ New</button>
       </div>
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search roster..."
+        className="w-full px-3 py-2 mb-3 rounded-xl bg-slate-800 border-none text-sm text-white placeholder:text-slate-500 focus:ring-2 focus:ring-indigo-500"
+      />
+      <div className="flex-1 overflow-y-auto space-y-1 -mx-1 px-1">
+        {visible.map(p => (
+          <div key={p.id} className={`group flex items-center gap-2 px-3 py-2 rounded-xl text-sm transition-all ${p.id === activeId ? 'bg-slate-800 text-white' : 'hover:bg-slate-800/60'}`}>
+            <button onClick={() => !p.archived && onSelect(p.id)} className="flex-1 text-left truncate font-medium disabled:cursor-default" disabled={p.archived}>
+              {p.profile.name}
+            </button>
+            {p.alerts.some(isOpenAlert) && (
+              <span title="Open clinical alerts" className={`px-1.5 rounded-md text-[10px] font-black ${p.alerts.some(a => isOpenAlert(a) && a.level === 'critical') ? 'bg-rose-600 text-white' : 'bg-amber-400 text-slate-900'}`}>
+                {p.alerts.filter(isOpenAlert).length}
+              </span>
+            )}
+            <button onClick={() => onToggleArchive(p.id)} title={p.archived ? 'Restore' : 'Archive'} className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-amber-400 transition-all">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"/></svg>
+            </button>
+            <button onClick={() => onDelete(p.id)} title="Delete" className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-rose-400 transition-all">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+            </button>
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <p className="text-xs text-slate-500 italic px-3 py-2">{showArchived ? 'No archived patients' : 'No matching patients'}</p>
+        )}
+      </div>
+      <button onClick={() => setShowArchived(s => !s)} className="mt-3 text-[10px] uppercase tracking-widest font-bold text-slate-500 hover:text-slate-300 text-left transition-colors">
+        {showArchived ? 'Show Active' : `Show Archived (${patients.filter(p => p.archived).length})`}
+      </button>
     </div>
   );
 };
 
-const App: React.FC = () => {
+// Falls back to an unlocated search if permission is denied or the fix takes too long.
+const currentPosition = () => new Promise<GeolocationCoordinates | undefined>(resolve => {
+  if (!navigator.geolocation) return resolve(undefined);
+  navigator.geolocation.getCurrentPosition(pos => resolve(pos.coords), () => resolve(undefined), { timeout: 10_000 });
+});
+
+const App: React.FC<{
+  initialWorkspace: Workspace,
+  storageIssues: string[],
+  onLock: () => void,
+  onUploadsActive: (active: boolean) => void
+}> = ({ initialWorkspace, storageIssues, onLock, onUploadsActive }) => {
   const [activeTab, setActiveTab] = useState('dashboard');
-  const [profile, setProfile] = useState<PatientProfile>({
-    name: 'Unregistered Patient',
-    history: [],
-    vitals: [],
-    medications: []
-  });
-  const [loading, setLoading] = useState(false);
-  const [chatLog, setChatLog] = useState<{ role: string, text: string }[]>([]);
+  const [workspace, setWorkspace] = useState<Workspace>(() => ensureActivePatient(initialWorkspace));
+  const [jobs, setJobs] = useState<Partial<Record<AiJob, AiJobState>>>({});
   const [chatInput, setChatInput] = useState('');
+  const [highlightedVitalId, setHighlightedVitalId] = useState<string | null>(null);
+  const [fhirReport, setFhirReport] = useState<{ title: string, issues: FhirIssue[] } | null>(null);
+  const [storageReport, setStorageReport] = useState(storageIssues);
+  const [documents, setDocuments] = useState<SourceDocumentMeta[]>([]);
+  const [viewerDocId, setViewerDocId] = useState<string | null>(null);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [showAlertRules, setShowAlertRules] = useState(false);
+  const [alertRules, setAlertRules] = useState(getAlertRules);
+  const [editor, setEditor] = useState<EntryDraft | null>(null);
+  const [deletions, setDeletions] = useState<(EntryValue & { patientId: string, index: number })[]>([]);
+  const [pendingReviews, setPendingReviews] = useState<PendingReview[]>([]);
+  const [chatStream, setChatStream] = useState<{ patientId: string, controller: AbortController } | null>(null);
   const [mapsResults, setMapsResults] = useState<{ text: string, links: { title: string, uri: string }[] } | null>(null);
+  const [assessmentView, setAssessmentView] = useState<{ selectedId: string | null, compareId: string | null }>({ selectedId: null, compareId: null });
+  const [clock, setClock] = useState(() => Date.now());
+  const [report, setReport] = useState<ClinicalReport | null>(null);
+  const [remindersOn, setRemindersOn] = useState(loadRemindersEnabled);
+  const [uploads, setUploads] = useState<UploadTask[]>([]);
+  const [structuredImport, setStructuredImport] = useState<PendingStructuredImport | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [sharing, setSharing] = useState<{ patientId: string, preview: PromptPreview, asking: boolean } | null>(null);
+
+  const activeRecord = workspace.patients.find(p => p.id === workspace.activeId)!;
+  const profile = activeRecord.profile;
+  const chatLog = activeRecord.chatLog;
+  // Ids left over from another patient simply fall back to the latest assessment.
+  const assessments = activeRecord.assessments;
+  const viewedAssessment = assessments.find(a => a.id === assessmentView.selectedId) ?? assessments[assessments.length - 1];
+  const comparedAssessment = assessments.find(a => a.id === assessmentView.compareId && a.id !== viewedAssessment?.id);
 
   // Persistence
   useEffect(() => {
-    const saved = localStorage.getItem('medaid_v2_profile');
-    if (saved) setProfile(JSON.parse(saved));
+    saveWorkspace(workspace);
+  }, [workspace]);
+
+  // Drives the dose checklist, adherence and reminders.
+  useEffect(() => {
+    const timer = window.setInterval(() => setClock(Date.now()), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Reminders cover every patient on the roster, but only while the workspace is unlocked.
+  const notifiedDoses = useRef(new Set<string>());
+  useEffect(() => {
+    if (!remindersOn) return;
+    const today = observationDay(clock);
+    const now = minutesOfDay(clockTime(clock));
+    const due = workspace.patients.filter(p => !p.archived).flatMap(p => dosesForDay(p.profile.medications, p.doseLog, today)
+      .filter(d => !d.event && minutesOfDay(d.time) <= now && now - minutesOfDay(d.time) < REMINDER_WINDOW_MINUTES)
+      .map(d => ({ key: `${p.id}:${d.medication.id}:${today}:${d.time}`, time: d.time })))
+      .filter(d => !notifiedDoses.current.has(d.key));
+    const byTime = new Map<string, number>();
+    due.forEach(d => {
+      notifiedDoses.current.add(d.key);
+      byTime.set(d.time, (byTime.get(d.time) ?? 0) + 1);
+    });
+    byTime.forEach((count, time) => showDoseReminder(time, count).catch(e => console.error("Reminder error", e)));
+  }, [clock, remindersOn, workspace.patients]);
+
+  // Clicking a reminder focuses this tab and the service worker asks it to show the checklist.
+  useEffect(() => {
+    const onMessage = (e: MessageEvent) => { if (e.data?.type === 'show-doses') setActiveTab('dashboard'); };
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker?.removeEventListener('message', onMessage);
   }, []);
 
+  const activeIdRef = useRef(workspace.activeId);
+  activeIdRef.current = workspace.activeId;
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+
+  const refreshDocuments = (patientId: string) => {
+    listSourceDocuments(patientId)
+      .then(docs => { if (activeIdRef.current === patientId) setDocuments(docs); })
+      .catch(e => console.error("Document library error", e));
+  };
+
+  useEffect(() => {
+    setDocuments([]);
+    refreshDocuments(workspace.activeId);
+  }, [workspace.activeId]);
+
+  // Re-runs whenever a medication or condition is added, edited, imported or removed.
+  const interactions = useMemo(() => checkInteractions(profile), [profile.medications, profile.history]);
+  const interactionSeverity = useMemo(() => {
+    const worst = new Map<string, InteractionSeverity>();
+    interactions.findings.forEach(f => f.medicationIds.forEach(id => {
+      const current = worst.get(id);
+      if (!current || INTERACTION_SEVERITY_RANK[f.severity] > INTERACTION_SEVERITY_RANK[current]) worst.set(id, f.severity);
+    }));
+    return worst;
+  }, [interactions]);
+
+  const today = observationDay(clock);
+  const todaysDoses = useMemo(() => dosesForDay(profile.medications, activeRecord.doseLog, today), [profile.medications, activeRecord.doseLog, today]);
+  const adherence = useMemo(() => new Map(profile.medications.map(m => [m.id, computeAdherence(m, activeRecord.doseLog, clock)])), [profile.medications, activeRecord.doseLog, clock]);
+
+  const documentNames = useMemo(() =>
+    Object.fromEntries(documents.map(d => [d.id, d.fileName])), [documents]);
+
+  // Covers what profile edits do not: the saved roster on unlock, patients added by import, rule changes, and
+  // follow-up labs falling due as the days pass.
+  useEffect(() => {
+    setWorkspace(ws => {
+      const patients = ws.patients.map(p => refreshAlerts(p, alertRules, Date.now()));
+      return patients.every((p, i) => p === ws.patients[i]) ? ws : { ...ws, patients };
+    });
+  }, [alertRules, today, workspace.patients.length]);
+
+  // Updates are addressed by patient id so async results land on the patient that requested them. Any change to
+  // the profile re-runs the alert rules in the same update.
+  const updatePatient = (id: string, update: (record: PatientRecord) => PatientRecord) => {
+    setWorkspace(ws => ({
+      ...ws,
+      patients: ws.patients.map(p => {
+        if (p.id !== id) return p;
+        const next = update(p);
+        return { ...(next.profile === p.profile ? next : refreshAlerts(next, getAlertRules(), Date.now())), updatedAt: Date.now() };
+      })
+    }));
+  };
+
+  const updateProfile = (id: string, update: (prev: PatientProfile) => PatientProfile) =>
+    updatePatient(id, r => ({ ...r, profile: update(r.profile) }));
+
+  const appendChat = (id: string, message: ChatMessage) =>
+    updatePatient(id, r => ({ ...r, chatLog: [...r.chatLog, message] }));
+
+  const updateChatMessage = (id: string, messageId: string, patch: Partial<ChatMessage>) =>
+    updatePatient(id, r => ({ ...r, chatLog: r.chatLog.map(m => m.id === messageId ? { ...m, ...patch } : m) }));
+
+  // Profile edits and their audit entry land in one update so the trail never drifts from the data.
+  const changeWithAudit = (id: string, update: (prev: PatientProfile) => PatientProfile, audit: Omit<AuditEntry, 'id' | 'at' | 'actor'>) => {
+    const actor = getOperatorName();
+    updatePatient(id, r => ({
+      ...r,
+      profile: update(r.profile),
+      auditLog: [...r.auditLog, { ...audit, id: newId(), at: Date.now(), actor }]
+    }));
+  };
+
+  const handleCreatePatient = () => {
+    const name = window.prompt('New patient name')?.trim();
+    const record = createPatientRecord(name ? { name } : undefined);
+    setWorkspace(ws => ({ patients: [...ws.patients, record], activeId: record.id }));
+    setMapsResults(null);
+    setActiveTab('dashboard');
+  };
+
+  const handleSelectPatient = (id: string) => {
+    setWorkspace(ws => ({ ...ws, activeId: id }));
+    setMapsResults(null);
+  };
+
+  const handleToggleArchive = (id: string) => {
+    setWorkspace(ws => ensureActivePatient({
+      ...ws,
+      patients: ws.patients.map(p => p.id === id ? { ...p, archived: !p.archived, updatedAt: Date.now() } : p)
+    }));
+  };
+
+  const handleDeletePatient = (id: string) => {
+    const target = workspace.patients.find(p => p.id === id);
+    if (!target || !window.confirm(`Permanently delete all records for ${target.profile.name}?`)) return;
+    setWorkspace(ws => ensureActivePatient({ ...ws, patients: ws.patients.filter(p => p.id !== id) }));
+    setPendingReviews(prev => prev.filter(r => r.patientId !== id));
+    setUploads(prev => prev.filter(t => t.patientId !== id));
+    setDeletions(prev => prev.filter(d => d.patientId !== id));
+    deleteSourceDocuments(id).catch(e => console.error("Document library error", e));
+  };
+
+  // Failures are kept with a retry closure so each tab can offer "Try again" without the user redoing the input.
+  const runJob = async (job: AiJob, work: () => Promise<void>) => {
+    setJobs(prev => ({ ...prev, [job]: { busy: true } }));
+    try {
+      await work();
+      setJobs(prev => ({ ...prev, [job]: { busy: false } }));
+    } catch (err) {
+      console.error(`AI ${job} failed`, err);
+      setJobs(prev => ({ ...prev, [job]: { busy: false, error: describeAiError(err), retry: () => runJob(job, work) } }));
+    }
+  };
+
+  const dismissJobError = (job: AiJob) => setJobs(prev => ({ ...prev, [job]: { busy: false } }));
+
+  // Resolves straight away when nothing leaves the browser or this patient already consented to the
+  // current destination; otherwise shows the preview and waits for an answer. Requests that arrive while
+  // the same patient and destination are being asked about share that answer; other prompts wait their turn.
+  const pendingConsent = useRef(new Map<string, ConsentPrompt>());
+
+  const showNextConsent = () => {
+    const next = pendingConsent.current.values().next().value;
+    setSharing(next ? { patientId: next.patientId, preview: next.preview, asking: true } : null);
+  };
+
+  const ensureConsent = (patientId: string, preview: PromptPreview) => {
+    const record = workspaceRef.current.patients.find(p => p.id === patientId);
+    const destination = aiDestination(getAiConfig());
+    if (!record || !destination || record.consent?.destination === destination) return Promise.resolve(true);
+    const key = `${patientId} ${destination}`;
+    const waiting = pendingConsent.current.get(key);
+    if (waiting) return waiting.answer;
+    let resolve: (granted: boolean) => void = () => {};
+    const answer = new Promise<boolean>(r => { resolve = r; });
+    pendingConsent.current.set(key, { patientId, destination, preview, answer, resolve });
+    if (pendingConsent.current.size === 1) showNextConsent();
+    return answer;
+  };
+
+  const answerConsent = (granted: boolean) => {
+    const [key, prompt] = pendingConsent.current.entries().next().value ?? [];
+    if (!key || !prompt) return setSharing(null);
+    if (granted) {
+      const consent: ConsentRecord = { destination: prompt.destination, grantedAt: Date.now(), grantedBy: getOperatorName(), deidentified: getAiConfig().privacy.enabled };
+      updatePatient(prompt.patientId, r => ({
+        ...r,
+        consent,
+        auditLog: [...r.auditLog, {
+          id: newId(), at: consent.grantedAt, actor: consent.grantedBy, action: 'granted', kind: 'consent',
+          label: describeDestination(prompt.destination), after: consent.deidentified ? 'De-identified data' : 'Identifiable data'
+        }]
+      }));
+    }
+    pendingConsent.current.delete(key);
+    prompt.resolve(granted);
+    showNextConsent();
+  };
+
+  const handlePreviewData = (task: 'assessment' | 'chat') => setSharing({
+    patientId: workspace.activeId,
+    preview: task === 'assessment' ? previewAssessment(activeRecord) : previewChat(activeRecord, chatInput, chatLog),
+    asking: false
+  });
+
+  const handleRevokeConsent = () => {
+    const consent = activeRecord.consent;
+    if (!consent || !window.confirm(`Stop sharing ${profile.name}'s data with ${describeDestination(consent.destination)}? Consent will be asked again before the next request.`)) return;
+    updatePatient(workspace.activeId, r => ({
+      ...r,
+      consent: undefined,
+      auditLog: [...r.auditLog, { id: newId(), at: Date.now(), actor: getOperatorName(), action: 'revoked', kind: 'consent', label: describeDestination(consent.destination) }]
+    }));
+  };
+
+  const patchUpload = (id: string, patch: Partial<UploadTask>) =>
+    setUploads(prev => prev.map(t => t.id === id ? { ...t, ...patch } : t));
+
+  // Re-uploading a byte-identical file would only produce duplicates, so those wait as skipped until
+  // someone chooses to process them anyway.
+  const enqueueUploads = async (files: File[]) => {
+    const patientId = workspace.activeId;
+    const supported = files.filter(f => f.type.startsWith('image/') || f.type === 'application/pdf');
+    if (supported.length < files.length) alert(`${files.length - supported.length} file(s) skipped: only images and PDFs can be processed.`);
+    if (supported.length === 0 || !await ensureConsent(patientId, previewExtraction(supported))) return;
+    const hashes = await Promise.all(supported.map(hashFile));
+    setUploads(prev => supported.reduce<UploadTask[]>((queue, file, i) => {
+      const earlier = queue.find(t => t.patientId === patientId && t.hash === hashes[i] && t.status !== 'skipped');
+      const duplicateOf = documents.find(d => d.hash === hashes[i])?.fileName ?? earlier?.file.name;
+      return [...queue, { id: newId(), patientId, file, hash: hashes[i], status: duplicateOf ? 'skipped' : 'queued', duplicateOf }];
+    }, prev));
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    enqueueUploads(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    enqueueUploads(Array.from(e.dataTransfer.files));
+  };
+
+  // Chunk results outlive a failed attempt, so a retry only sends the chunks that did not finish.
+  const uploadResults = useRef(new Map<string, ClinicalExtraction[]>());
+
+  // The original is stored before extraction so a failed upload can still be audited and retried.
+  const processUpload = async (task: UploadTask) => {
+    const { patientId, file } = task;
+    patchUpload(task.id, { status: 'processing', error: undefined });
+    try {
+      const sourceId = task.sourceId ?? (await storeSourceDocument(patientId, file, task.hash, null)).id;
+      patchUpload(task.id, { sourceId });
+      refreshDocuments(patientId);
+      // Consent may have been revoked, or the AI destination changed, while the file waited in the queue.
+      if (!await ensureConsent(patientId, previewExtraction([file]))) {
+        patchUpload(task.id, { status: 'failed', error: 'Not sent: consent to share with the AI service was declined.' });
+        return;
+      }
+      const chunks = await splitDocument(file);
+      const results = uploadResults.current.get(task.id) ?? [];
+      uploadResults.current.set(task.id, results);
+      for (let i = results.length; i < chunks.length; i++) {
+        patchUpload(task.id, { chunks: { done: i, total: chunks.length } });
+        results.push(await parseClinicalDocument(chunks[i].data, chunks[i].mimeType));
+      }
+      const result = mergeExtractions(results);
+      await updateSourceExtraction(sourceId, result);
+      uploadResults.current.delete(task.id);
+      refreshDocuments(patientId);
+      const target = workspaceRef.current.patients.find(p => p.id === patientId);
+      if (!target) return;
+      const documentDate = parseClinicalDate(result.documentDate);
+      const review: PendingReview = {
+        id: newId(),
+        patientId,
+        sourceId,
+        fileName: file.name,
+        documentDate: documentDate === undefined ? undefined : observationDay(documentDate),
+        items: buildReviewItems(target.profile, result, sourceId)
+      };
+      setPendingReviews(prev => [...prev, review]);
+      patchUpload(task.id, { status: 'done', reviewId: review.id, found: describeReviewItems(review.items) });
+    } catch (err) {
+      console.error(`Upload of ${file.name} failed`, err);
+      patchUpload(task.id, { status: 'failed', error: describeAiError(err) });
+    }
+  };
+
   useEffect(() => {
-    localStorage.setItem('medaid_v2_profile', JSON.stringify(profile));
-  }, [profile]);
+    const running = uploads.filter(t => t.status === 'processing').length;
+    uploads.filter(t => t.status === 'queued').slice(0, Math.max(0, UPLOAD_CONCURRENCY - running)).forEach(processUpload);
+  }, [uploads]);
+
+  useEffect(() => onUploadsActive(uploads.some(isUploadActive)), [uploads]);
+
+  // Locking discards the vault key, so an upload still running could not save its extraction.
+  const handleLock = () => {
+    const active = uploads.filter(isUploadActive).length;
+    if (active > 0 && !window.confirm(`${active} upload(s) are still being processed and will be abandoned if you lock now. Lock anyway?`)) return;
+    onLock();
+  };
+
+  const handleUploadRetry = (id: string) => patchUpload(id, { status: 'queued', duplicateOf: undefined });
+
+  const handleUploadClear = () => {
+    setUploads(prev => prev.filter(isUploadActive));
+    uploadResults.current.clear();
+  };
+
+  // Extractions only reach the profile once a person has accepted them item by item.
+  const handleReviewCommit = (review: PendingReview, items: ReviewItem[]) => {
+    const accepted = items.filter(i => i.accepted).length;
+    changeWithAudit(review.patientId, prev => applyReviewItems(prev, items), {
+      action: 'imported', kind: 'document', label: review.fileName, after: `${accepted} of ${items.length} extracted changes accepted`
+    });
+    setPendingReviews(prev => prev.filter(r => r.id !== review.id));
+    setUploads(prev => prev.map(t => t.reviewId === review.id ? { ...t, contributed: `Added ${describeReviewItems(items.filter(i => i.accepted))}` } : t));
+  };
+
+  const handleReviewDiscard = (review: PendingReview) => {
+    setPendingReviews(prev => prev.filter(r => r.id !== review.id));
+    setUploads(prev => prev.map(t => t.reviewId === review.id ? { ...t, contributed: 'Review discarded, nothing added' } : t));
+  };
+
+  const handleVitalDateOverride = (id: string, value: string) => {
+    const timestamp = parseClinicalDate(value);
+    const vital = profile.vitals.find(v => v.id === id);
+    if (timestamp === undefined || !vital || observationDay(timestamp) === observationDay(vital.timestamp)) return;
+    changeWithAudit(workspace.activeId, prev => ({
+      ...prev,
+      vitals: prev.vitals.map(v => v.id === id ? { ...v, timestamp, dateSource: 'manual' } : v)
+    }), { action: 'edited', kind: 'vital', label: vital.parameter, before: describeVital(vital), after: describeVital({ ...vital, timestamp }) });
+  };
+
+  const handleSaveEntry = (entry: EntryValue) => {
+    const previous = editor?.existing;
+    const audit = { action: previous ? 'edited' : 'added', kind: entry.kind, label: entryLabel(entry), before: previous && describeEntry(previous), after: describeEntry(entry) } as const;
+    changeWithAudit(workspace.activeId, prev => {
+      const rest = previous ? removeEntry(prev, previous) : prev;
+      if (entry.kind === 'vital') return { ...rest, vitals: [...rest.vitals, ...ingestVitals([entry.value], rest)] };
+      // Conditions and medications keep their position when edited.
+      const field = ENTRY_FIELDS[entry.kind];
+      const index = previous ? (prev[field] as { id: string }[]).findIndex(x => x.id === previous.value.id) : prev[field].length;
+      return insertEntry(rest, entry, index);
+    }, audit);
+    setEditor(null);
+  };
+
+  const handleDeleteEntry = (entry: EntryValue) => {
+    const patientId = workspace.activeId;
+    const index = (profile[ENTRY_FIELDS[entry.kind]] as { id: string }[]).findIndex(x => x.id === entry.value.id);
+    changeWithAudit(patientId, prev => removeEntry(prev, entry), { action: 'deleted', kind: entry.kind, label: entryLabel(entry), before: describeEntry(entry) });
+    setDeletions(prev => [...prev, { ...entry, patientId, index }]);
+  };
+
+  const handleUndoDelete = () => {
+    const last = deletions[deletions.length - 1];
+    if (!last) return;
+    changeWithAudit(last.patientId, prev => insertEntry(prev, last, last.index), { action: 'restored', kind: last.kind, label: entryLabel(last), after: describeEntry(last) });
+    setDeletions(prev => prev.slice(0, -1));
+  };
+
+  const handleAcknowledgeAlerts = (ids: string[]) => {
+    const actor = getOperatorName();
+    const at = Date.now();
+    updatePatient(workspace.activeId, r => ({
+      ...r,
+      alerts: r.alerts.map(a => ids.includes(a.id) && a.acknowledgedAt === undefined ? { ...a, acknowledgedAt: at, acknowledgedBy: actor } : a)
+    }));
+  };
+
+  // Opens the most recent reading behind the alert, if it is still on record.
+  const handleOpenAlertReading = (alert: ClinicalAlert) => {
+    const vital = [...alert.vitalIds].reverse().map(id => profile.vitals.find(v => v.id === id)).find(v => v !== undefined);
+    if (vital) handleOpenSource(vital);
+  };
+
+  const handleSaveAlertRules = (rules: AlertRule[]) => {
+    saveAlertRules(rules);
+    setAlertRules(rules);
+    setShowAlertRules(false);
+  };
+
+  const handleRecordDose = (medicationId: string, time: string, status: DoseEvent['status'] | null) => {
+    const date = observationDay(Date.now());
+    updatePatient(workspace.activeId, r => ({
+      ...r,
+      doseLog: [
+        ...r.doseLog.filter(e => !(e.medicationId === medicationId && e.date === date && e.time === time)),
+        ...(status ? [{ id: newId(), medicationId, date, time, status, at: Date.now() }] : [])
+      ]
+    }));
+  };
+
+  const handleLogAsNeeded = (medicationId: string) => {
+    const at = Date.now();
+    updatePatient(workspace.activeId, r => ({
+      ...r,
+      doseLog: [...r.doseLog, { id: newId(), medicationId, date: observationDay(at), time: clockTime(at), status: 'taken', at }]
+    }));
+  };
+
+  const handleToggleReminders = async () => {
+    if (remindersOn) {
+      localStorage.removeItem(REMINDERS_KEY);
+      return setRemindersOn(false);
+    }
+    if (!('Notification' in window) || !('serviceWorker' in navigator)) {
+      return alert('This browser cannot show dose reminders.');
+    }
+    if (await Notification.requestPermission() !== 'granted') {
+      return alert('Notifications are blocked for this site. Allow them in the browser settings to get dose reminders.');
+    }
+    localStorage.setItem(REMINDERS_KEY, 'on');
+    setRemindersOn(true);
+  };
+
+  const handleOpenReport = () => setReport(buildClinicalReport(activeRecord, Date.now()));
+
+  const handleDownloadReportPdf = async () => {
+    if (!report) return;
+    downloadFile(`${report.patient.name.replace(/\W+/g, '_')}_report_${observationDay(report.generatedAt)}.pdf`, await renderReportPdf(report), 'application/pdf');
+  };
+
+  const handleFhirExport = () => {
+    const bundle = exportFhirBundle(activeRecord);
+    downloadFile(`${profile.name.replace(/\W+/g, '_')}_fhir.json`, JSON.stringify(bundle, null, 2), 'application/fhir+json');
+  };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  // FHIR bundles are imported as a new roster entry so an EHR pull never overwrites local edits.
+  const handleFhirImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
-    setLoading(true);
-
-    const reader = new FileReader();
-    reader.onloadend = async () => {
-      const base64 = (reader.result as string).split(',')[1];
-      const result = await parseClinicalDocument(base64, file.type);
-      if (result) {
-        setProfile(prev => ({
-          ...prev,
-          name: result.name || prev.name,
-          age: result.age || prev.age,
-          vitals: [...prev.vitals, ...(result.vitals || []).map((v: any) => ({ ...v, id: Math.random().toString(), timestamp: Date.now() }))],
-          history: [...prev.history, ...(result.history || []).map((h: any) => ({ ...h, id: Math.random().toString() }))],
-          medications: result.medications || prev.medications
-        }));
+    try {
+      const result = importFhirBundle(JSON.parse(await file.text()));
+      const record = createPatientRecord(result.profile);
+      setWorkspace(ws => ({ patients: [...ws.patients, record], activeId: record.id }));
+      setFhirReport({ title: `Imported ${result.imported} resources for ${result.profile.name}`, issues: result.issues });
+    } catch (err) {
+      setFhirReport({ title: 'FHIR import failed', issues: [{ index: -1, resourceType: 'Bundle', message: err instanceof Error ? err.message : String(err) }] });
+    }
+  };
+
+  // Apple Health exports are read in the background while the dialog shows progress; updates for a dialog
+  // that has since been closed are dropped.
+  const handleStructuredImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const base = { id: newId(), patientId: workspace.activeId, fileName: file.name };
+    const update = (patch: Partial<Extract<PendingStructuredImport, { kind: 'apple-health' }>>) =>
+      setStructuredImport(prev => prev?.id === base.id && prev.kind === 'apple-health' ? { ...prev, ...patch } : prev);
+    if (/\.xml$/i.test(file.name) || file.type.includes('xml')) {
+      setStructuredImport({ ...base, kind: 'apple-health', progress: 0 });
+      try {
+        update({ result: await readAppleHealthExport(file, progress => update({ progress })) });
+      } catch (err) {
+        update({ error: err instanceof Error ? err.message : String(err) });
       }
-      setLoading(false);
-    };
-    reader.readAsDataURL(file);
+      return;
+    }
+    const table = parseCsv(await file.text());
+    setStructuredImport({ ...base, kind: 'csv', table, error: table.length < 2 ? `${file.name} has no data rows below its header.` : undefined });
   };
 
-  const handleAssessmentGeneration = async () => {
-    setLoading(true);
-    const assessment = await generateHealthAssessment(profile);
-    if (assessment) {
-      setProfile(p => ({ ...p, assessment }));
-      setActiveTab('assessment');
+  const handleStructuredCommit = (vitals: VitalsRecord[]) => {
+    if (!structuredImport) return;
+    changeWithAudit(structuredImport.patientId, prev => ({ ...prev, vitals: [...prev.vitals, ...vitals] }), {
+      action: 'imported', kind: 'document', label: structuredImport.fileName, after: `${vitals.length} readings imported from structured data`
+    });
+    setStructuredImport(null);
+  };
+
+  const handleAssessmentGeneration = () => {
+    if (jobs.assessment?.busy) return;
+    const patientId = workspace.activeId;
+    setActiveTab('assessment');
+    // Retries read the profile afresh so they never assess stale data.
+    runJob('assessment', async () => {
+      const target = workspaceRef.current.patients.find(p => p.id === patientId);
+      if (!target || !await ensureConsent(patientId, previewAssessment(target))) return;
+      const { provider } = getAiConfig();
+      const model = modelFor('assessment');
+      const input = target.profile;
+      const assessment = await generateHealthAssessment(target);
+      const record: AssessmentRecord = { id: newId(), generatedAt: Date.now(), provider, model, input, assessment };
+      updatePatient(patientId, r => ({ ...r, assessments: [...r.assessments, record] }));
+      setAssessmentView({ selectedId: null, compareId: null });
+    });
+  };
+
+  const sendChat = async (userMsg: string, history: ChatMessage[]) => {
+    const patientId = workspace.activeId;
+    const replyId = newId();
+    const controller = new AbortController();
+    appendChat(patientId, { id: newId(), role: 'user', text: userMsg, at: Date.now() });
+    appendChat(patientId, { id: replyId, role: 'ai', text: '', at: Date.now(), status: 'streaming' });
+    setChatStream({ patientId, controller });
+
+    try {
+      const response = await streamClinicalChatResponse(userMsg, activeRecord, history, text => updateChatMessage(patientId, replyId, { text }), controller.signal);
+      updateChatMessage(patientId, replyId, { text: response || 'Unable to process query at this time.', status: undefined });
+    } catch (err) {
+      // Whatever streamed before a cancel or failure stays in the transcript.
+      if (controller.signal.aborted) {
+        updateChatMessage(patientId, replyId, { status: 'cancelled' });
+      } else {
+        console.error("Chat error", err);
+        updatePatient(patientId, r => ({
+          ...r,
+          chatLog: r.chatLog.map(m => m.id === replyId ? { ...m, text: m.text || describeAiError(err), status: 'error' } : m)
+        }));
+      }
+    } finally {
+      setChatStream(null);
     }
-    setLoading(false);
   };
 
   const handleChat = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!chatInput.trim()) return;
-    const userMsg = chatInput;
+    const query = chatInput;
+    if (!query.trim() || chatStream || !await ensureConsent(workspace.activeId, previewChat(activeRecord, query, chatLog))) return;
     setChatInput('');
-    setChatLog(prev => [...prev, { role: 'user', text: userMsg }]);
-    
-    setLoading(true);
-    const response = await getClinicalChatResponse(userMsg, profile, chatLog);
-    setChatLog(prev => [...prev, { role: 'ai', text: response || 'Unable to process query at this time.' }]);
-    setLoading(false);
-  };
-
-  const handleMapsSearch = async (query: string) => {
-    setLoading(true);
-    navigator.geolocation.getCurrentPosition(
-      async (pos) => {
-        const res = await searchMedicalFacilities(query, pos.coords.latitude, pos.coords.longitude);
-        setMapsResults(res);
-        setLoading(false);
-      },
-      async () => {
-        const res = await searchMedicalFacilities(query);
-        setMapsResults(res);
-        setLoading(false);
-      }
-    );
+    sendChat(query, chatLog);
   };
 
-  const vitalsChartData = useMemo(() => {
-    const sorted = [...profile.vitals].sort((a, b) => a.timestamp - b.timestamp);
-    return sorted.slice(-12).map(v => ({
-      name: new Date(v.timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' }),
-      value: parseFloat(v.reading) || 0,
-      param: v.parameter
-    }));
-  }, [profile.vitals]);
+  // Retrying drops the failed exchange and asks the same question again.
+  const handleChatRetry = async (reply: ChatMessage) => {
+    if (chatStream) return;
+    const index = chatLog.indexOf(reply);
+    const prompt = chatLog.slice(0, index).reverse().find(m => m.role === 'user');
+    if (!prompt || !await ensureConsent(workspace.activeId, previewChat(activeRecord, prompt.text, chatLog.filter(m => m !== prompt && m !== reply)))) return;
+    updatePatient(workspace.activeId, r => ({ ...r, chatLog: r.chatLog.filter(m => m !== prompt && m !== reply) }));
+    sendChat(prompt.text, chatLog.filter(m => m !== prompt && m !== reply));
+  };
+
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [chatLog]);
+
+  const handleChatCancel = () => chatStream?.controller.abort();
+
+  const handleChatClear = () => {
+    if (!window.confirm('Clear the conversation transcript for this patient?')) return;
+    updatePatient(workspace.activeId, r => ({ ...r, chatLog: [] }));
+  };
+
+  const handleMapsSearch = (query: string) => {
+    if (jobs.maps?.busy) return;
+    runJob('maps', async () => {
+      const coords = await currentPosition();
+      setMapsResults(await searchMedicalFacilities(query, coords?.latitude, coords?.longitude));
+    });
+  };
+
+  const handleOpenSource = (v: VitalsRecord) => {
+    setHighlightedVitalId(v.id);
+    setActiveTab('history');
+    if (v.sourceId) setViewerDocId(v.sourceId);
+  };
+
+  useEffect(() => {
+    if (activeTab === 'history' && highlightedVitalId) {
+      document.getElementById(`vital-${highlightedVitalId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [activeTab, highlightedVitalId]);
 
-  const healthScore = useMemo(() => {
-    if (profile.vitals.length === 0) return 100;
-    const criticals = profile.vitals.filter(v => v.severity === 'Critical').length;
-    const elevateds = profile.vitals.filter(v => v.severity === 'Elevated').length;
-    return Math.max(0, 100 - (criticals * 15) - (elevateds * 5));
-  }, [profile.vitals]);
+  const sortedVitals = useMemo(() =>
+    [...profile.vitals].sort((a, b) => b.timestamp - a.timestamp), [profile.vitals]);
+
+  // Recomputed daily as well, so inputs age into their staleness notes.
+  const calculators = useMemo(() => runClinicalCalculators(profile, Date.now()), [profile, today]);
+  const openAlerts = activeRecord.alerts.filter(isOpenAlert);
+  const alertStatus = openAlerts.some(a => a.level === 'critical') ? 'critical' : openAlerts.length > 0 ? 'warning' : 'clear';
 
   return (
     <div className="flex bg-slate-50 min-h-screen font-sans selection:bg-indigo-100 selection:text-indigo-700">
-      <Sidebar activeTab={activeTab} setActiveTab={setActiveTab} />
+      <Sidebar activeTab={activeTab} setActiveTab={setActiveTab} onOpenSettings={() => setShowAiSettings(true)} onChangePassphrase={() => setShowPassphrase(true)} onLock={handleLock}>
+        <PatientRoster
+          patients={workspace.patients}
+          activeId={workspace.activeId}
+          onSelect={handleSelectPatient}
+          onCreate={handleCreatePatient}
+          onToggleArchive={handleToggleArchive}
+          onDelete={handleDeletePatient}
+        />
+      </Sidebar>
       
-      <main className="flex-1 ml-64 p-8 lg:p-12">
+      <main
+        className="flex-1 ml-64 p-8 lg:p-12"
+        onDragOver={e => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false); }}
+        onDrop={handleDrop}
+      >
+        {dragging && (
+          <div className="fixed top-4 right-4 bottom-4 left-[17rem] z-40 rounded-[2.5rem] border-4 border-dashed border-indigo-400 bg-indigo-50/80 flex items-center justify-center pointer-events-none">
+            <p className="text-2xl font-black text-indigo-700">Drop images or PDFs to upload for {profile.name}</p>
+          </div>
+        )}
         <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6 mb-12">
           <div>
             <h2 className="text-4xl font-black text-slate-900 tracking-tight">{profile.name}</h2>
             <div className="flex items-center gap-3 mt-1">
                <span className="flex items-center gap-1.5 text-slate-500 font-medium bg-white px-3 py-1 rounded-full border border-slate-200 text-sm">
-                 <div className={`w-2 h-2 rounded-full ${healthScore > 80 ? 'bg-emerald-500' : healthScore > 50 ? 'bg-amber-500' : 'bg-rose-500'}`}></div>
-                 {healthScore > 80 ? 'Optimal Status' : healthScore > 50 ? 'Action Recommended' : 'Attention Required'}
+                 <div className={`w-2 h-2 rounded-full ${alertStatus === 'clear' ? 'bg-emerald-500' : alertStatus === 'warning' ? 'bg-amber-500' : 'bg-rose-500'}`}></div>
+                 {alertStatus === 'clear' ? 'No Open Alerts' : alertStatus === 'warning' ? 'Action Recommended' : 'Attention Required'}
                </span>
                <span className="text-slate-400 font-medium">•</span>
                <span className="text-slate-500 font-medium">{profile.age ? `${profile.age} Years Old` : 'Age Not Provided'}</span>
+               {profile.sex && (
+                 <>
+                   <span className="text-slate-400 font-medium">•</span>
+                   <span className="text-slate-500 font-medium capitalize">{profile.sex}</span>
+                 </>
+               )}
             </div>
           </div>
           <div className="flex gap-3">
             <label className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-2xl font-bold cursor-pointer transition-all shadow-xl shadow-indigo-200 flex items-center gap-2 text-sm active:scale-95">
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4"/></svg>
               Upload Clinical Data
-              <input type="file" className="hidden" onChange={handleFileUpload} accept="image/*,application/pdf" />
+              <input type="file" className="hidden" onChange={handleFileUpload} accept="image/*,application/pdf" multiple />
+            </label>
+            <label title="Import a lab results CSV or an Apple Health export.xml" className="h-12 px-4 flex items-center justify-center bg-white border border-slate-200 rounded-2xl text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all active:scale-95 cursor-pointer text-xs font-bold uppercase tracking-wider">
+              Data In
+              <input type="file" className="hidden" onChange={handleStructuredImport} accept=".csv,text/csv,.xml,text/xml,application/xml" />
             </label>
-            <button onClick={() => {localStorage.clear(); window.location.reload();}} className="w-12 h-12 flex items-center justify-center bg-white border border-slate-200 rounded-2xl text-slate-400 hover:text-rose-500 hover:border-rose-200 transition-all active:scale-95">
+            <label title="Import FHIR R4 bundle" className="h-12 px-4 flex items-center justify-center bg-white border border-slate-200 rounded-2xl text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all active:scale-95 cursor-pointer text-xs font-bold uppercase tracking-wider">
+              FHIR In
+              <input type="file" className="hidden" onChange={handleFhirImport} accept="application/json,application/fhir+json,.json" />
+            </label>
+            <button onClick={handleOpenReport} title="Printable clinical report and PDF" className="h-12 px-4 flex items-center justify-center bg-white border border-slate-200 rounded-2xl text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all active:scale-95 text-xs font-bold uppercase tracking-wider">
+              Report
+            </button>
+            <button onClick={handleFhirExport} title="Export FHIR R4 bundle" className="h-12 px-4 flex items-center justify-center bg-white border border-slate-200 rounded-2xl text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all active:scale-95 text-xs font-bold uppercase tracking-wider">
+              FHIR Out
+            </button>
+            <button onClick={() => handleDeletePatient(workspace.activeId)} title="Delete patient" className="w-12 h-12 flex items-center justify-center bg-white border border-slate-200 rounded-2xl text-slate-400 hover:text-rose-500 hover:border-rose-200 transition-all active:scale-95">
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"/></svg>
             </button>
           </div>
         </header>
 
-        {loading && (
+        {fhirReport && (
+          <div className={`mb-8 p-6 rounded-[2rem] border ${fhirReport.issues.length > 0 ? 'bg-amber-50 border-amber-100' : 'bg-emerald-50 border-emerald-100'}`}>
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <p className="font-black text-slate-900">{fhirReport.title}</p>
+                {fhirReport.issues.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-sm text-amber-800 font-medium">
+                    {fhirReport.issues.map((issue, i) => (
+                      <li key={i}>
+                        {issue.index >= 0 && <span className="font-bold">entry[{issue.index}] {issue.resourceType}{issue.id ? `/${issue.id}` : ''}: </span>}
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <button onClick={() => setFhirReport(null)} className="text-slate-400 hover:text-slate-700 text-xs font-bold uppercase tracking-wider">Dismiss</button>
+            </div>
+          </div>
+        )}
+
+        {storageReport.length > 0 && (
+          <div className="mb-8 p-6 rounded-[2rem] border bg-amber-50 border-amber-100">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <p className="font-black text-slate-900">Some saved data needed repair</p>
+                <p className="mt-1 text-sm text-slate-600 font-medium">A backup of the original was kept on this device before anything was changed.</p>
+                <ul className="mt-3 space-y-1 text-sm text-slate-600">
+                  {storageReport.map((issue, i) => <li key={i}>{issue}</li>)}
+                </ul>
+              </div>
+              <button onClick={() => setStorageReport([])} className="text-slate-400 hover:text-slate-700 text-xs font-bold uppercase tracking-wider">Dismiss</button>
+            </div>
+          </div>
+        )}
+
+        {uploads.length > 0 && (
+          <UploadQueue
+            tasks={uploads}
+            patientNames={Object.fromEntries(workspace.patients.map(p => [p.id, p.profile.name]))}
+            activeId={workspace.activeId}
+            onRetry={handleUploadRetry}
+            onClear={handleUploadClear}
+          />
+        )}
+
+        {Object.values(jobs).some(j => j?.busy) && (
           <div className="fixed top-0 left-0 w-full h-1 bg-indigo-600 animate-pulse z-50"></div>
         )}
 
         {activeTab === 'dashboard' && (
           <div className="space-y-8 animate-fade-in">
+            <AlertsPanel
+              alerts={activeRecord.alerts}
+              onAcknowledge={handleAcknowledgeAlerts}
+              onOpenReading={handleOpenAlertReading}
+              onEditRules={() => setShowAlertRules(true)}
+            />
+
             {/* Quick Metrics */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <div className="bg-white p-7 rounded-[2rem] shadow-sm border border-slate-200">
-                <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mb-3">Overall Health</p>
-                <div className="flex items-end gap-2">
-                  <span className={`text-5xl font-black ${healthScore > 80 ? 'text-indigo-600' : 'text-amber-600'}`}>{healthScore}</span>
-                  <span className="text-slate-300 font-bold mb-1.5">/100</span>
-                </div>
+                <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mb-3">Open Alerts</p>
+                <span className={`text-5xl font-black ${alertStatus === 'clear' ? 'text-indigo-600' : alertStatus === 'warning' ? 'text-amber-600' : 'text-rose-600'}`}>{openAlerts.length}</span>
               </div>
               <div className="bg-white p-7 rounded-[2rem] shadow-sm border border-slate-200">
                 <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mb-3">Medications</p>
@@ -398,59 +6576,45 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {/* Clinical Calculators */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-start">
+              {calculators.map(result => <CalculatorCard key={result.id} result={result} />)}
+            </div>
+
             {/* Trends and Alerts */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-              <div className="lg:col-span-2 bg-white p-8 rounded-[2.5rem] shadow-sm border border-slate-200 relative overflow-hidden">
-                <div className="flex justify-between items-center mb-8">
-                  <h3 className="text-xl font-bold text-slate-900 flex items-center gap-3">
-                    <div className="w-2 h-6 bg-indigo-600 rounded-full"></div>
-                    Longitudinal Trends
-                  </h3>
-                  <div className="flex gap-2">
-                    <span className="px-3 py-1 bg-slate-50 text-slate-500 rounded-lg text-xs font-bold border border-slate-100">Live View</span>
-                  </div>
-                </div>
-                <div className="h-80 -ml-4">
-                  {profile.vitals.length > 0 ? (
-                    <ResponsiveContainer width="100%" height="100%">
-                      <AreaChart data={vitalsChartData}>
-                        <defs>
-                          <linearGradient id="colorVal" x1="0" y1="0" x2="0" y2="1">
-                            <stop offset="5%" stopColor="#4f46e5" stopOpacity={0.12}/>
-                            <stop offset="95%" stopColor="#4f46e5" stopOpacity={0}/>
-                          </linearGradient>
-                        </defs>
-                        <CartesianGrid strokeDasharray="5 5" vertical={false} stroke="#f1f5f9" />
-                        <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 11, fontWeight: 600}} dy={10} />
-                        <YAxis hide domain={['auto', 'auto']} />
-                        <Tooltip 
-                          contentStyle={{borderRadius: '1.5rem', border: 'none', boxShadow: '0 25px 50px -12px rgba(0,0,0,0.1)', padding: '1rem'}}
-                          itemStyle={{fontWeight: '800', fontSize: '14px'}}
-                        />
-                        <Area type="monotone" dataKey="value" stroke="#4f46e5" strokeWidth={4} fillOpacity={1} fill="url(#colorVal)" />
-                      </AreaChart>
-                    </ResponsiveContainer>
-                  ) : (
-                    <div className="h-full flex flex-col items-center justify-center text-slate-400">
-                      <svg className="w-12 h-12 mb-3 opacity-20" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"/></svg>
-                      <p className="font-medium">No vitals data to visualize yet</p>
-                    </div>
-                  )}
-                </div>
-              </div>
+              <TrendExplorer vitals={profile.vitals} patient={profile} documentNames={documentNames} onOpenSource={handleOpenSource} />
               
               <div className="bg-white p-8 rounded-[2.5rem] shadow-sm border border-slate-200">
-                <h3 className="text-xl font-bold text-slate-900 mb-6">Medication Schedule</h3>
+                <div className="flex justify-between items-center mb-6">
+                  <h3 className="text-xl font-bold text-slate-900">Medication Schedule</h3>
+                  <button onClick={() => setEditor({ kind: 'medication' })} className="text-xs font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-wider transition-colors">+ Add</button>
+                </div>
                 <div className="space-y-4">
-                  {profile.medications.length > 0 ? profile.medications.map((m, i) => (
-                    <div key={i} className="flex items-center gap-4 p-5 bg-slate-50/50 rounded-2xl border border-slate-100 hover:border-indigo-100 transition-colors">
+                  {profile.medications.length > 0 ? profile.medications.map(m => (
+                    <div key={m.id} className="group flex items-center gap-4 p-5 bg-slate-50/50 rounded-2xl border border-slate-100 hover:border-indigo-100 transition-colors">
                       <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center shrink-0">
                         <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"/></svg>
                       </div>
-                      <div className="overflow-hidden">
+                      <div className="overflow-hidden flex-1">
                         <p className="font-bold text-slate-900 truncate">{m.name}</p>
                         <p className="text-xs text-slate-500 font-medium">{m.dosage} • {m.frequency}</p>
+                        <p className="text-[10px] text-slate-400 font-bold">
+                          {describeSchedule(scheduleFor(m))}
+                          {adherence.get(m.id)?.percent !== undefined && (
+                            <span className={adherence.get(m.id)!.percent! >= 80 ? 'text-emerald-600' : 'text-amber-600'}> • {adherence.get(m.id)!.percent}% taken since {adherence.get(m.id)!.since}</span>
+                          )}
+                        </p>
+                        {interactionSeverity.has(m.id) && (
+                          <span className={`inline-block mt-1 px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-wider ${INTERACTION_SEVERITY_STYLES[interactionSeverity.get(m.id)!]}`}>{interactionSeverity.get(m.id)} interaction</span>
+                        )}
+                        {m.sourceId && (
+                          <button onClick={() => setViewerDocId(m.sourceId!)} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-600 truncate max-w-full transition-colors">
+                            {documentNames[m.sourceId] || 'Source document'}
+                          </button>
+                        )}
                       </div>
+                      <EntryActions onEdit={() => setEditor({ kind: 'medication', existing: { kind: 'medication', value: m } })} onDelete={() => handleDeleteEntry({ kind: 'medication', value: m })} />
                     </div>
                   )) : (
                     <div className="text-center py-10 opacity-40">
@@ -460,12 +6624,27 @@ const App: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+              <DoseChecklist
+                doses={todaysDoses}
+                asNeeded={profile.medications.filter(m => scheduleFor(m)?.asNeeded)}
+                now={clock}
+                reminders={remindersOn}
+                onRecord={handleRecordDose}
+                onLogAsNeeded={handleLogAsNeeded}
+                onToggleReminders={handleToggleReminders}
+              />
+              <InteractionPanel findings={interactions.findings} unrecognised={interactions.unrecognisedMedications} />
+            </div>
           </div>
         )}
 
         {activeTab === 'assessment' && (
           <div className="space-y-8 animate-fade-in">
-            {!profile.assessment ? (
+            <AiErrorNotice title="Assessment failed" state={jobs.assessment} onDismiss={() => dismissJobError('assessment')} />
+            <DataSharingStatus consent={activeRecord.consent} onPreview={() => handlePreviewData('assessment')} onRevoke={handleRevokeConsent} />
+            {!viewedAssessment ? (
               <div className="bg-white rounded-[3rem] p-16 text-center shadow-sm border border-slate-200">
                 <div className="w-24 h-24 bg-indigo-50 rounded-[2rem] flex items-center justify-center mx-auto mb-8 text-indigo-600">
                   <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04M12 21.355r7.106-7.106a11.955 11.955 0 002.512-11.314L12 2.944 1.382 2.935a11.955 11.955 0 002.512 11.314L12 21.355z"/></svg>
@@ -474,10 +6653,10 @@ const App: React.FC = () => {
                 <p className="text-slate-500 max-w-lg mx-auto mb-10 text-lg leading-relaxed">Let MedAId analyze your uploaded medical records and vitals to provide a deep clinical assessment of your health risks and progress.</p>
                 <button 
                   onClick={handleAssessmentGeneration}
-                  disabled={loading}
+                  disabled={jobs.assessment?.busy}
                   className="bg-indigo-600 hover:bg-indigo-700 text-white px-10 py-5 rounded-3xl font-bold shadow-2xl shadow-indigo-100 transition-all flex items-center gap-3 mx-auto disabled:opacity-50 text-lg"
                 >
-                  {loading ? 'Synthesizing...' : 'Run Deep Analysis'}
+                  {jobs.assessment?.busy ? 'Synthesizing...' : 'Run Deep Analysis'}
                 </button>
               </div>
             ) : (
@@ -485,7 +6664,7 @@ const App: React.FC = () => {
                 <div className="lg:col-span-2 space-y-8">
                   <div className="bg-white p-10 rounded-[2.5rem] shadow-sm border border-slate-200">
                     <h3 className="text-2xl font-black text-slate-900 mb-6">Patient Executive Summary</h3>
-                    <p className="text-slate-600 text-lg leading-relaxed bg-slate-50 p-6 rounded-3xl border border-slate-100">{profile.assessment.summary}</p>
+                    <p className="text-slate-600 text-lg leading-relaxed bg-slate-50 p-6 rounded-3xl border border-slate-100">{viewedAssessment.assessment.summary}</p>
                   </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                     <div className="bg-rose-50 p-10 rounded-[2.5rem] border border-rose-100">
@@ -494,7 +6673,7 @@ const App: React.FC = () => {
                         Clinical Risk Factors
                       </h4>
                       <ul className="space-y-4">
-                        {profile.assessment.risks.map((risk, i) => (
+                        {viewedAssessment.assessment.risks.map((risk, i) => (
                           <li key={i} className="flex gap-3 text-rose-800 font-medium text-sm">
                             <span className="shrink-0">•</span> {risk}
                           </li>
@@ -507,7 +6686,7 @@ const App: React.FC = () => {
                         Recommended Actions
                       </h4>
                       <ul className="space-y-4">
-                        {profile.assessment.recommendations.map((rec, i) => (
+                        {viewedAssessment.assessment.recommendations.map((rec, i) => (
                           <li key={i} className="flex gap-3 text-indigo-800 font-medium text-sm">
                             <span className="shrink-0">•</span> {rec}
                           </li>
@@ -519,7 +6698,7 @@ const App: React.FC = () => {
                 <div className="bg-slate-900 p-10 rounded-[2.5rem] text-white">
                   <h3 className="text-xl font-black mb-8">Protocol Checklist</h3>
                   <div className="space-y-6">
-                    {profile.assessment.nextSteps.map((step, i) => (
+                    {viewedAssessment.assessment.nextSteps.map((step, i) => (
                       <div key={i} className="flex gap-4 group">
                         <div className="w-6 h-6 rounded-full border-2 border-slate-700 group-hover:border-indigo-500 transition-colors shrink-0 flex items-center justify-center">
                           <div className="w-2 h-2 rounded-full bg-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity"></div>
@@ -528,61 +6707,158 @@ const App: React.FC = () => {
                       </div>
                     ))}
                   </div>
-                  <div className="mt-12 p-6 bg-slate-800 rounded-3xl border border-slate-700 text-xs font-bold uppercase tracking-widest text-slate-500 text-center">
-                    Data last processed: {new Date().toLocaleDateString()}
+                  <div className="mt-12 p-6 bg-slate-800 rounded-3xl border border-slate-700 text-xs font-bold uppercase tracking-widest text-slate-500 text-center space-y-2">
+                    <p>Generated: {new Date(viewedAssessment.generatedAt).toLocaleString()}</p>
+                    <p className="normal-case tracking-normal font-medium">{describeAssessmentSource(viewedAssessment)}</p>
                   </div>
+                  <button
+                    onClick={handleAssessmentGeneration}
+                    disabled={jobs.assessment?.busy}
+                    className="mt-6 w-full bg-indigo-600 hover:bg-indigo-700 text-white py-4 rounded-2xl font-bold transition-all disabled:opacity-50"
+                  >
+                    {jobs.assessment?.busy ? 'Synthesizing...' : 'Run New Analysis'}
+                  </button>
                 </div>
               </div>
             )}
+            {viewedAssessment && comparedAssessment && (
+              <AssessmentComparison
+                records={[comparedAssessment, viewedAssessment]}
+                onClose={() => setAssessmentView(v => ({ ...v, compareId: null }))}
+              />
+            )}
+            {viewedAssessment && (
+              <AssessmentTimeline
+                records={assessments}
+                selectedId={viewedAssessment.id}
+                compareId={comparedAssessment?.id ?? null}
+                onSelect={id => setAssessmentView(v => ({ selectedId: id, compareId: v.compareId === id ? null : v.compareId }))}
+                onCompare={id => setAssessmentView(v => ({ ...v, compareId: id }))}
+              />
+            )}
           </div>
         )}
 
         {activeTab === 'history' && (
-          <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-200 overflow-hidden animate-fade-in">
-            <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
-              <h3 className="text-2xl font-black text-slate-900">Historical Clinical Log</h3>
-              <div className="flex gap-2">
-                <span className="px-4 py-1.5 bg-indigo-50 text-indigo-600 rounded-full text-[10px] font-black uppercase tracking-wider">Secure Database</span>
+          <div className="space-y-8 animate-fade-in">
+            <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-200 overflow-hidden">
+              <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
+                <h3 className="text-2xl font-black text-slate-900">Historical Clinical Log</h3>
+                <div className="flex items-center gap-4">
+                  <button onClick={() => setEditor({ kind: 'vital' })} className="text-xs font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-wider transition-colors">+ Vital</button>
+                  <button onClick={() => setEditor({ kind: 'condition' })} className="text-xs font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-wider transition-colors">+ Condition</button>
+                  <span className="px-4 py-1.5 bg-indigo-50 text-indigo-600 rounded-full text-[10px] font-black uppercase tracking-wider">Secure Database</span>
+                </div>
               </div>
-            </div>
-            <div className="overflow-x-auto">
-              <table className="w-full text-left">
-                <thead>
-                  <tr className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] border-b border-slate-50">
-                    <th className="px-10 py-6">Parameter/Event</th>
-                    <th className="px-10 py-6">Reference Value</th>
-                    <th className="px-10 py-6">Classification</th>
-                    <th className="px-10 py-6 text-right">Observation Date</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-slate-50">
-                  {profile.vitals.map(v => (
-                    <tr key={v.id} className="hover:bg-slate-50/50 transition-colors group">
-                      <td className="px-10 py-6 font-bold text-slate-900 group-hover:text-indigo-600 transition-colors">{v.parameter}</td>
-                      <td className="px-10 py-6 text-slate-600 font-medium">{v.reading} <span className="text-slate-400 text-xs">{v.unit}</span></td>
-                      <td className="px-10 py-6">
-                        <span className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider ${v.severity === 'Critical' ? 'bg-rose-100 text-rose-600' : v.severity === 'Elevated' ? 'bg-amber-100 text-amber-600' : 'bg-emerald-100 text-emerald-600'}`}>
-                          {v.severity}
-                        </span>
-                      </td>
-                      <td className="px-10 py-6 text-slate-400 text-sm font-medium text-right">{new Date(v.timestamp).toLocaleDateString()}</td>
-                    </tr>
-                  ))}
-                  {profile.history.map(h => (
-                    <tr key={h.id} className="hover:bg-slate-50/50 transition-colors group">
-                      <td className="px-10 py-6 font-bold text-slate-900 group-hover:text-indigo-600 transition-colors">{h.condition}</td>
-                      <td className="px-10 py-6 text-slate-600 font-medium">{h.status}</td>
-                      <td className="px-10 py-6">
-                        <span className="px-3 py-1.5 bg-slate-100 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-wider">
-                          Historical Record
-                        </span>
-                      </td>
-                      <td className="px-10 py-6 text-slate-400 text-sm font-medium text-right">{h.date}</td>
+              <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] border-b border-slate-50">
+                      <th className="px-10 py-6">Parameter/Event</th>
+                      <th className="px-10 py-6">Reference Value</th>
+                      <th className="px-10 py-6">Classification</th>
+                      <th className="px-10 py-6 text-right">Observation Date</th>
+                      <th className="pr-10 py-6"></th>
                     </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {sortedVitals.map(v => (
+                      <tr
+                        key={v.id}
+                        id={`vital-${v.id}`}
+                        className={`hover:bg-slate-50/50 transition-colors group ${v.id === highlightedVitalId ? 'bg-indigo-50/60' : ''}`}
+                      >
+                        <td className="px-10 py-6 font-bold text-slate-900 group-hover:text-indigo-600 transition-colors">
+                          {v.parameter}
+                          {v.code && <span className="block text-[10px] text-slate-400 font-medium tracking-wider">LOINC {v.code}</span>}
+                        </td>
+                        <td className="px-10 py-6 text-slate-600 font-medium">
+                          {v.reading} <span className="text-slate-400 text-xs">{v.unit}</span>
+                          {v.value !== undefined && v.canonicalUnit && normalizeUnit(v.canonicalUnit) !== normalizeUnit(v.unit) && (
+                            <span className="block text-slate-400 text-xs">= {v.value} {v.canonicalUnit}</span>
+                          )}
+                        </td>
+                        <td className="px-10 py-6">
+                          <span className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider ${v.severity === 'Critical' ? 'bg-rose-100 text-rose-600' : v.severity === 'Elevated' ? 'bg-amber-100 text-amber-600' : 'bg-emerald-100 text-emerald-600'}`}>
+                            {v.severity}
+                          </span>
+                          {hasSeverityDisagreement(v) && (
+                            <span title={`Reference table v${v.rangeVersion} disagrees with the AI label`} className="ml-2 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider bg-violet-50 text-violet-500 border border-violet-100">
+                              AI: {v.modelSeverity}
+                            </span>
+                          )}
+                          {v.severitySource === 'model' && (
+                            <span title="No reference range for this parameter/unit; severity is the AI estimate" className="ml-2 text-[10px] font-bold uppercase tracking-wider text-slate-300">
+                              Unverified
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-10 py-6 text-slate-400 text-sm font-medium text-right">
+                          {/* Committed on blur or Enter so the half-typed dates of each keystroke are never saved. */}
+                          <input
+                            type="date"
+                            key={`${v.id}:${v.timestamp}`}
+                            defaultValue={observationDay(v.timestamp)}
+                            min={`${EARLIEST_CLINICAL_YEAR}-01-01`}
+                            max={observationDay(Date.now())}
+                            onBlur={e => handleVitalDateOverride(v.id, e.target.value)}
+                            onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                            title={!v.dateSource || v.dateSource === 'upload' ? 'Upload date — the document gave no observation date' : `Observation date from ${v.dateSource}`}
+                            className={`bg-transparent border-none p-0 text-right text-sm font-medium focus:ring-0 cursor-pointer ${!v.dateSource || v.dateSource === 'upload' ? 'text-amber-500' : 'text-slate-400'}`}
+                          />
+                          <SourceLink sourceId={v.sourceId} documentNames={documentNames} onOpen={setViewerDocId} />
+                        </td>
+                        <td className="pr-10 py-6">
+                          <EntryActions onEdit={() => setEditor({ kind: 'vital', existing: { kind: 'vital', value: v } })} onDelete={() => handleDeleteEntry({ kind: 'vital', value: v })} />
+                        </td>
+                      </tr>
+                    ))}
+                    {profile.history.map(h => (
+                      <tr key={h.id} className="hover:bg-slate-50/50 transition-colors group">
+                        <td className="px-10 py-6 font-bold text-slate-900 group-hover:text-indigo-600 transition-colors">{h.condition}</td>
+                        <td className="px-10 py-6 text-slate-600 font-medium">{h.status}</td>
+                        <td className="px-10 py-6">
+                          <span className="px-3 py-1.5 bg-slate-100 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-wider">
+                            Historical Record
+                          </span>
+                        </td>
+                        <td className="px-10 py-6 text-slate-400 text-sm font-medium text-right">
+                          {h.date}
+                          <SourceLink sourceId={h.sourceId} documentNames={documentNames} onOpen={setViewerDocId} />
+                        </td>
+                        <td className="pr-10 py-6">
+                          <EntryActions onEdit={() => setEditor({ kind: 'condition', existing: { kind: 'condition', value: h } })} onDelete={() => handleDeleteEntry({ kind: 'condition', value: h })} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-[2.5rem] shadow-sm border border-slate-200 overflow-hidden">
+              <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
+                <h3 className="text-2xl font-black text-slate-900">Source Document Library</h3>
+                <span className="px-4 py-1.5 bg-slate-100 text-slate-500 rounded-full text-[10px] font-black uppercase tracking-wider">Stored On This Device</span>
+              </div>
+              {documents.length > 0 ? (
+                <div className="divide-y divide-slate-50">
+                  {documents.map(d => (
+                    <button key={d.id} onClick={() => setViewerDocId(d.id)} className="w-full px-10 py-6 flex items-center justify-between gap-6 text-left hover:bg-slate-50/50 transition-colors group">
+                      <div className="min-w-0">
+                        <p className="font-bold text-slate-900 group-hover:text-indigo-600 transition-colors truncate">{d.fileName}</p>
+                        <p className="text-xs text-slate-400 font-medium mt-1">SHA-256 {d.hash.slice(0, 16)}… • {(d.size / 1024).toFixed(0)} KB{!d.extraction && ' • extraction failed'}</p>
+                      </div>
+                      <span className="text-slate-400 text-sm font-medium shrink-0">{new Date(d.uploadedAt).toLocaleString()}</span>
+                    </button>
                   ))}
-                </tbody>
-              </table>
+                </div>
+              ) : (
+                <p className="px-10 py-8 text-slate-400 font-medium italic">No documents uploaded for this patient yet</p>
+              )}
             </div>
+
+            <AuditTrail entries={activeRecord.auditLog} />
           </div>
         )}
 
@@ -596,10 +6872,20 @@ const App: React.FC = () => {
                 </span>
                 MedAId Clinical Intelligence
               </h3>
-              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest bg-slate-50 px-3 py-1 rounded-full border border-slate-100">
-                End-to-End Encrypted
+              <div className="flex items-center gap-3">
+                {chatLog.length > 0 && (
+                  <button onClick={handleChatClear} disabled={!!chatStream} className="text-[10px] font-bold text-slate-400 hover:text-rose-500 uppercase tracking-widest transition-colors disabled:opacity-50">
+                    Clear Transcript
+                  </button>
+                )}
+                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest bg-slate-50 px-3 py-1 rounded-full border border-slate-100">
+                  Encrypted on Device
+                </div>
               </div>
             </div>
+            <div className="px-8 py-3 border-b border-slate-100">
+              <DataSharingStatus consent={activeRecord.consent} onPreview={() => handlePreviewData('chat')} onRevoke={handleRevokeConsent} />
+            </div>
             <div className="flex-1 overflow-y-auto p-10 space-y-8 scroll-smooth">
               {chatLog.length === 0 && (
                 <div className="text-center py-20">
@@ -611,21 +6897,30 @@ const App: React.FC = () => {
                 </div>
               )}
               {chatLog.map((chat, i) => (
-                <div key={i} className={`flex ${chat.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                  <div className={`max-w-[85%] lg:max-w-[70%] px-8 py-5 rounded-[2rem] text-sm md:text-base leading-relaxed ${chat.role === 'user' ? 'bg-slate-900 text-white shadow-2xl shadow-slate-200' : 'bg-slate-100 text-slate-800'}`}>
-                    {chat.text}
-                  </div>
+                <div key={chat.id} className={`flex flex-col ${chat.role === 'user' ? 'items-end' : 'items-start'}`}>
+                  {chat.status === 'streaming' && !chat.text ? (
+                    <div className="bg-slate-100 px-8 py-5 rounded-[2rem] flex gap-2">
+                      <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce"></div>
+                      <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
+                      <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
+                    </div>
+                  ) : (
+                    <div className={`max-w-[85%] lg:max-w-[70%] px-8 py-5 rounded-[2rem] text-sm md:text-base leading-relaxed whitespace-pre-wrap ${chat.role === 'user' ? 'bg-slate-900 text-white shadow-2xl shadow-slate-200' : chat.status === 'error' ? 'bg-rose-50 text-rose-700' : 'bg-slate-100 text-slate-800'}`}>
+                      {chat.text}
+                      {chat.status === 'streaming' && <span className="inline-block w-2 h-4 ml-1 bg-slate-400 animate-pulse align-middle"></span>}
+                    </div>
+                  )}
+                  {(chat.status === 'cancelled' || chat.at) && (
+                    <p className="mt-1 px-4 text-[10px] font-bold uppercase tracking-wider text-slate-300">
+                      {chat.status === 'cancelled' ? 'Stopped' : new Date(chat.at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {chat.status === 'error' && i === chatLog.length - 1 && (
+                        <button onClick={() => handleChatRetry(chat)} disabled={!!chatStream} className="ml-3 text-rose-500 hover:text-rose-700 disabled:opacity-50">Try Again</button>
+                      )}
+                    </p>
+                  )}
                 </div>
               ))}
-              {loading && chatLog.length > 0 && chatLog[chatLog.length - 1].role === 'user' && (
-                <div className="flex justify-start">
-                   <div className="bg-slate-100 px-8 py-5 rounded-[2rem] flex gap-2">
-                     <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce"></div>
-                     <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
-                     <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
-                   </div>
-                </div>
-              )}
+              <div ref={chatEndRef} />
             </div>
             <form onSubmit={handleChat} className="p-8 bg-white border-t border-slate-100 flex gap-4">
               <input
@@ -634,15 +6929,22 @@ const App: React.FC = () => {
                 placeholder="Query clinical data..."
                 className="flex-1 px-8 py-5 rounded-3xl bg-slate-50 border-none focus:ring-4 focus:ring-indigo-50 focus:bg-white transition-all font-medium text-slate-700 placeholder:text-slate-400"
               />
-              <button disabled={loading} className="bg-indigo-600 text-white w-16 h-16 rounded-3xl flex items-center justify-center hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-100 disabled:opacity-50 active:scale-95 shrink-0">
-                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 5l7 7-7 7M5 5l7 7-7 7"/></svg>
-              </button>
+              {chatStream?.patientId === workspace.activeId ? (
+                <button type="button" onClick={handleChatCancel} title="Stop response" className="bg-rose-500 text-white w-16 h-16 rounded-3xl flex items-center justify-center hover:bg-rose-600 transition-all shadow-xl shadow-rose-100 active:scale-95 shrink-0">
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2"/></svg>
+                </button>
+              ) : (
+                <button disabled={!!chatStream} className="bg-indigo-600 text-white w-16 h-16 rounded-3xl flex items-center justify-center hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-100 disabled:opacity-50 active:scale-95 shrink-0">
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 5l7 7-7 7M5 5l7 7-7 7"/></svg>
+                </button>
+              )}
             </form>
           </div>
         )}
 
         {activeTab === 'maps' && (
           <div className="space-y-8 animate-fade-in">
+            <AiErrorNotice title="Facility search failed" state={jobs.maps} onDismiss={() => dismissJobError('maps')} />
             <div className="bg-white p-10 rounded-[2.5rem] shadow-sm border border-slate-200">
               <h3 className="text-2xl font-black text-slate-900 mb-8">Specialized Medical Care Finder</h3>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -695,10 +6997,120 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
+
+      {viewerDocId && <DocumentViewer documentId={viewerDocId} profile={profile} onClose={() => setViewerDocId(null)} />}
+      {showAiSettings && <AiSettings onClose={() => setShowAiSettings(false)} />}
+      {showAlertRules && <AlertRulesSettings onSave={handleSaveAlertRules} onClose={() => setShowAlertRules(false)} />}
+      {structuredImport && (() => {
+        const target = workspace.patients.find(p => p.id === structuredImport.patientId);
+        return target && (
+          <StructuredImportDialog
+            key={structuredImport.id}
+            pending={structuredImport}
+            profile={target.profile}
+            onImport={handleStructuredCommit}
+            onClose={() => setStructuredImport(null)}
+          />
+        );
+      })()}
+      {sharing && (() => {
+        const record = workspace.patients.find(p => p.id === sharing.patientId);
+        return record && (
+          <DataSharingDialog
+            patientName={record.profile.name}
+            privacyKey={record.privacyKey}
+            preview={sharing.preview}
+            onGrant={sharing.asking ? () => answerConsent(true) : undefined}
+            onClose={() => sharing.asking ? answerConsent(false) : showNextConsent()}
+          />
+        );
+      })()}
+      {showPassphrase && <ChangePassphrase onClose={() => setShowPassphrase(false)} />}
+      {editor && <EntryEditor draft={editor} onSave={handleSaveEntry} onClose={() => setEditor(null)} />}
+      {report && <ClinicalReportView report={report} onDownloadPdf={handleDownloadReportPdf} onClose={() => setReport(null)} />}
+
+      {deletions.length > 0 && (() => {
+        const last = deletions[deletions.length - 1];
+        return (
+          <div className="fixed bottom-8 left-1/2 -translate-x-1/2 ml-32 z-40 bg-slate-900 text-white pl-6 pr-3 py-3 rounded-2xl shadow-2xl flex items-center gap-4 text-sm font-medium">
+            <span className="truncate max-w-xs">Deleted {entryLabel(last)}</span>
+            <button onClick={handleUndoDelete} className="px-3 py-1.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 font-bold text-xs uppercase tracking-wider transition-colors">Undo</button>
+            <button onClick={() => setDeletions([])} title="Dismiss" className="px-2 text-slate-400 hover:text-white transition-colors">✕</button>
+          </div>
+        );
+      })()}
+
+      {pendingReviews.length > 0 && (() => {
+        const review = pendingReviews[0];
+        const target = workspace.patients.find(p => p.id === review.patientId);
+        return target ? (
+          <ExtractionReview
+            key={review.id}
+            review={review}
+            profile={target.profile}
+            remaining={pendingReviews.length - 1}
+            onCommit={(items) => handleReviewCommit(review, items)}
+            onDiscard={() => handleReviewDiscard(review)}
+          />
+        ) : null;
+      })()}
     </div>
   );
 };
 
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Holds the decrypted workspace only while unlocked; locking unmounts the app so nothing stays in memory.
+const VaultGate: React.FC = () => {
+  const [unlocked, setUnlocked] = useState<LoadedWorkspace | null>(null);
+  const uploadsActive = useRef(false);
+
+  const handleLock = async () => {
+    uploadsActive.current = false;
+    setUnlocked(null);
+    // Let the final save finish with the key before it is discarded.
+    await workspaceWrite;
+    lockVault();
+  };
+
+  useEffect(() => {
+    if (!unlocked) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(expire, AUTO_LOCK_MS);
+    };
+    // Uploads keep working while nobody touches the page, so the idle period only starts once they finish.
+    const expire = () => uploadsActive.current ? reset() : handleLock();
+    reset();
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, reset, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, reset));
+    };
+  }, [unlocked]);
+
+  return unlocked && isVaultUnlocked()
+    ? <App initialWorkspace={unlocked.workspace} storageIssues={unlocked.issues} onLock={handleLock} onUploadsActive={active => { uploadsActive.current = active; }} />
+    : <LockScreen onUnlocked={setUnlocked} />;
+};
+
 // --- RENDER ---
-const root = ReactDOM.createRoot(document.getElementById('root')!);
-root.render(<App />);
+// The tests load this module for its engines in a page without a #root, so nothing is mounted there.
+const container = document.getElementById('root');
+if (container) {
+  registerServiceWorker();
+  ReactDOM.createRoot(container).render(<VaultGate />);
+}
+
+// --- TEST EXPORTS ---
+export {
+  createPatientRecord, findParameterByName, convertToCanonical, normalizeVital, numericSeries,
+  exportFhirBundle, importFhirBundle, parseCsv, guessCsvMapping, readCsvVitals, readAppleHealthExport, MAX_IMPORT_ISSUES,
+  matchVital, matchCondition,
+  parseFrequency, dosesForDay, adherenceContext, checkInteractions,
+  DEFAULT_ALERT_RULES, isAlertRule, loadAlertRules, refreshAlerts,
+  calculateBmi, calculateEgfr, calculateAscvdRisk,
+  findReferenceRange, classifyValue, applyReferenceRanges, ingestVitals, applyReviewItems
+};
+export type { VitalsRecord, PatientProfile, Medication, DoseEvent, AlertRule, ReviewItem };
@@ -0,0 +1,16 @@
+// Dose reminders are scheduled by the open app, which calls registration.showNotification on this worker
+// so they also work where page-level notifications are not allowed (e.g. Android Chrome).
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+    const client = clients[0];
+    if (!client) return self.clients.openWindow('/');
+    client.postMessage({ type: 'show-doses' });
+    return client.focus();
+  }));
+});
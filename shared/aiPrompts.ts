@@ -0,0 +1,108 @@
+// Prompts, schemas and Gemini model defaults shared by the browser app and the server API in /api.
+
+import { Type } from "@google/genai";
+
+export type AiTask = 'extraction' | 'assessment' | 'chat' | 'facilities';
+
+export const GEMINI_MODELS: Record<AiTask, string> = {
+  extraction: 'gemini-3-flash-preview',
+  assessment: 'gemini-3-pro-preview',
+  chat: 'gemini-3-pro-preview',
+  facilities: 'gemini-2.5-flash'
+};
+
+// Vercel rejects request bodies over 4.5 MB, which leaves roughly 3 MB of original file once base64-encoded.
+export const MAX_DOCUMENT_BASE64_LENGTH = 4_000_000;
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Findings computed on the device from bundled reference data and the dose log, not by the model.
+export interface AssessmentContext {
+  interactions?: unknown[];
+  adherence?: unknown[];
+}
+
+// Older turns beyond this are dropped from the replay to keep requests inside the context window.
+export const CHAT_HISTORY_LIMIT = 40;
+
+export const EXTRACTION_PROMPT = `Analyze this medical document. Extract:
+  1. Patient name, age and sex.
+  2. Clinical Vitals (BP, Glucose, Cholesterol, Sodium, etc.) with readings and units.
+  3. Medical History (Past conditions or diagnoses).
+  4. Current Medications mentioned.
+  5. The document date: when the specimen was collected or, failing that, when the report was issued, as YYYY-MM-DD.
+     If an individual vital was observed on a different date than the document date, give it as that vital's observedDate (YYYY-MM-DD).
+  
+  Assign a severity to each vital: 'Critical', 'Elevated', or 'Normal' based on standard clinical thresholds.`;
+
+export const EXTRACTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    age: { type: Type.INTEGER },
+    sex: { type: Type.STRING, enum: ['male', 'female'] },
+    documentDate: { type: Type.STRING },
+    vitals: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          parameter: { type: Type.STRING },
+          reading: { type: Type.STRING },
+          unit: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ['Critical', 'Elevated', 'Normal'] },
+          observedDate: { type: Type.STRING }
+        }
+      }
+    },
+    history: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          condition: { type: Type.STRING },
+          status: { type: Type.STRING },
+          date: { type: Type.STRING }
+        }
+      }
+    },
+    medications: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          dosage: { type: Type.STRING },
+          frequency: { type: Type.STRING }
+        }
+      }
+    }
+  }
+};
+
+export const ASSESSMENT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    risks: { type: Type.ARRAY, items: { type: Type.STRING } },
+    recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
+    nextSteps: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["summary", "risks", "recommendations", "nextSteps"]
+};
+
+export const assessmentPrompt = (profile: unknown, { interactions = [], adherence = [] }: AssessmentContext = {}) => `Review the following patient data and provide a professional clinical summary, risk assessment, and personalized recommendations.
+  Patient Profile: ${JSON.stringify(profile)}
+  ${interactions.length > 0 ? `Medication interactions flagged by a local reference dataset (address each in the risks and recommendations): ${JSON.stringify(interactions)}` : 'No medication interactions were flagged by the local reference dataset.'}
+  ${adherence.length > 0 ? `Recorded medication adherence (doses taken of doses due since the given date): ${JSON.stringify(adherence)}` : 'No medication adherence has been recorded.'}
+  
+  Return the assessment in a structured format.`;
+
+export const chatSystemInstruction = (profile: unknown) =>
+  `You are MedAId, a highly accurate clinical assistant. You have access to the patient's full records: ${JSON.stringify(profile)}. Answer questions concisely and professionally. If a patient asks about symptoms that sound like an emergency, advise them to call emergency services immediately. Always remind the user that you are an AI assistant and they should consult a real medical professional for diagnosis.`;
+
+export const facilitiesPrompt = (query: string, lat?: number, lng?: number) =>
+  `Find high-quality ${query} near ${lat && lng ? `${lat}, ${lng}` : 'my location'}. Provide a brief description and then specific locations.`;
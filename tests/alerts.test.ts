@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ALERT_RULES, createPatientRecord, ingestVitals, isAlertRule, loadAlertRules, refreshAlerts } from '../index';
+import type { AlertRule, PatientProfile } from '../index';
+import { DAY_MS, rawVital } from './fixtures';
+
+const NOW = Date.UTC(2025, 5, 1, 12);
+const daysAgo = (days: number) => NOW - days * DAY_MS;
+
+const recordWith = (profile: Partial<PatientProfile>) =>
+  createPatientRecord({ age: 60, sex: 'male', ...profile, vitals: ingestVitals(profile.vitals ?? [], { age: 60, sex: 'male' }) });
+
+const creatinine = (reading: string, days: number) => rawVital('Creatinine', reading, 'mg/dL', daysAgo(days));
+
+describe('refreshAlerts', () => {
+  it('raises a critical alert when creatinine rises 30% within 90 days', () => {
+    const { alerts } = refreshAlerts(recordWith({ vitals: [creatinine('1.0', 80), creatinine('1.1', 40), creatinine('1.35', 2)] }), DEFAULT_ALERT_RULES, NOW);
+    expect(alerts).toEqual([expect.objectContaining({ ruleId: 'creatinine-rise', level: 'critical', title: 'Creatinine rose 35% in 78 days', raisedAt: NOW })]);
+  });
+
+  it('ignores the same rise spread over more than 90 days', () => {
+    const record = recordWith({ vitals: [creatinine('1.0', 120), creatinine('1.35', 2)] });
+    expect(refreshAlerts(record, DEFAULT_ALERT_RULES, NOW)).toBe(record);
+  });
+
+  it('resolves an alert once its finding has gone', () => {
+    const raised = refreshAlerts(recordWith({ vitals: [creatinine('1.0', 80), creatinine('1.35', 2)] }), DEFAULT_ALERT_RULES, NOW);
+    const corrected = { ...raised, profile: { ...raised.profile, vitals: raised.profile.vitals.slice(0, 1) } };
+    expect(refreshAlerts(corrected, DEFAULT_ALERT_RULES, NOW + 1000).alerts).toEqual([expect.objectContaining({ resolvedAt: NOW + 1000 })]);
+  });
+
+  it('does not raise alerts for readings older than the lookback window', () => {
+    const record = recordWith({ vitals: [rawVital('Potassium', '6.8', 'mmol/L', daysAgo(200))] });
+    expect(refreshAlerts(record, DEFAULT_ALERT_RULES, NOW).alerts).toEqual([]);
+  });
+
+  it('raises one alert per reading, keeping the most severe rule', () => {
+    const record = recordWith({ vitals: [rawVital('Potassium', '6.8', 'mmol/L', daysAgo(1))] });
+    expect(refreshAlerts(record, DEFAULT_ALERT_RULES, NOW).alerts.map(a => [a.ruleId, a.level])).toEqual([['critical-range', 'critical']]);
+  });
+
+  it('flags an overdue follow-up test for a medication that needs monitoring', () => {
+    const record = recordWith({
+      medications: [{ id: 'm', name: 'Lisinopril 10 mg', dosage: '', frequency: 'daily' }],
+      vitals: [rawVital('Potassium', '4.5', 'mmol/L', daysAgo(400)), creatinine('1.0', 100)]
+    });
+    expect(refreshAlerts(record, DEFAULT_ALERT_RULES, NOW).alerts.map(a => a.title)).toEqual(['Potassium follow-up overdue']);
+  });
+
+  it('skips disabled rules', () => {
+    const rules = DEFAULT_ALERT_RULES.map(r => r.id === 'creatinine-rise' ? { ...r, enabled: false } : r);
+    const record = recordWith({ vitals: [creatinine('1.0', 80), creatinine('1.35', 2)] });
+    expect(refreshAlerts(record, rules, NOW).alerts).toEqual([]);
+  });
+});
+
+describe('isAlertRule', () => {
+  it('accepts every default rule', () => {
+    expect(DEFAULT_ALERT_RULES.every(isAlertRule)).toBe(true);
+  });
+
+  it('rejects rules missing a field their kind needs', () => {
+    const change: AlertRule = { id: 'r', kind: 'change', code: '2160-0', direction: 'rise', percent: 30, withinDays: 90, enabled: true, level: 'warning' };
+    expect(isAlertRule({ ...change, percent: '30' })).toBe(false);
+    expect(isAlertRule({ ...change, withinDays: 0 })).toBe(false);
+    expect(isAlertRule({ ...change, level: 'info' })).toBe(false);
+    expect(isAlertRule({ id: 'r', kind: 'follow-up', code: '4548-4', everyDays: 183, conditions: 'diabetes', drugs: [], enabled: true, level: 'warning' })).toBe(false);
+    expect(isAlertRule({ ...change, kind: 'trend' })).toBe(false);
+  });
+});
+
+describe('loadAlertRules', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the defaults until rules are saved', () => {
+    expect(loadAlertRules()).toBe(DEFAULT_ALERT_RULES);
+  });
+
+  it('drops saved rules that are malformed', () => {
+    const valid = DEFAULT_ALERT_RULES[0];
+    localStorage.setItem('medaid_alert_rules', JSON.stringify([valid, { id: 'x', kind: 'threshold', above: 'high' }, null]));
+    expect(loadAlertRules()).toEqual([valid]);
+  });
+
+  it('falls back to the defaults when storage holds unreadable JSON', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('medaid_alert_rules', '{not json');
+    expect(loadAlertRules()).toBe(DEFAULT_ALERT_RULES);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAscvdRisk, calculateBmi, calculateEgfr, ingestVitals } from '../index';
+import type { PatientProfile, VitalsRecord } from '../index';
+import { DAY_MS, patient, rawVital } from './fixtures';
+
+const NOW = Date.UTC(2025, 5, 1, 12);
+
+const withReadings = (demographics: Pick<PatientProfile, 'age' | 'sex'>, readings: VitalsRecord[], rest: Partial<PatientProfile> = {}) =>
+  patient({ ...demographics, ...rest, vitals: ingestVitals(readings, demographics) });
+
+describe('calculateBmi', () => {
+  it('divides weight by height squared and applies the WHO category', () => {
+    const result = calculateBmi(withReadings({ age: 40 }, [rawVital('Weight', '70', 'kg'), rawVital('Height', '175', 'cm')]), NOW);
+    expect(result).toMatchObject({ value: 22.9, category: 'Healthy weight', severity: 'Normal', missing: [] });
+  });
+
+  it('converts pounds and inches first', () => {
+    const result = calculateBmi(withReadings({ age: 40 }, [rawVital('Weight', '220', 'lb'), rawVital('Height', '70', 'in')]), NOW);
+    expect(result).toMatchObject({ value: 31.6, category: 'Obese' });
+  });
+
+  it('withholds adult categories under 18', () => {
+    const result = calculateBmi(withReadings({ age: 12 }, [rawVital('Weight', '40', 'kg'), rawVital('Height', '150', 'cm')]), NOW);
+    expect(result.value).toBe(17.8);
+    expect(result.category).toBeUndefined();
+  });
+
+  it('says what to record when an input is missing', () => {
+    const result = calculateBmi(withReadings({}, [rawVital('Weight', '70', 'kg')]), NOW);
+    expect(result.value).toBeUndefined();
+    expect(result.missing).toEqual(['Record a height.']);
+  });
+});
+
+describe('calculateEgfr', () => {
+  // Reference values from the NKF CKD-EPI 2021 calculator.
+  it.each([
+    [50, 'female', '1.0', 69, 'G2 Mildly decreased'],
+    [60, 'male', '0.8', 101, 'G1 Normal or high'],
+    [75, 'male', '2.0', 34, 'G3b Moderately to severely decreased']
+  ] as const)('gives %i-year-old %s with creatinine %s mg/dL an eGFR of %i', (age, sex, creatinine, egfr, category) => {
+    const result = calculateEgfr(withReadings({ age, sex }, [rawVital('Creatinine', creatinine, 'mg/dL')]), NOW);
+    expect(result).toMatchObject({ value: egfr, category });
+  });
+
+  it('uses the most recent creatinine and notes when it is over a year old', () => {
+    const result = calculateEgfr(withReadings({ age: 60, sex: 'male' }, [
+      rawVital('Creatinine', '2.0', 'mg/dL', NOW - 500 * DAY_MS),
+      rawVital('Creatinine', '0.8', 'mg/dL', NOW - 400 * DAY_MS)
+    ]), NOW);
+    expect(result.value).toBe(101);
+    expect(result.notes).toEqual([expect.stringMatching(/^Serum creatinine is from .*, over a year ago\.$/)]);
+  });
+
+  it('needs age and sex, and is withheld for children', () => {
+    expect(calculateEgfr(withReadings({}, [rawVital('Creatinine', '1.0', 'mg/dL')]), NOW).missing)
+      .toEqual(["Add the patient's age.", "Add the patient's sex."]);
+    expect(calculateEgfr(withReadings({ age: 15, sex: 'male' }, [rawVital('Creatinine', '0.7', 'mg/dL')]), NOW).value).toBeUndefined();
+  });
+});
+
+describe('calculateAscvdRisk', () => {
+  const lipids = () => [rawVital('Total Cholesterol', '213', 'mg/dL'), rawVital('HDL', '50', 'mg/dL'), rawVital('Blood Pressure', '120/80', 'mmHg')];
+
+  // The worked examples in Goff et al., Circulation 2014. The paper sums terms rounded to two decimals,
+  // so the unrounded equation can differ in the last digit.
+  it.each([['female', 2.1], ['male', 5.3]] as const)('matches the published example for a 55-year-old %s', (sex, risk) => {
+    const { value, category } = calculateAscvdRisk(withReadings({ age: 55, sex }, lipids()), NOW);
+    expect(Math.abs(value! - risk)).toBeLessThan(0.15);
+    expect(category).toBe(sex === 'female' ? 'Low risk' : 'Borderline risk');
+  });
+
+  it('reads treatment, diabetes and smoking from the record', () => {
+    const result = calculateAscvdRisk(withReadings({ age: 55, sex: 'male' }, lipids(), {
+      medications: [{ id: 'm', name: 'Amlodipine 5 mg', dosage: '', frequency: 'daily' }],
+      history: [
+        { id: 'a', condition: 'Type 2 diabetes', status: 'Active', date: '' },
+        { id: 'b', condition: 'Smoker', status: 'Active', date: '' }
+      ]
+    }), NOW);
+    expect(result.inputs.slice(-3).map(i => i.value)).toEqual(['Yes (Amlodipine 5 mg)', 'Yes (Type 2 diabetes)', 'Yes (Smoker)']);
+    expect(result.value).toBeGreaterThan(5.3);
+  });
+
+  it('does not estimate risk for established disease or outside ages 40 to 79', () => {
+    const established = calculateAscvdRisk(withReadings({ age: 55, sex: 'male' }, lipids(), {
+      history: [{ id: 'a', condition: 'Coronary artery disease', status: 'Active', date: '' }]
+    }), NOW);
+    expect(established.value).toBeUndefined();
+    expect(calculateAscvdRisk(withReadings({ age: 35, sex: 'male' }, lipids()), NOW).value).toBeUndefined();
+  });
+});
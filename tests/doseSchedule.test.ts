@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { adherenceContext, dosesForDay, parseFrequency } from '../index';
+import type { DoseEvent, Medication } from '../index';
+
+// Local clock times, since dose days and times follow the patient's own calendar.
+const at = (date: string, time: string) => new Date(`${date}T${time}:00`).getTime();
+
+let nextId = 0;
+const dose = (medicationId: string, date: string, time: string, status: DoseEvent['status'] = 'taken'): DoseEvent =>
+  ({ id: `d${++nextId}`, medicationId, date, time, status, at: at(date, time) });
+
+describe('parseFrequency', () => {
+  it.each([
+    ['once daily', ['08:00'], 1],
+    ['BID', ['08:00', '20:00'], 1],
+    ['t.i.d.', ['08:00', '14:00', '20:00'], 1],
+    ['3x a day', ['08:00', '14:00', '20:00'], 1],
+    ['q6h', ['02:00', '08:00', '14:00', '20:00'], 1],
+    ['at bedtime', ['21:00'], 1],
+    ['once a week', ['08:00'], 7],
+    ['every other day', ['08:00'], 2]
+  ])('reads "%s"', (text, times, everyDays) => {
+    expect(parseFrequency(text)).toEqual({ times, everyDays, asNeeded: false });
+  });
+
+  it('reads as-needed medications without dose times', () => {
+    expect(parseFrequency('PRN for pain')).toEqual({ times: [], everyDays: 1, asNeeded: true });
+  });
+
+  it('leaves frequencies it cannot read unscheduled', () => {
+    expect(parseFrequency('')).toBeUndefined();
+    expect(parseFrequency('q5h')).toBeUndefined();
+    expect(parseFrequency('as directed')).toBeUndefined();
+  });
+});
+
+describe('dosesForDay', () => {
+  it('lists the day\'s doses in time order with any logged event', () => {
+    const medications: Medication[] = [
+      { id: 'a', name: 'Metformin', dosage: '500 mg', frequency: 'twice daily' },
+      { id: 'b', name: 'Atorvastatin', dosage: '20 mg', frequency: 'at night' }
+    ];
+    const taken = dose('a', '2025-03-10', '08:00');
+    const doses = dosesForDay(medications, [taken], '2025-03-10');
+    expect(doses.map(d => [d.medication.id, d.time, d.event])).toEqual([
+      ['a', '08:00', taken],
+      ['a', '20:00', undefined],
+      ['b', '21:00', undefined]
+    ]);
+  });
+
+  it('counts multi-day schedules from the start date and stops after the stop date', () => {
+    const medication: Medication = {
+      id: 'a', name: 'Methotrexate', dosage: '10 mg', frequency: '',
+      schedule: { times: ['09:00'], everyDays: 7, asNeeded: false, startDate: '2025-03-03', stopDate: '2025-03-20' }
+    };
+    const days = ['2025-03-03', '2025-03-06', '2025-03-10', '2025-03-17', '2025-03-24'];
+    expect(days.map(day => dosesForDay([medication], [], day).length)).toEqual([1, 0, 1, 1, 0]);
+  });
+});
+
+describe('adherenceContext', () => {
+  const medication: Medication = { id: 'a', name: 'Lisinopril', dosage: '10 mg', frequency: 'twice daily' };
+
+  it('compares taken doses with the doses due since the first logged one', () => {
+    const log = [
+      dose('a', '2025-03-08', '08:00'), dose('a', '2025-03-08', '20:00'),
+      dose('a', '2025-03-09', '08:00'), dose('a', '2025-03-09', '20:00', 'skipped'),
+      dose('a', '2025-03-10', '08:00')
+    ];
+    // The evening dose on the 10th is not due yet at noon.
+    expect(adherenceContext([medication], log, at('2025-03-10', '12:00'))).toEqual([
+      { medication: 'Lisinopril', percent: 80, taken: 4, expected: 5, since: '2025-03-08' }
+    ]);
+  });
+
+  it('leaves out medications with no logged doses or no schedule', () => {
+    const asNeeded: Medication = { id: 'b', name: 'Ibuprofen', dosage: '400 mg', frequency: 'as needed' };
+    expect(adherenceContext([medication, asNeeded], [dose('b', '2025-03-10', '08:00')], at('2025-03-10', '12:00'))).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createPatientRecord, exportFhirBundle, importFhirBundle, ingestVitals } from '../index';
+import { rawVital } from './fixtures';
+
+const observation = (resource: object) => ({ resource: { resourceType: 'Observation', ...resource } });
+
+describe('exportFhirBundle and importFhirBundle', () => {
+  it('reads back the patient, readings, conditions and medications it wrote', () => {
+    const demographics = { age: 58, sex: 'female' as const };
+    const record = createPatientRecord({
+      name: 'Jane Roe',
+      ...demographics,
+      vitals: ingestVitals([
+        rawVital('Glucose', '7', 'mmol/L', Date.UTC(2025, 0, 1, 8)),
+        rawVital('Blood Pressure', '150/95', 'mmHg', Date.UTC(2025, 0, 2, 9)),
+        rawVital('Urine colour', 'dark', '', Date.UTC(2025, 0, 3, 10))
+      ], demographics),
+      history: [{ id: 'c1', condition: 'Type 2 diabetes', status: 'Active', date: '2019' }],
+      medications: [{ id: 'm1', name: 'Metformin', dosage: '500 mg', frequency: 'twice daily' }]
+    });
+
+    const { profile, imported, issues } = importFhirBundle(JSON.parse(JSON.stringify(exportFhirBundle(record))));
+
+    expect(issues).toEqual([]);
+    expect(imported).toBe(1 + 4 + 1 + 1);
+    expect(profile).toMatchObject({ name: 'Jane Roe', age: 58, sex: 'female' });
+    expect(profile.vitals.map(v => [v.code, v.value, v.canonicalUnit, v.severity, v.timestamp]))
+      .toEqual(record.profile.vitals.map(v => [v.code, v.value, v.canonicalUnit, v.severity, v.timestamp]));
+    expect(profile.vitals[3]).toMatchObject({ parameter: 'Urine colour', reading: 'dark', code: undefined });
+    expect(profile.history).toEqual([{ id: 'c1', condition: 'Type 2 diabetes', status: 'Active', date: '2019' }]);
+    expect(profile.medications).toMatchObject([{ name: 'Metformin', dosage: '500 mg', frequency: 'twice daily' }]);
+  });
+
+  it('codes quantities in UCUM only when the unit has a UCUM mapping', () => {
+    const record = createPatientRecord({
+      vitals: ingestVitals([rawVital('Heart Rate', '72', 'bpm'), rawVital('Ferritin', '120', 'ng/mL')], {})
+    });
+    const quantities = exportFhirBundle(record).entry.slice(1).map(e => (e.resource as any).valueQuantity);
+    expect(quantities[0]).toEqual({ value: 72, unit: 'bpm', system: 'http://unitsofmeasure.org', code: '/min' });
+    expect(quantities[1]).toEqual({ value: 120, unit: 'ng/mL' });
+  });
+});
+
+describe('importFhirBundle', () => {
+  it('reads blood pressure components into systolic and diastolic readings', () => {
+    const loinc = (code: string) => ({ coding: [{ system: 'http://loinc.org', code }] });
+    const { profile } = importFhirBundle({
+      resourceType: 'Bundle',
+      entry: [observation({
+        id: 'bp',
+        code: loinc('85354-9'),
+        effectivePeriod: { start: '2025-03-01T08:00:00Z' },
+        component: [
+          { code: loinc('8462-4'), valueQuantity: { value: 85, unit: 'mmHg' } },
+          { code: loinc('8480-6'), valueQuantity: { value: 135, unit: 'mmHg' } }
+        ]
+      })]
+    });
+    expect(profile.vitals.map(v => [v.code, v.value, v.timestamp])).toEqual([
+      ['8480-6', 135, Date.UTC(2025, 2, 1, 8)],
+      ['8462-4', 85, Date.UTC(2025, 2, 1, 8)]
+    ]);
+  });
+
+  it('grades readings against a Patient listed after them', () => {
+    const { profile } = importFhirBundle({
+      resourceType: 'Bundle',
+      entry: [
+        observation({ code: { text: 'Creatinine' }, effectiveDateTime: '2025-01-01', valueQuantity: { value: 1.1, unit: 'mg/dL' } }),
+        { resource: { resourceType: 'Patient', gender: 'female', birthDate: String(new Date().getFullYear() - 40) } }
+      ]
+    });
+    expect(profile.vitals[0].severity).toBe('Elevated');
+  });
+
+  it('skips invalid resources and reports each one', () => {
+    const { imported, issues } = importFhirBundle({
+      resourceType: 'Bundle',
+      entry: [
+        observation({ id: 'no-date', code: { text: 'Glucose' }, valueQuantity: { value: 5 } }),
+        { resource: { resourceType: 'Encounter', id: 'e1' } }
+      ]
+    });
+    expect(imported).toBe(0);
+    expect(issues.map(i => [i.index, i.resourceType, i.id])).toEqual([[0, 'Observation', 'no-date'], [1, 'Encounter', 'e1']]);
+  });
+
+  it('rejects anything that is not a Bundle', () => {
+    expect(() => importFhirBundle({ resourceType: 'Patient' })).toThrow(/not a FHIR R4 Bundle/);
+  });
+});
@@ -0,0 +1,24 @@
+import type { PatientProfile, VitalsRecord } from '../index';
+
+let nextId = 0;
+
+export const DAY_MS = 86_400_000;
+
+// A raw reading as it arrives from an extraction or manual entry, before the dictionary has seen it.
+export const rawVital = (parameter: string, reading: string, unit: string, timestamp = Date.UTC(2025, 0, 15, 12)): VitalsRecord => ({
+  id: `v${++nextId}`,
+  parameter,
+  reading,
+  unit,
+  severity: 'Normal',
+  timestamp,
+  dateSource: 'reading'
+});
+
+export const patient = (overrides: Partial<PatientProfile> = {}): PatientProfile => ({
+  name: 'Test Patient',
+  history: [],
+  vitals: [],
+  medications: [],
+  ...overrides
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { checkInteractions } from '../index';
+import type { Medication } from '../index';
+
+const medication = (id: string, name: string): Medication => ({ id, name, dosage: '', frequency: '' });
+
+describe('checkInteractions', () => {
+  it('flags two drugs of one class as a class duplicate', () => {
+    const { findings } = checkInteractions({ medications: [medication('a', 'Prednisone 20mg'), medication('b', 'Decadron')], history: [] });
+    expect(findings).toEqual([expect.objectContaining({ kind: 'duplicate', severity: 'Moderate', subjects: ['Prednisone 20mg', 'Decadron'] })]);
+  });
+
+  it('flags the same drug entered twice under different names', () => {
+    const { findings } = checkInteractions({ medications: [medication('a', 'Warfarin'), medication('b', 'Coumadin 5 mg')], history: [] });
+    expect(findings.map(f => [f.kind, f.severity])).toEqual([['duplicate', 'Major']]);
+  });
+
+  it('matches drug-drug rules through a brand name and a drug class', () => {
+    const { findings } = checkInteractions({ medications: [medication('a', 'Medrol'), medication('b', 'Ciprofloxacin')], history: [] });
+    expect(findings).toEqual([expect.objectContaining({ kind: 'drug-drug', effect: expect.stringMatching(/tendon rupture/) })]);
+  });
+
+  it('reads the longest synonym, so esomeprazole is not omeprazole', () => {
+    const { findings } = checkInteractions({ medications: [medication('a', 'Clopidogrel'), medication('b', 'Esomeprazole')], history: [] });
+    expect(findings.map(f => f.effect)).toEqual([expect.stringMatching(/^Esomeprazole/)]);
+    expect(checkInteractions({ medications: [medication('a', 'Clopidogrel'), medication('b', 'Pantoprazole')], history: [] }).findings).toEqual([]);
+  });
+
+  it('checks drugs against active conditions only', () => {
+    const medications = [medication('a', 'Ibuprofen')];
+    const active = checkInteractions({ medications, history: [{ id: 'c', condition: 'Chronic kidney disease stage 3', status: 'Active', date: '' }] });
+    expect(active.findings).toEqual([expect.objectContaining({ kind: 'drug-condition', severity: 'Major', medicationIds: ['a'] })]);
+    const resolved = checkInteractions({ medications, history: [{ id: 'c', condition: 'Peptic ulcer', status: 'Resolved', date: '' }] });
+    expect(resolved.findings).toEqual([]);
+  });
+
+  it('sorts the most severe findings first and lists unrecognised medications', () => {
+    const unknown = medication('x', 'Herbal tea');
+    const { findings, unrecognisedMedications } = checkInteractions({
+      medications: [medication('a', 'Sildenafil'), medication('b', 'Sertraline'), medication('c', 'Tramadol'), medication('d', 'Nitroglycerin'), unknown],
+      history: []
+    });
+    expect(findings.map(f => f.severity)).toEqual(['Contraindicated', 'Major']);
+    expect(unrecognisedMedications).toEqual([unknown]);
+  });
+});
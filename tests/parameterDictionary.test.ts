@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { convertToCanonical, findParameterByName, ingestVitals, normalizeVital, numericSeries } from '../index';
+import { rawVital } from './fixtures';
+
+describe('findParameterByName', () => {
+  it('matches synonyms regardless of case and spacing', () => {
+    expect(findParameterByName('FBS')?.code).toBe('2345-7');
+    expect(findParameterByName('  Blood   Sugar ')?.code).toBe('2345-7');
+    expect(findParameterByName('Haemoglobin')?.code).toBe('718-7');
+  });
+
+  it('returns undefined for parameters outside the dictionary', () => {
+    expect(findParameterByName('Ferritin')).toBeUndefined();
+  });
+});
+
+describe('convertToCanonical', () => {
+  const glucose = findParameterByName('glucose')!;
+  const temperature = findParameterByName('temperature')!;
+  const heartRate = findParameterByName('heart rate')!;
+
+  it('converts known units into the canonical unit', () => {
+    expect(convertToCanonical(7, 'mmol/L', glucose)).toBe(126.11);
+    expect(convertToCanonical(98.6, '°F', temperature)).toBe(37);
+  });
+
+  it('passes the canonical unit and its aliases through unchanged', () => {
+    expect(convertToCanonical(110, 'mg/dL', glucose)).toBe(110);
+    expect(convertToCanonical(72, 'beats/min', heartRate)).toBe(72);
+  });
+
+  it('returns undefined for a unit it cannot convert', () => {
+    expect(convertToCanonical(5, 'mg', glucose)).toBeUndefined();
+  });
+});
+
+describe('normalizeVital', () => {
+  it('splits a "120/80" blood pressure into systolic and diastolic readings', () => {
+    const parts = normalizeVital(rawVital('BP', '120/80', 'mmHg'));
+    expect(parts).toHaveLength(2);
+    expect(parts.map(p => [p.code, p.parameter, p.value])).toEqual([
+      ['8480-6', 'Systolic Blood Pressure', 120],
+      ['8462-4', 'Diastolic Blood Pressure', 80]
+    ]);
+    expect(parts.every(p => p.rawParameter === 'BP')).toBe(true);
+    expect(new Set(parts.map(p => p.id)).size).toBe(2);
+  });
+
+  it('keeps a blood pressure with a single number as one panel reading', () => {
+    const parts = normalizeVital(rawVital('Blood Pressure', '120', 'mmHg'));
+    expect(parts).toHaveLength(1);
+    expect(parts[0].code).toBe('85354-9');
+  });
+
+  it('keeps unknown parameters as reported without a code', () => {
+    const [vital] = normalizeVital(rawVital('Ferritin', '120', 'ng/mL'));
+    expect(vital).toMatchObject({ parameter: 'Ferritin', code: undefined, value: 120, canonicalUnit: 'ng/mL' });
+  });
+
+  it('puts glucose in mmol/L and mg/dL on one series in mg/dL', () => {
+    const vitals = ingestVitals([
+      rawVital('Glucose', '7', 'mmol/L', Date.UTC(2025, 0, 1)),
+      rawVital('Fasting Blood Sugar', '110', 'mg/dL', Date.UTC(2025, 1, 1))
+    ], {});
+    const series = numericSeries(vitals, '2345-7');
+    expect(series.map(v => v.value)).toEqual([126.11, 110]);
+    expect(series.every(v => v.canonicalUnit === 'mg/dL' && v.parameter === 'Glucose')).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { applyReviewItems, ingestVitals, matchCondition, matchVital } from '../index';
+import { patient, rawVital } from './fixtures';
+
+const MORNING = Date.UTC(2025, 0, 15, 8);
+const EVENING = Date.UTC(2025, 0, 15, 18);
+const NEXT_DAY = Date.UTC(2025, 0, 16, 12);
+
+describe('matchVital', () => {
+  const existing = ingestVitals([
+    rawVital('Glucose', '110', 'mg/dL', MORNING),
+    rawVital('Blood Pressure', '120/80', 'mmHg', MORNING)
+  ], {});
+
+  it('treats the same value on the same day as a duplicate, whatever the parameter is called', () => {
+    const match = matchVital(rawVital('Blood Sugar', '110', 'mg/dL', EVENING), existing);
+    expect(match).toMatchObject({ kind: 'duplicate', existingIds: [existing[0].id] });
+  });
+
+  it('reports a different value on the same day as a conflict', () => {
+    const match = matchVital(rawVital('Glucose', '140', 'mg/dL', EVENING), existing);
+    expect(match).toMatchObject({ kind: 'conflict', existingIds: [existing[0].id] });
+  });
+
+  it('ignores readings from another day', () => {
+    expect(matchVital(rawVital('Glucose', '110', 'mg/dL', NEXT_DAY), existing)).toBeUndefined();
+  });
+
+  it('calls a blood pressure a duplicate only when both numbers match', () => {
+    expect(matchVital(rawVital('BP', '120/80', 'mmHg', EVENING), existing)?.kind).toBe('duplicate');
+    const changed = matchVital(rawVital('BP', '120/90', 'mmHg', EVENING), existing);
+    expect(changed?.kind).toBe('conflict');
+    expect(changed?.existingIds).toEqual([existing[1].id, existing[2].id]);
+  });
+});
+
+describe('matchCondition', () => {
+  const existing = [{ id: 'c1', condition: 'Hypertension', status: 'Active', date: '2018' }];
+
+  it('treats the same condition and status as a duplicate', () => {
+    expect(matchCondition({ id: 'n', condition: ' hypertension ', status: 'active', date: '' }, existing)?.kind).toBe('duplicate');
+    expect(matchCondition({ id: 'n', condition: 'Hypertension', status: '', date: '' }, existing)?.kind).toBe('duplicate');
+  });
+
+  it('reports a changed status as a conflict', () => {
+    expect(matchCondition({ id: 'n', condition: 'Hypertension', status: 'Resolved', date: '' }, existing))
+      .toMatchObject({ kind: 'conflict', existingIds: ['c1'], summary: 'Recorded as Active' });
+  });
+
+  it('ignores other conditions', () => {
+    expect(matchCondition({ id: 'n', condition: 'Asthma', status: 'Active', date: '' }, existing)).toBeUndefined();
+  });
+});
+
+describe('applyReviewItems', () => {
+  it('replaces the conflicting reading only when asked to', () => {
+    const before = patient({ vitals: ingestVitals([rawVital('Glucose', '110', 'mg/dL', MORNING)], {}) });
+    const incoming = rawVital('Glucose', '140', 'mg/dL', EVENING);
+
+    const kept = applyReviewItems(before, [{ id: 'r1', kind: 'vital', vital: incoming, accepted: true, replaceExisting: false }]);
+    expect(kept.vitals.map(v => v.value)).toEqual([110, 140]);
+
+    const replaced = applyReviewItems(before, [{ id: 'r1', kind: 'vital', vital: incoming, accepted: true, replaceExisting: true }]);
+    expect(replaced.vitals.map(v => v.value)).toEqual([140]);
+  });
+
+  it('replaces a condition whose status changed', () => {
+    const before = patient({ history: [{ id: 'c1', condition: 'Asthma', status: 'Active', date: '2010' }] });
+    const entry = { id: 'c2', condition: 'Asthma', status: 'Resolved', date: '2010' };
+    const after = applyReviewItems(before, [{ id: 'r1', kind: 'condition', entry, accepted: true, replaceExisting: true }]);
+    expect(after.history).toEqual([entry]);
+  });
+});
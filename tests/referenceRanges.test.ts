@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { applyReferenceRanges, applyReviewItems, classifyValue, findReferenceRange, ingestVitals } from '../index';
+import { patient, rawVital } from './fixtures';
+
+describe('findReferenceRange', () => {
+  it('prefers the sex-specific range when the sex is known', () => {
+    expect(findReferenceRange('718-7', { sex: 'female' })).toMatchObject({ sex: 'female', normalLow: 12, normalHigh: 15.5 });
+    expect(findReferenceRange('718-7', { sex: 'male' })).toMatchObject({ sex: 'male', normalLow: 13.5 });
+    expect(findReferenceRange('718-7', {})).toMatchObject({ normalLow: 12, normalHigh: 17.5 });
+    expect(findReferenceRange('718-7', {})?.sex).toBeUndefined();
+  });
+
+  it('picks the age band for heart rate and falls back to adult limits when the age is unknown', () => {
+    expect(findReferenceRange('8867-4', { age: 4 })).toMatchObject({ normalLow: 80, normalHigh: 140 });
+    expect(findReferenceRange('8867-4', { age: 12 })).toMatchObject({ normalLow: 70, normalHigh: 110 });
+    expect(findReferenceRange('8867-4', { age: 40 })).toMatchObject({ minAge: 18, normalHigh: 100 });
+    expect(findReferenceRange('8867-4', {})).toMatchObject({ normalLow: 60, normalHigh: 100 });
+  });
+
+  it('has no range for codes outside the table', () => {
+    expect(findReferenceRange('0000-0', { age: 40 })).toBeUndefined();
+  });
+});
+
+describe('classifyValue', () => {
+  const limits = { criticalLow: 2.5, normalLow: 3.5, normalHigh: 5.1, criticalHigh: 6.5 };
+
+  it('treats the limits themselves as inside the band', () => {
+    expect(classifyValue(3.5, limits)).toBe('Normal');
+    expect(classifyValue(5.1, limits)).toBe('Normal');
+    expect(classifyValue(6.5, limits)).toBe('Elevated');
+    expect(classifyValue(2.5, limits)).toBe('Elevated');
+  });
+
+  it('grades beyond the critical limits as Critical', () => {
+    expect(classifyValue(6.6, limits)).toBe('Critical');
+    expect(classifyValue(2.4, limits)).toBe('Critical');
+  });
+});
+
+describe('applyReferenceRanges', () => {
+  it('overrides the model severity with the reference grade and keeps the model label', () => {
+    const [graded] = ingestVitals([{ ...rawVital('Potassium', '6.8', 'mmol/L'), severity: 'Normal' }], {});
+    expect(graded).toMatchObject({ severity: 'Critical', modelSeverity: 'Normal', severitySource: 'reference' });
+  });
+
+  it('keeps the model severity when no range covers the reading', () => {
+    const [graded] = ingestVitals([{ ...rawVital('Ferritin', '900', 'ng/mL'), severity: 'Elevated' }], {});
+    expect(graded).toMatchObject({ severity: 'Elevated', severitySource: 'model' });
+  });
+
+  it('re-grades the same reading for a different patient', () => {
+    const [vital] = ingestVitals([rawVital('Hemoglobin', '13', 'g/dL')], {});
+    expect(applyReferenceRanges([vital], { sex: 'male' })[0].severity).toBe('Elevated');
+    expect(applyReferenceRanges([vital], { sex: 'female' })[0].severity).toBe('Normal');
+  });
+});
+
+describe('applyReviewItems', () => {
+  it('re-grades existing vitals when an accepted review sets the sex', () => {
+    const before = patient({ vitals: ingestVitals([rawVital('Hemoglobin', '13', 'g/dL')], {}) });
+    expect(before.vitals[0].severity).toBe('Normal');
+    const after = applyReviewItems(before, [{ id: 'r1', kind: 'demographic', key: 'sex', after: 'male', accepted: true }]);
+    expect(after.sex).toBe('male');
+    expect(after.vitals[0].severity).toBe('Elevated');
+  });
+
+  it('leaves existing grades alone when the demographic change is rejected', () => {
+    const before = patient({ vitals: ingestVitals([rawVital('Hemoglobin', '13', 'g/dL')], {}) });
+    const after = applyReviewItems(before, [{ id: 'r1', kind: 'demographic', key: 'sex', after: 'male', accepted: false }]);
+    expect(after.vitals[0].severity).toBe('Normal');
+  });
+});
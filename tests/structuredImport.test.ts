@@ -0,0 +1,112 @@
+import { File as NodeFile } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+import { MAX_IMPORT_ISSUES, guessCsvMapping, parseCsv, readAppleHealthExport, readCsvVitals } from '../index';
+
+const noon = (y: number, m: number, d: number) => new Date(y, m - 1, d, 12).getTime();
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('﻿Test,Result,Note\r\n"Glucose, fasting",110,"said ""fine""\nthen left"\r\n\r\n')).toEqual([
+      ['Test', 'Result', 'Note'],
+      ['Glucose, fasting', '110', 'said "fine"\nthen left']
+    ]);
+  });
+
+  it('picks the delimiter from the first line', () => {
+    expect(parseCsv('Date;Weight (kg)\n2025-01-02;72,5')).toEqual([['Date', 'Weight (kg)'], ['2025-01-02', '72,5']]);
+  });
+});
+
+describe('guessCsvMapping', () => {
+  it('maps a one-reading-per-row file to the long layout', () => {
+    expect(guessCsvMapping(['Collected', 'Test name', 'Result', 'Units'])).toMatchObject({
+      layout: 'long', dateColumn: 0, parameterColumn: 1, valueColumn: 2, unitColumn: 3
+    });
+  });
+
+  it('maps one column per parameter to the wide layout, reading units from the header', () => {
+    expect(guessCsvMapping(['Date', 'Time', 'Weight (kg)', 'Pulse', 'Comment'])).toMatchObject({
+      layout: 'wide',
+      dateColumn: 0,
+      timeColumn: 1,
+      valueColumns: [{ column: 2, parameter: 'Body Weight', unit: 'kg' }, { column: 3, parameter: 'Heart Rate', unit: 'bpm' }]
+    });
+  });
+});
+
+describe('readCsvVitals', () => {
+  it('reads a wide file with day-first dates, skipping blank cells', () => {
+    const table = parseCsv('Date,Weight (kg),Pulse\n02/01/2025,72.5,64\n03/01/2025,,70');
+    const { vitals, issueCount } = readCsvVitals(table, { ...guessCsvMapping(table[0]), dateFormat: 'dmy' });
+    expect(issueCount).toBe(0);
+    expect(vitals.map(v => [v.parameter, v.reading, v.unit, v.timestamp])).toEqual([
+      ['Body Weight', '72.5', 'kg', noon(2025, 1, 2)],
+      ['Heart Rate', '64', 'bpm', noon(2025, 1, 2)],
+      ['Heart Rate', '70', 'bpm', noon(2025, 1, 3)]
+    ]);
+  });
+
+  it('places two-digit years after this year in the last century', () => {
+    const nextYear = (new Date().getFullYear() + 1) % 100;
+    const table = [['Date', 'Test', 'Result'], [`1/2/${String(nextYear).padStart(2, '0')}`, 'Glucose', '90']];
+    const { vitals } = readCsvVitals(table, { ...guessCsvMapping(table[0]), dateFormat: 'mdy' });
+    expect(new Date(vitals[0].timestamp).getFullYear()).toBe(1900 + nextYear);
+  });
+
+  it('reports unreadable rows by line', () => {
+    const table = parseCsv('Date,Test,Result\n2025-01-02,Glucose,high\nsoon,Glucose,90\n2025-01-03,,90');
+    const { vitals, issues, issueCount } = readCsvVitals(table, guessCsvMapping(table[0]));
+    expect(vitals).toEqual([]);
+    expect(issueCount).toBe(3);
+    expect(issues).toEqual([
+      { position: 2, message: 'Glucose: "high" is not a number.' },
+      { position: 3, message: 'Unreadable date "soon".' },
+      { position: 4, message: 'No parameter name.' }
+    ]);
+  });
+
+  it('keeps the first issues but counts them all', () => {
+    const table = [['Date', 'Test', 'Result'], ...Array.from({ length: 80 }, () => ['never', 'Glucose', '90'])];
+    const { issues, issueCount } = readCsvVitals(table, guessCsvMapping(table[0]));
+    expect(issues).toHaveLength(MAX_IMPORT_ISSUES);
+    expect(issueCount).toBe(80);
+  });
+});
+
+describe('readAppleHealthExport', () => {
+  // jsdom's File has no stream(), so the export is built with Node's.
+  const exportFile = (text: string, name: string) => new NodeFile([text], name) as unknown as File;
+  const record = (type: string, value: string, unit: string, startDate: string) =>
+    `<Record type="HKQuantityTypeIdentifier${type}" unit="${unit}" value="${value}" startDate="${startDate}" endDate="${startDate}"/>`;
+
+  it('averages dense samples per day, keeps single readings and reports bad samples', async () => {
+    const xml = [
+      '<?xml version="1.0"?>', '<HealthData locale="en_US">',
+      record('HeartRate', '60', 'count/min', '2025-03-14 08:00:00 +0000'),
+      record('HeartRate', '70', 'count/min', '2025-03-14 09:00:00 +0000'),
+      record('OxygenSaturation', '0.97', '%', '2025-03-14 08:00:00 +0000'),
+      record('BloodPressureSystolic', '128', 'mmHg', '2025-03-14 08:15:00 -0700'),
+      record('BloodPressureSystolic', '128', 'mmHg', '2025-03-14 08:15:00 -0700'),
+      record('StepCount', '500', 'count', '2025-03-14 08:00:00 +0000'),
+      record('BodyMass', '', 'kg', '2025-03-14 08:00:00 +0000'),
+      '</HealthData>'
+    ].join('\n');
+    const progress: number[] = [];
+    const result = await readAppleHealthExport(exportFile(xml, 'export.xml'), p => progress.push(p));
+
+    expect(result.samples).toBe(5);
+    expect(result.issues).toEqual([{ position: 7, message: 'Body Weight: unreadable sample dated "2025-03-14 08:00:00 +0000".' }]);
+    expect(result.vitals.map(v => [v.parameter, v.reading, v.unit])).toEqual(expect.arrayContaining([
+      ['Heart Rate', '65', 'count/min'],
+      ['Oxygen Saturation', '97', '%'],
+      ['Systolic Blood Pressure', '128', 'mmHg']
+    ]));
+    expect(result.vitals).toHaveLength(3);
+    expect(result.vitals.find(v => v.parameter === 'Systolic Blood Pressure')?.timestamp).toBe(Date.UTC(2025, 2, 14, 15, 15));
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  it('rejects files that are not a Health export', async () => {
+    await expect(readAppleHealthExport(exportFile('<html></html>', 'page.xml'), () => {})).rejects.toThrow(/not an Apple Health export/);
+  });
+});
@@ -1,18 +1,60 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Serves /api/<name> from api/<name>.ts during development, mirroring how Vercel deploys them.
+const apiRoutes = (): Plugin => ({
+  name: 'medaid-api-routes',
+  configureServer(server) {
+    server.middlewares.use(async (req, res, next) => {
+      const match = req.url?.match(/^\/api\/(\w+)(\?.*)?$/);
+      if (!match) return next();
+      try {
+        const route = await server.ssrLoadModule(`/api/${match[1]}.ts`);
+        const handler = route[req.method || 'GET'];
+        if (!handler) {
+          res.statusCode = 405;
+          return res.end();
+        }
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk);
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+        const response: Response = await handler(new Request(`http://${req.headers.host}${req.url}`, {
+          method: req.method,
+          headers: Object.entries(req.headers).flatMap(([k, v]) => v === undefined ? [] : [[k, String(v)] as [string, string]]),
+          body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+          signal: controller.signal
+        }));
+        res.writeHead(response.status, Object.fromEntries(response.headers));
+        const reader = response.body?.getReader();
+        while (reader) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          res.write(value);
+        }
+        res.end();
+      } catch (e) {
+        next(e);
+      }
+    });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The key is only read by the server routes; it is never inlined into the browser bundle.
+    for (const key of ['GEMINI_API_KEY', 'GEMINI_ALLOWED_MODELS']) {
+      if (env[key] && !process.env[key]) process.env[key] = env[key];
+    }
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), apiRoutes()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
         alias: {
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// The engines live in index.tsx beside the UI, so the tests load it in a DOM (without mounting the app).
+export default defineConfig({
+  test: {
+    environment: 'jsdom',
+    include: ['tests/**/*.test.ts']
+  }
+});